@@ -1,43 +1,32 @@
 import { NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
-import { calculateFreight, exampleInputs, type FreightInputs } from "../../../calculator/freightCalculator";
-import { evaluateLaycan, parseDateInput, parseLaycanRange, type LaycanEvaluation } from "../../../calculator/laycan";
-import { getQuantityRangeFeasibility, getWeightFeasibility, type QuantityRange } from "../../../calculator/weight";
+import { exampleInputs } from "../../../calculator/freightCalculator";
+import { formatZonedDateTime } from "../../../calculator/laycan";
+import { defaultDistanceNm, type DistanceSource } from "../../../calculator/portDistances";
 import {
-  defaultDistanceNm,
-  extractPortFromStatus,
-  getDistance,
-  parseDistanceCsv,
-  resolvePortName,
-} from "../../../calculator/portDistances";
+  loadBusinessData,
+  type BusinessData,
+  type CargoOption,
+  type VesselOption,
+} from "../../../calculator/businessData";
+import type { PairRejectionReason, TopkJson } from "../../../calculator/portfolioTrace";
+import {
+  createPairEvaluator,
+  createPairReport,
+  getDefaultPairPricing,
+  type PairResult,
+  type PortPairResult,
+} from "../../../calculator/pairEvaluator";
+import {
+  buildPortfolioProblem,
+  defaultPortfolioVesselCount,
+  type PortfolioLimits,
+} from "../../../calculator/portfolioProblem";
+import { solvePortfolio } from "../../../calculator/portfolioSolver";
 
 export const runtime = "nodejs";
 
-type CsvRow = Record<string, string>;
-
-type VesselOption = {
-  id: string;
-  name: string;
-  source: "capesize" | "market";
-  currentPort: string;
-  etdDate: string;
-  data: FreightInputs["vessel"];
-};
-
-type CargoOption = {
-  id: string;
-  name: string;
-  source: "committed" | "market";
-  data: FreightInputs["cargo"];
-  quantityRange: QuantityRange | null;
-  loadPort: string;
-  dischargePort: string;
-  portCosts: { load: number; discharge: number };
-  laycanLabel: string;
-  laycanWindow: ReturnType<typeof parseLaycanRange>;
-};
-
 type BestPlanSummary = {
   reply: string;
   context: string;
@@ -48,26 +37,6 @@ type BestPortfolioSummary = {
   context: string;
 };
 
-type TopkJson = {
-  diff?: { one_sentence?: string; summary?: string };
-  top1_top2_diff?: { summary?: string; one_sentence?: string };
-};
-
-type PairResult = ReturnType<typeof calculateFreight> & {
-  adjustedProfit: number;
-  waitingCost: number;
-  laycanEvaluation?: LaycanEvaluation;
-  vessel: VesselOption;
-  cargo: CargoOption;
-  ballastNm: number;
-  ladenNm: number;
-  cargoQty: number;
-  ballastDistanceKnown: boolean;
-  ladenDistanceKnown: boolean;
-  speedBlend: { ballast: number; laden: number };
-  departureDateLabel: string;
-};
-
 const formatMoney = (value: number | undefined | null) =>
   (Number.isFinite(value ?? NaN) ? (value as number) : 0).toLocaleString("en-US", {
     style: "currency",
@@ -78,70 +47,6 @@ const formatMoney = (value: number | undefined | null) =>
 const formatNumber = (value: number) =>
   value.toLocaleString("en-US", { maximumFractionDigits: 2 });
 
-const formatDateLabel = (value?: Date) => {
-  if (!value) return "--";
-  return value.toLocaleDateString("en-US", {
-    timeZone: "UTC",
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  });
-};
-
-const parseCsv = (text: string): CsvRow[] => {
-  const rows: string[][] = [];
-  let current = "";
-  let row: string[] = [];
-  let inQuotes = false;
-
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    const next = text[i + 1];
-    if (char === "\"") {
-      if (inQuotes && next === "\"") {
-        current += "\"";
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-      continue;
-    }
-    if (char === "," && !inQuotes) {
-      row.push(current);
-      current = "";
-      continue;
-    }
-    if ((char === "\n" || char === "\r") && !inQuotes) {
-      if (char === "\r" && next === "\n") i += 1;
-      row.push(current);
-      current = "";
-      if (row.some((cell) => cell.trim().length > 0)) {
-        rows.push(row);
-      }
-      row = [];
-      continue;
-    }
-    current += char;
-  }
-
-  if (current.length > 0 || row.length > 0) {
-    row.push(current);
-    if (row.some((cell) => cell.trim().length > 0)) {
-      rows.push(row);
-    }
-  }
-
-  if (rows.length === 0) return [];
-  const headers = rows[0].map((header) => header.trim());
-  return rows.slice(1).map((cells) => {
-    const record: CsvRow = {};
-    headers.forEach((header, index) => {
-      record[header] = (cells[index] ?? "").trim();
-    });
-    return record;
-  });
-};
-
 const safeReadJson = async <T,>(filePath: string, fallback: T): Promise<T> => {
   try {
     await fs.access(filePath);
@@ -157,6 +62,11 @@ const safeReadJson = async <T,>(filePath: string, fallback: T): Promise<T> => {
   }
 };
 
+const readBusinessData = () => {
+  const dataRoot = path.join(process.cwd(), "public", "business_data");
+  return loadBusinessData((file) => fs.readFile(path.join(dataRoot, file), "utf8"));
+};
+
 const buildPortfolioContextPack = (params: {
   trace?: any;
   topk?: any;
@@ -175,14 +85,15 @@ const buildPortfolioContextPack = (params: {
     diff?.one_sentence ??
     diff?.summary ??
     (top1 && top2
-      ? "TOPK_DIFF_MISSING: run pipeline to generate top1/top2 diff."
-      : "TOPK_MISSING: run pipeline to generate data/topk_portfolios.json");
+      ? "TOPK_DIFF_MISSING: run a recommendation to generate the top1/top2 diff."
+      : "TOPK_MISSING: run a recommendation to generate knowledge/topk_portfolios.json");
   const topkKeyDeltas = diff?.key_deltas ?? diff?.deltas ?? {};
 
-  const bunkerLine =
-    thresholds?.bunker ?? thresholds?.bunker_price_delta ?? "THRESHOLD_MISSING";
-  const delayLine =
-    thresholds?.delay ?? thresholds?.port_delay_delta_days ?? "THRESHOLD_MISSING";
+  const missingThreshold =
+    thresholds?.note ??
+    "THRESHOLD_MISSING: run a recommendation to generate knowledge/thresholds.json";
+  const bunkerLine = thresholds?.bunker ?? thresholds?.bunker_price_delta ?? missingThreshold;
+  const delayLine = thresholds?.delay ?? thresholds?.port_delay_delta_days ?? missingThreshold;
 
   return [
     "PORTFOLIO_CONTEXT_PACK:",
@@ -194,453 +105,39 @@ const buildPortfolioContextPack = (params: {
   ].join("\n");
 };
 
-const toNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const cleaned = value.replace(/[^0-9.-]/g, "");
-  const parsed = Number.parseFloat(cleaned);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
-
-const parseFirstNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d,.]+/);
-  return match ? toNumber(match[0], fallback) : fallback;
-};
-
-const parseQuantityRange = (
-  value: string | undefined | null,
-  fallbackQty: number,
-): { baseQty: number; range: QuantityRange | null } => {
-  if (!value) return { baseQty: fallbackQty, range: null };
-  const baseQty = parseFirstNumber(value, fallbackQty);
-  const percentMatch = value.match(/([\d.]+)\s*%/);
-  if (percentMatch) {
-    const pct = Number.parseFloat(percentMatch[1]);
-    if (Number.isFinite(pct) && baseQty > 0) {
-      const min = baseQty * (1 - pct / 100);
-      const max = baseQty * (1 + pct / 100);
-      return {
-        baseQty,
-        range: {
-          min,
-          max,
-          label: `${formatNumber(min)} - ${formatNumber(max)} MT`,
-        },
-      };
-    }
-  }
-  const rangeMatch = value.match(/([\d,.]+)\s*(?:-|to)\s*([\d,.]+)/i);
-  if (rangeMatch) {
-    const first = toNumber(rangeMatch[1], baseQty);
-    const second = toNumber(rangeMatch[2], baseQty);
-    const min = Math.min(first, second);
-    const max = Math.max(first, second);
-    return {
-      baseQty,
-      range: {
-        min,
-        max,
-        label: `${formatNumber(min)} - ${formatNumber(max)} MT`,
-      },
-    };
-  }
-  return { baseQty, range: null };
-};
-
-const parsePercent = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d.]+/);
-  if (!match) return fallback;
-  const parsed = Number.parseFloat(match[0]);
-  return Number.isFinite(parsed) ? parsed / 100 : fallback;
-};
-
-const parseTurnTimeDays = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d.]+)\s*hr/i);
-  if (!match) return fallback;
-  const hours = Number.parseFloat(match[1]);
-  if (!Number.isFinite(hours)) return fallback;
-  return hours / 24;
-};
-
-const parseRateFromTerms = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d,.]+)\s*MT/i);
-  if (!match) return fallback;
-  return toNumber(match[1], fallback);
-};
-
-const parsePortCosts = (
-  value: string | undefined | null,
-  fallbackLoad: number,
-  fallbackDischarge: number,
-) => {
-  if (!value) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-  const amounts = Array.from(value.matchAll(/([\d.]+)\s*([KM])?/gi)).map((match) => {
-    const base = Number.parseFloat(match[1]);
-    if (!Number.isFinite(base)) return 0;
-    const multiplier = match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
-    return base * multiplier;
-  });
-
-  if (amounts.length === 0) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-
-  const lower = value.toLowerCase();
-  if (amounts.length >= 2 && lower.includes("load") && lower.includes("discharge")) {
-    return { load: amounts[0], discharge: amounts[1] };
-  }
-
-  if (lower.includes("total")) {
-    const total = amounts[0];
-    return { load: total / 2, discharge: total / 2 };
-  }
-
-  if (amounts.length === 1) {
-    return { load: amounts[0], discharge: fallbackDischarge };
-  }
-
-  return { load: amounts[0], discharge: amounts[1] ?? fallbackDischarge };
-};
-
-const isDistanceKnown = (
-  distanceMap: Record<string, Record<string, number>>,
-  from: string,
-  to: string,
-) => {
-  if (from === to) return true;
-  return Number.isFinite(distanceMap[from]?.[to]);
-};
-
-const speedStep = 0.01;
-const blendValues = Array.from({ length: 101 }, (_, i) => Number.parseFloat((i * speedStep).toFixed(2)));
-
-const computeBestPair = (params: {
-  vessel: VesselOption;
-  cargo: CargoOption;
-  distanceMap: Record<string, Record<string, number>>;
-  todayIso: string;
-}) => {
-  const { vessel, cargo, distanceMap, todayIso } = params;
-
-  if (!Number.isFinite(cargo.data.freightRate) || cargo.data.freightRate <= 0) {
-    return null;
-  }
-
-  const ballastNm = getDistance(distanceMap, vessel.currentPort, cargo.loadPort);
-  const ladenNm = getDistance(distanceMap, cargo.loadPort, cargo.dischargePort);
-  const ballastDistanceKnown = isDistanceKnown(distanceMap, vessel.currentPort, cargo.loadPort);
-  const ladenDistanceKnown = isDistanceKnown(distanceMap, cargo.loadPort, cargo.dischargePort);
-  const laycanWindow = cargo.laycanWindow ?? null;
-  const departureDate = parseDateInput(vessel.etdDate) ?? parseDateInput(todayIso);
-  if (!laycanWindow || !departureDate) {
-    return null;
-  }
-
-  const laycanEvaluation = evaluateLaycan({
-    departureDate,
-    ballastNm,
-    ballastSpeed: vessel.data.speed.ballast,
-    laycan: laycanWindow,
-  });
-  if (laycanEvaluation.status === "infeasible") {
-    return null;
-  }
-
-  const baseQty = cargo.data.cargoQty;
-  const qtyRange = cargo.quantityRange;
-  const qtyMin = qtyRange ? Math.min(qtyRange.min, qtyRange.max) : baseQty;
-  const qtyMax = qtyRange ? Math.max(qtyRange.min, qtyRange.max) : baseQty;
-  const qtyStep = Math.max(baseQty * 0.01, 1);
-  const qtyValues: number[] = [];
-  if (qtyRange) {
-    for (let qty = qtyMin; qty <= qtyMax + 1e-6; qty += qtyStep) {
-      qtyValues.push(qty);
-    }
-  } else {
-    qtyValues.push(baseQty);
-  }
-
-  let best: PairResult | null = null;
-  for (const cargoQty of qtyValues) {
-    const rangeCheck = getQuantityRangeFeasibility(cargoQty, cargo.quantityRange);
-    if (rangeCheck.status === "infeasible") {
-      continue;
-    }
-    const weightCheck = getWeightFeasibility(cargoQty, vessel.data.dwt);
-    if (weightCheck.status === "infeasible") {
-      continue;
-    }
-
-    for (const ballastBlend of blendValues) {
-      for (const ladenBlend of blendValues) {
-        const inputs: FreightInputs = {
-          vessel: vessel.data,
-          cargo: { ...cargo.data, cargoQty },
-          distances: { ballastNm, ladenNm },
-          costs: {
-            ...exampleInputs.costs,
-            portDisbLoad: cargo.portCosts.load,
-            portDisbDis: cargo.portCosts.discharge,
-          },
-          options: {
-            bunkerDays: exampleInputs.options.bunkerDays,
-            speedBlend: { ballast: ballastBlend, laden: ladenBlend },
-          },
-        };
-
-        const result = calculateFreight(inputs);
-        let waitingCost = 0;
-        if (laycanEvaluation.status === "early" && laycanEvaluation.waitingDays > 0) {
-          const waitingHireCost = laycanEvaluation.waitingDays * vessel.data.dailyHire;
-          const waitingFuelCost =
-            laycanEvaluation.waitingDays *
-            (vessel.data.portConsumption.idle.ifo * inputs.costs.ifoPrice +
-              vessel.data.portConsumption.idle.mdo * inputs.costs.mdoPrice);
-          waitingCost = waitingHireCost + waitingFuelCost;
-        }
-        const adjustedProfit = result.profit - waitingCost;
-
-        if (!best || adjustedProfit > best.adjustedProfit) {
-          best = {
-            ...result,
-            adjustedProfit,
-            waitingCost,
-            laycanEvaluation,
-            vessel,
-            cargo,
-            ballastNm,
-            ladenNm,
-            cargoQty,
-            ballastDistanceKnown,
-            ladenDistanceKnown,
-            speedBlend: { ballast: ballastBlend, laden: ladenBlend },
-            departureDateLabel: formatDateLabel(departureDate),
-          };
-        }
-      }
-    }
-  }
-
-  return best;
-};
-
-const hungarian = (cost: number[][]) => {
-  const n = cost.length;
-  const m = cost[0]?.length ?? 0;
-  const u = Array(n + 1).fill(0);
-  const v = Array(m + 1).fill(0);
-  const p = Array(m + 1).fill(0);
-  const way = Array(m + 1).fill(0);
-
-  for (let i = 1; i <= n; i += 1) {
-    p[0] = i;
-    let j0 = 0;
-    const minv = Array(m + 1).fill(Number.POSITIVE_INFINITY);
-    const used = Array(m + 1).fill(false);
-    do {
-      used[j0] = true;
-      const i0 = p[j0];
-      let delta = Number.POSITIVE_INFINITY;
-      let j1 = 0;
-      for (let j = 1; j <= m; j += 1) {
-        if (used[j]) continue;
-        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
-        if (cur < minv[j]) {
-          minv[j] = cur;
-          way[j] = j0;
-        }
-        if (minv[j] < delta) {
-          delta = minv[j];
-          j1 = j;
-        }
-      }
-      for (let j = 0; j <= m; j += 1) {
-        if (used[j]) {
-          u[p[j]] += delta;
-          v[j] -= delta;
-        } else {
-          minv[j] -= delta;
-        }
-      }
-      j0 = j1;
-    } while (p[j0] !== 0);
-
-    do {
-      const j1 = way[j0];
-      p[j0] = p[j1];
-      j0 = j1;
-    } while (j0 !== 0);
-  }
-
-  const assignment = Array(n).fill(-1);
-  for (let j = 1; j <= m; j += 1) {
-    if (p[j] > 0) {
-      assignment[p[j] - 1] = j - 1;
-    }
-  }
-  return assignment;
+const describeDistanceSource = (source: DistanceSource, via: string[]) =>
+  source === "default"
+    ? `fallback (default ${defaultDistanceNm} nm)`
+    : source === "estimate"
+      ? "great-circle estimate"
+      : source === "graph"
+        ? `port_distances.csv routed via ${via.join(", ")}`
+        : "port_distances.csv";
+
+const describeSeaRoute = (pair: PairResult) =>
+  `ballast ${pair.ballastRouteVariant.name} | laden ${pair.ladenRouteVariant.name}` +
+  (pair.canalDues > 0
+    ? ` | Canal dues ${formatMoney(pair.canalDues)}, transit ${formatNumber(pair.canalDays)} d`
+    : "");
+
+const describeLaycanExclusions = (cargos: CargoOption[]) =>
+  cargos
+    .filter((cargo) => !cargo.laycanWindow)
+    .map((cargo) => `  - ${cargo.name}: ${cargo.laycanParse.reason ?? "Unreadable laycan."}`);
+
+// Every vessel x cargo pair priced as the recommendation prices it, at the default inputs.
+const priceAllPairs = (businessData: BusinessData) => {
+  const { computeBestPair } = createPairEvaluator(businessData, getDefaultPairPricing());
+  const report = createPairReport();
+  const pairResults = businessData.vessels.map((vessel) =>
+    businessData.cargos.map((cargo) => computeBestPair(vessel, cargo, report)),
+  );
+  return { pairResults, report };
 };
 
 const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
-  const todayIso = new Date().toISOString().slice(0, 10);
-  const dataRoot = path.join(process.cwd(), "public", "business_data");
-  const [capesizeText, marketVesselsText, committedText, marketCargosText, distancesText] =
-    await Promise.all([
-      fs.readFile(path.join(dataRoot, "vessels", "capesize_vessels.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "vessels", "market_vessels.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "cargos", "committed_cargos.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "cargos", "market_cargos.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "port_data", "port_distances.csv"), "utf8"),
-    ]);
-
-  const parsedDistances = parseDistanceCsv(distancesText);
-  const ports = parsedDistances.ports;
-
-  const capesizeRows = parseCsv(capesizeText);
-  const marketRows = parseCsv(marketVesselsText);
-  const vesselsParsed: VesselOption[] = [...capesizeRows, ...marketRows].map((row, index) => {
-    const source = index < capesizeRows.length ? "capesize" : "market";
-    const name = row.vessel_name || `Vessel ${index + 1}`;
-    const dwt = toNumber(row.dwt_mt, exampleInputs.vessel.dwt);
-    const ecoLaden = toNumber(row.economical_speed_laden_kn, exampleInputs.vessel.speed.laden);
-    const ecoBallast = toNumber(row.economical_speed_ballast_kn, exampleInputs.vessel.speed.ballast);
-    const ecoLadenVlsfo = toNumber(
-      row.economical_speed_laden_vlsfo_mt,
-      exampleInputs.vessel.consumption.laden.ifo,
-    );
-    const ecoBallastVlsfo = toNumber(
-      row.economical_speed_ballast_vlsfo_mt,
-      exampleInputs.vessel.consumption.ballast.ifo,
-    );
-    const ecoLadenMgo = toNumber(
-      row.economical_speed_laden_mgo_mt,
-      exampleInputs.vessel.consumption.laden.mdo,
-    );
-    const ecoBallastMgo = toNumber(
-      row.economical_speed_ballast_mgo_mt,
-      exampleInputs.vessel.consumption.ballast.mdo,
-    );
-    const warrantedLaden = toNumber(
-      row.warranted_speed_laden_kn,
-      exampleInputs.vessel.speedWarranted.laden,
-    );
-    const warrantedBallast = toNumber(
-      row.warranted_speed_ballast_kn,
-      exampleInputs.vessel.speedWarranted.ballast,
-    );
-    const warrantedLadenVlsfo = toNumber(
-      row.warranted_speed_laden_vlsf_mt,
-      exampleInputs.vessel.consumptionWarranted.laden.ifo,
-    );
-    const warrantedBallastVlsfo = toNumber(
-      row.warranted_speed_ballast_vlsf_mt,
-      exampleInputs.vessel.consumptionWarranted.ballast.ifo,
-    );
-    const warrantedLadenMgo = toNumber(
-      row.warranted_speed_laden_mgo_mt,
-      exampleInputs.vessel.consumptionWarranted.laden.mdo,
-    );
-    const warrantedBallastMgo = toNumber(
-      row.warranted_speed_ballast_mgo_mt,
-      exampleInputs.vessel.consumptionWarranted.ballast.mdo,
-    );
-
-    const portIdle = toNumber(
-      row.port_consumption_idle_vlsfo_mt_day,
-      exampleInputs.vessel.portConsumption.idle.ifo,
-    );
-    const portWorking = toNumber(
-      row.port_consumption_working_vlsfo_mt_day,
-      exampleInputs.vessel.portConsumption.working.ifo,
-    );
-
-    const currentPortRaw = extractPortFromStatus(row.position_status ?? "");
-    const currentPort = resolvePortName(currentPortRaw, ports);
-    const etdDate = (row.etd_date ?? "").trim();
-
-    return {
-      id: `${source}-${index}`,
-      name,
-      source,
-      currentPort: currentPort || currentPortRaw || "UNKNOWN",
-      etdDate,
-      data: {
-        dwt,
-        grainCapacity: dwt,
-        speed: { ballast: ecoBallast, laden: ecoLaden },
-        speedWarranted: { ballast: warrantedBallast, laden: warrantedLaden },
-        consumption: {
-          ballast: { ifo: ecoBallastVlsfo, mdo: ecoBallastMgo },
-          laden: { ifo: ecoLadenVlsfo, mdo: ecoLadenMgo },
-        },
-        consumptionWarranted: {
-          ballast: { ifo: warrantedBallastVlsfo, mdo: warrantedBallastMgo },
-          laden: { ifo: warrantedLadenVlsfo, mdo: warrantedLadenMgo },
-        },
-        portConsumption: {
-          working: { ifo: portWorking, mdo: exampleInputs.vessel.portConsumption.working.mdo },
-          idle: { ifo: portIdle, mdo: exampleInputs.vessel.portConsumption.idle.mdo },
-        },
-        dailyHire: toNumber(row.hire_rate_usd_day, exampleInputs.vessel.dailyHire),
-        adComsPct: exampleInputs.vessel.adComsPct,
-      },
-    };
-  });
-
-  const committedRows = parseCsv(committedText);
-  const marketCargoRows = parseCsv(marketCargosText);
-  const baseCosts = exampleInputs.costs;
-  const cargosParsed: CargoOption[] = [...committedRows, ...marketCargoRows].map((row, index) => {
-    const source = index < committedRows.length ? "committed" : "market";
-    const name = row.route || row.customer || `Cargo ${index + 1}`;
-    const { baseQty, range: quantityRange } = parseQuantityRange(
-      row.quantity,
-      exampleInputs.cargo.cargoQty,
-    );
-    const freightRate = toNumber(row.freight_rate ?? "", exampleInputs.cargo.freightRate);
-    const loadRate = parseRateFromTerms(row.loading_terms ?? "", exampleInputs.cargo.loadRate);
-    const dischargeRate = parseRateFromTerms(row.discharge_terms ?? "", exampleInputs.cargo.dischargeRate);
-    const loadportTT = parseTurnTimeDays(row.loading_terms ?? "", exampleInputs.cargo.loadportTT);
-    const disportTT = parseTurnTimeDays(row.discharge_terms ?? "", exampleInputs.cargo.disportTT);
-    const commissionPct = parsePercent(row.commission ?? "", 0);
-    const commissionIsBroker = (row.commission ?? "").toLowerCase().includes("broker");
-    const loadPortRaw = row.load_port ?? "";
-    const dischargePortRaw = row.discharge_port ?? "";
-    const loadPort = resolvePortName(loadPortRaw, ports);
-    const dischargePort = resolvePortName(dischargePortRaw, ports);
-    const portCosts = parsePortCosts(row.port_cost ?? "", baseCosts.portDisbLoad, baseCosts.portDisbDis);
-    const laycanLabel = row.laycan ?? "";
-    const laycanWindow = parseLaycanRange(laycanLabel);
-
-    return {
-      id: `${source}-${index}`,
-      name,
-      source,
-      quantityRange,
-      loadPort: loadPort || loadPortRaw || "UNKNOWN",
-      dischargePort: dischargePort || dischargePortRaw || "UNKNOWN",
-      portCosts,
-      laycanLabel,
-      laycanWindow,
-      data: {
-        ...exampleInputs.cargo,
-        cargoQty: baseQty,
-        freightRate,
-        loadRate,
-        dischargeRate,
-        loadportTT,
-        disportTT,
-        portIdleDays: exampleInputs.cargo.portIdleDays,
-        addressComsPct: commissionIsBroker ? 0 : commissionPct,
-        brokerComsPct: commissionIsBroker ? commissionPct : 0,
-      },
-    };
-  });
+  const businessData = await readBusinessData();
+  const { vessels: vesselsParsed, cargos: cargosParsed, validation } = businessData;
 
   if (!vesselsParsed.length || !cargosParsed.length) {
     return {
@@ -649,12 +146,7 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
     };
   }
 
-  const pairResults: Array<Array<PairResult | null>> = vesselsParsed.map((vessel) =>
-    cargosParsed.map((cargo) =>
-      computeBestPair({ vessel, cargo, distanceMap: parsedDistances.distanceMap, todayIso }),
-    ),
-  );
-  const speedSteps = blendValues.length;
+  const { pairResults } = priceAllPairs(businessData);
   const totalQtySteps = cargosParsed.reduce((sum, cargo) => {
     const baseQty = cargo.data.cargoQty;
     const qtyRange = cargo.quantityRange;
@@ -664,40 +156,29 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
     const steps = Math.max(1, Math.floor((qtyMax - qtyMin) / qtyStep) + 1);
     return sum + steps;
   }, 0);
-  const combosBeforeFilters =
-    vesselsParsed.length * totalQtySteps * speedSteps * speedSteps;
-
-  let maxProfit = 0;
-  for (const row of pairResults) {
-    for (const pair of row) {
-      if (pair && Number.isFinite(pair.adjustedProfit)) {
-        if (pair.adjustedProfit > maxProfit) maxProfit = pair.adjustedProfit;
-      }
-    }
+  const combosBeforeFilters = vesselsParsed.length * totalQtySteps;
+
+  // The recommendation's solver and limits at its default inputs.
+  const limits: PortfolioLimits = {
+    committedCount: businessData.committedCount,
+    vesselPick: Math.min(defaultPortfolioVesselCount, vesselsParsed.length),
+    maxMarketCharters: null,
+    customerExposureCaps: {},
+  };
+  const problem = buildPortfolioProblem(vesselsParsed, cargosParsed, pairResults, limits);
+  const solution = solvePortfolio(problem);
+  if (solution.status === "infeasible" || solution.status === "unknown") {
+    return {
+      reply:
+        `No feasible portfolio: solver ${solution.status} after ${formatNumber(solution.nodes)} nodes; ` +
+        `constraints: ${problem.constraints.map((constraint) => constraint.name).join("; ")}.`,
+      context: "BEST_PORTFOLIO: none",
+    };
   }
-
   const n = vesselsParsed.length;
-  const m = Math.max(n, cargosParsed.length);
-  const big = maxProfit + 1_000_000_000;
-  const cost: number[][] = Array.from({ length: n }, (_, i) => {
-    const row = Array.from({ length: m }, () => maxProfit);
-    for (let j = 0; j < m; j += 1) {
-      if (j >= cargosParsed.length) {
-        row[j] = maxProfit; // dummy cargo => profit 0
-      } else {
-        const pair = pairResults[i][j];
-        if (!pair) {
-          row[j] = big;
-        } else {
-          row[j] = maxProfit - pair.adjustedProfit;
-        }
-      }
-    }
-    return row;
-  });
-
-  const assignment = hungarian(cost);
-  const chosen: Array<{ vessel: VesselOption; cargo?: CargoOption; pair?: PairResult }> = [];
+  const assignment = Array<number>(n).fill(-1);
+  for (const { vesselIdx, cargoIdx } of solution.pairs) assignment[vesselIdx] = cargoIdx;
+  const chosen: Array<{ vessel: VesselOption; cargo?: CargoOption; pair?: PortPairResult }> = [];
   let totalProfit = 0;
   const usedCargoIds = new Set<string>();
   for (let i = 0; i < n; i += 1) {
@@ -707,17 +188,18 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
       continue;
     }
     const pair = pairResults[i][j];
-    if (!pair || !Number.isFinite(pair.adjustedProfit) || pair.adjustedProfit <= 0) {
+    if (!pair) {
       chosen.push({ vessel: vesselsParsed[i] });
       continue;
     }
     totalProfit += pair.adjustedProfit;
     usedCargoIds.add(cargosParsed[j].id);
-    chosen.push({ vessel: vesselsParsed[i], cargo: cargosParsed[j], pair });
+    // The pair's cargo carries the port option it was priced at.
+    chosen.push({ vessel: vesselsParsed[i], cargo: pair.cargo, pair });
   }
 
   const lines = [
-    "Best portfolio (max total profit, one cargo per vessel, cargo used at most once):",
+    `Best portfolio (max total profit, committed cargos covered, at most ${limits.vesselPick} vessels):`,
     `- Total profit: ${formatMoney(totalProfit)}`,
     "",
     "Assignments (all vessels):",
@@ -730,23 +212,30 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
       continue;
     }
     usedCount += 1;
-    const ballastSourceLabel = item.pair.ballastDistanceKnown
-      ? "port_distances.csv"
-      : "fallback (default 3000 nm)";
-    const ladenSourceLabel = item.pair.ladenDistanceKnown
-      ? "port_distances.csv"
-      : "fallback (default 3000 nm)";
+    const ballastSourceLabel = describeDistanceSource(
+      item.pair.distanceSource.ballast,
+      item.pair.ballastVia,
+    );
+    const ladenSourceLabel = describeDistanceSource(
+      item.pair.distanceSource.laden,
+      item.pair.ladenVia,
+    );
     lines.push(
       `- Vessel: ${item.vessel.name} | Cargo: ${item.cargo.name} | Profit ${formatMoney(item.pair.adjustedProfit)}, ` +
-        `Rate ${formatMoney(item.cargo.data.freightRate)}/MT, Qty ${formatNumber(item.pair.cargoQty)} MT, ` +
+        `Rate ${formatMoney(item.cargo.data.freightRate)}/MT, Qty ${formatNumber(item.pair.cargoQty)} MT ` +
+        `(max intake ${formatNumber(item.pair.intake.maxCargoQty)} MT, ${item.pair.intake.binding.replace("_", " ")}, ${item.pair.cargoFeasibility.limitedBy}-limited` +
+        `${item.pair.cargoFeasibility.capacityEstimated ? ", grain capacity estimated" : ""}), ` +
         `Route ${item.vessel.currentPort} -> ${item.cargo.loadPort} -> ${item.cargo.dischargePort}, ` +
         `Ballast ${formatNumber(item.pair.ballastNm)} nm (${ballastSourceLabel}), ` +
         `Laden ${formatNumber(item.pair.ladenNm)} nm (${ladenSourceLabel}), ` +
         `Laycan ${item.cargo.laycanLabel || "--"} (${item.pair.laycanEvaluation?.status ?? "unknown"})`,
     );
+    lines.push(`  Sea route: ${describeSeaRoute(item.pair)}`);
     lines.push(
-      `  Voyage timing: ETD ${item.pair.departureDateLabel}, ETA ${formatDateLabel(item.pair.laycanEvaluation?.eta)}, ` +
-        `Duration ${formatNumber(item.pair.totalDuration)} days, TCE ${formatMoney(item.pair.tce)}/day`,
+      `  Voyage timing: ETD ${formatZonedDateTime(item.pair.departureDate, item.vessel.etdTimeZone)}, ETA ${formatZonedDateTime(item.pair.laycanEvaluation?.eta, item.cargo.laycanWindow?.timeZone)}, ` +
+        `${formatNumber(item.pair.laycanEvaluation?.hoursToCancelling ?? 0)} h before cancelling, ` +
+        `Duration ${formatNumber(item.pair.totalDuration)} days, TCE ${formatMoney(item.pair.tce)}/day, ` +
+        `min ballast speed for laycan ${formatNumber(item.pair.requiredBallastSpeed)} kn`,
     );
     lines.push(
       `  Vessel details: DWT ${formatNumber(item.vessel.data.dwt)} MT, ETD ${item.vessel.etdDate || "--"}, ` +
@@ -761,7 +250,8 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
         `${formatNumber(item.vessel.data.consumptionWarranted.ballast.mdo)}/${formatNumber(item.vessel.data.consumptionWarranted.laden.mdo)}`,
     );
     lines.push(
-      `  Blend ratio (0=warranted, 1=economical): ballast ${item.pair.speedBlend.ballast}, laden ${item.pair.speedBlend.laden}`,
+      `  Speed: ballast ${formatNumber(item.pair.speedKnots.ballast)} kn, laden ${formatNumber(item.pair.speedKnots.laden)} kn`,
+      `  Blend ratio (0=warranted, 1=economical): ballast ${formatNumber(item.pair.speedBlend.ballast)}, laden ${formatNumber(item.pair.speedBlend.laden)}`,
     );
     lines.push(
       `  Cargo details: Stow ${formatNumber(item.cargo.data.stowFactor)}, ` +
@@ -787,10 +277,12 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
   lines.push("Filters applied:");
   lines.push("- Exclude freight <= 0");
   lines.push("- Exclude missing laycan (unknown) and laycan miss");
+  lines.push(...describeLaycanExclusions(cargosParsed));
   lines.push("- Exclude quantity/DWT infeasible combos");
-  lines.push("- Search strategy: cargo quantity steps at 1%, speedBlend ballast/laden steps at 1%");
+  lines.push("- Sea route: most profitable canal or open-water variant per leg, canal dues and transit days costed");
+  lines.push("- Search strategy: cargo quantity steps at 1%, ballast/laden speed by golden-section search (0.01 kn)");
   lines.push(
-    `- Combination count: vessels(${vesselsParsed.length}) x cargo-qty steps(${totalQtySteps}) x speed(${speedSteps}^2) = ${formatNumber(combosBeforeFilters)}`,
+    `- Combination count: vessels(${vesselsParsed.length}) x cargo-qty steps(${totalQtySteps}) = ${formatNumber(combosBeforeFilters)} speed searches`,
   );
 
   const usedAssignments = chosen.filter((item) => item.cargo && item.pair);
@@ -805,8 +297,8 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
     "## Assumptions",
     `- Default bunker prices: IFO ${formatMoney(exampleInputs.costs.ifoPrice)}/MT, MDO ${formatMoney(exampleInputs.costs.mdoPrice)}/MT`,
     `- Distance fallback: ${formatNumber(defaultDistanceNm)} nm when no port_distance match`,
-    "- Speed blend: searched 0.00-1.00 in 1% steps (0=warranted, 1=economical)",
-    "- Laycan: feasible or early only; miss is excluded; early adds waiting cost",
+    "- Speed: optimised per leg between warranted and economical speed to 0.01 kn",
+    "- Laycan: ETA follows the searched ballast speed; the vessel may speed up to make the cancelling date; early arrival adds waiting cost",
     "",
     "## Filters applied",
     "- Freight rate > 0",
@@ -822,8 +314,16 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
   let rowIndex = 1;
   for (const item of chosen) {
     if (!item.cargo || !item.pair) continue;
-    const ballastSource = item.pair.ballastDistanceKnown ? "port_distance" : "fallback";
-    const ladenSource = item.pair.ladenDistanceKnown ? "port_distance" : "fallback";
+    const legSource = (source: DistanceSource) =>
+      source === "default"
+        ? "fallback"
+        : source === "estimate"
+          ? "estimate"
+          : source === "graph"
+            ? "port_distance routed"
+            : "port_distance";
+    const ballastSource = legSource(item.pair.distanceSource.ballast);
+    const ladenSource = legSource(item.pair.distanceSource.laden);
     const waitingDays = item.pair.laycanEvaluation?.waitingDays ?? 0;
     const feasibility = item.pair.laycanEvaluation?.status ?? "unknown";
     const route = `${item.vessel.currentPort} -> ${item.cargo.loadPort} -> ${item.cargo.dischargePort}`;
@@ -831,7 +331,7 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
       `| ${rowIndex} | ${item.vessel.name} | ${item.cargo.name} | ${route} | ` +
         `${formatNumber(item.pair.cargoQty)} | ${formatMoney(item.cargo.data.freightRate)} | ` +
         `${formatMoney(item.pair.profit)} | ${formatMoney(item.pair.tce)} | ` +
-        `${item.cargo.laycanLabel || "--"} | ${formatDateLabel(item.pair.laycanEvaluation?.eta)} | ${feasibility} | ` +
+        `${item.cargo.laycanLabel || "--"} | ${formatZonedDateTime(item.pair.laycanEvaluation?.eta, item.cargo.laycanWindow?.timeZone)} | ${feasibility} | ` +
         `${formatNumber(item.pair.ballastNm)} (${ballastSource}) | ${formatNumber(item.pair.ladenNm)} (${ladenSource}) | ` +
         `${formatNumber(waitingDays)} | ${formatMoney(item.pair.waitingCost)} | ${formatMoney(item.pair.adjustedProfit)} |`,
     );
@@ -852,188 +352,31 @@ const computeBestPortfolioSummary = async (): Promise<BestPortfolioSummary> => {
       `assigned=${usedCount}`,
       `vessels=${n}`,
       `cargos=${cargosParsed.length}`,
+      `dataErrors=${validation.summary.errors}`,
+      `dataWarnings=${validation.summary.warnings}`,
     ].join("\n"),
   };
 };
 
 const computeBestPlanSummary = async (): Promise<BestPlanSummary> => {
-  const todayIso = new Date().toISOString().slice(0, 10);
-  const dataRoot = path.join(process.cwd(), "public", "business_data");
-  const [capesizeText, marketVesselsText, committedText, marketCargosText, distancesText] =
-    await Promise.all([
-      fs.readFile(path.join(dataRoot, "vessels", "capesize_vessels.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "vessels", "market_vessels.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "cargos", "committed_cargos.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "cargos", "market_cargos.csv"), "utf8"),
-      fs.readFile(path.join(dataRoot, "port_data", "port_distances.csv"), "utf8"),
-    ]);
-
-  const parsedDistances = parseDistanceCsv(distancesText);
-  const ports = parsedDistances.ports;
+  const businessData = await readBusinessData();
+  const { vessels: vesselsParsed, cargos: cargosParsed, distanceEstimator } = businessData;
 
-  const capesizeRows = parseCsv(capesizeText);
-  const marketRows = parseCsv(marketVesselsText);
-  const vesselsParsed: VesselOption[] = [...capesizeRows, ...marketRows].map((row, index) => {
-    const source = index < capesizeRows.length ? "capesize" : "market";
-    const name = row.vessel_name || `Vessel ${index + 1}`;
-    const dwt = toNumber(row.dwt_mt, exampleInputs.vessel.dwt);
-    const ecoLaden = toNumber(row.economical_speed_laden_kn, exampleInputs.vessel.speed.laden);
-    const ecoBallast = toNumber(row.economical_speed_ballast_kn, exampleInputs.vessel.speed.ballast);
-    const ecoLadenVlsfo = toNumber(
-      row.economical_speed_laden_vlsfo_mt,
-      exampleInputs.vessel.consumption.laden.ifo,
-    );
-    const ecoBallastVlsfo = toNumber(
-      row.economical_speed_ballast_vlsfo_mt,
-      exampleInputs.vessel.consumption.ballast.ifo,
-    );
-    const ecoLadenMgo = toNumber(
-      row.economical_speed_laden_mgo_mt,
-      exampleInputs.vessel.consumption.laden.mdo,
-    );
-    const ecoBallastMgo = toNumber(
-      row.economical_speed_ballast_mgo_mt,
-      exampleInputs.vessel.consumption.ballast.mdo,
-    );
-    const warrantedLaden = toNumber(
-      row.warranted_speed_laden_kn,
-      exampleInputs.vessel.speedWarranted.laden,
-    );
-    const warrantedBallast = toNumber(
-      row.warranted_speed_ballast_kn,
-      exampleInputs.vessel.speedWarranted.ballast,
-    );
-    const warrantedLadenVlsfo = toNumber(
-      row.warranted_speed_laden_vlsf_mt,
-      exampleInputs.vessel.consumptionWarranted.laden.ifo,
-    );
-    const warrantedBallastVlsfo = toNumber(
-      row.warranted_speed_ballast_vlsf_mt,
-      exampleInputs.vessel.consumptionWarranted.ballast.ifo,
-    );
-    const warrantedLadenMgo = toNumber(
-      row.warranted_speed_laden_mgo_mt,
-      exampleInputs.vessel.consumptionWarranted.laden.mdo,
-    );
-    const warrantedBallastMgo = toNumber(
-      row.warranted_speed_ballast_mgo_mt,
-      exampleInputs.vessel.consumptionWarranted.ballast.mdo,
-    );
-
-    const portIdle = toNumber(
-      row.port_consumption_idle_vlsfo_mt_day,
-      exampleInputs.vessel.portConsumption.idle.ifo,
-    );
-    const portWorking = toNumber(
-      row.port_consumption_working_vlsfo_mt_day,
-      exampleInputs.vessel.portConsumption.working.ifo,
-    );
-
-    const currentPortRaw = extractPortFromStatus(row.position_status ?? "");
-    const currentPort = resolvePortName(currentPortRaw, ports);
-    const etdDate = (row.etd_date ?? "").trim();
-
-    return {
-      id: `${source}-${index}`,
-      name,
-      source,
-      currentPort: currentPort || currentPortRaw || "UNKNOWN",
-      etdDate,
-      data: {
-        dwt,
-        grainCapacity: dwt,
-        speed: { ballast: ecoBallast, laden: ecoLaden },
-        speedWarranted: { ballast: warrantedBallast, laden: warrantedLaden },
-        consumption: {
-          ballast: { ifo: ecoBallastVlsfo, mdo: ecoBallastMgo },
-          laden: { ifo: ecoLadenVlsfo, mdo: ecoLadenMgo },
-        },
-        consumptionWarranted: {
-          ballast: { ifo: warrantedBallastVlsfo, mdo: warrantedBallastMgo },
-          laden: { ifo: warrantedLadenVlsfo, mdo: warrantedLadenMgo },
-        },
-        portConsumption: {
-          working: { ifo: portWorking, mdo: exampleInputs.vessel.portConsumption.working.mdo },
-          idle: { ifo: portIdle, mdo: exampleInputs.vessel.portConsumption.idle.mdo },
-        },
-        dailyHire: toNumber(row.hire_rate_usd_day, exampleInputs.vessel.dailyHire),
-        adComsPct: exampleInputs.vessel.adComsPct,
-      },
-    };
-  });
-
-  const committedRows = parseCsv(committedText);
-  const marketCargoRows = parseCsv(marketCargosText);
-  const baseCosts = exampleInputs.costs;
-  const cargosParsed: CargoOption[] = [...committedRows, ...marketCargoRows].map((row, index) => {
-    const source = index < committedRows.length ? "committed" : "market";
-    const name = row.route || row.customer || `Cargo ${index + 1}`;
-    const { baseQty, range: quantityRange } = parseQuantityRange(
-      row.quantity,
-      exampleInputs.cargo.cargoQty,
-    );
-    const freightRate = toNumber(row.freight_rate ?? "", exampleInputs.cargo.freightRate);
-    const loadRate = parseRateFromTerms(row.loading_terms ?? "", exampleInputs.cargo.loadRate);
-    const dischargeRate = parseRateFromTerms(row.discharge_terms ?? "", exampleInputs.cargo.dischargeRate);
-    const loadportTT = parseTurnTimeDays(row.loading_terms ?? "", exampleInputs.cargo.loadportTT);
-    const disportTT = parseTurnTimeDays(row.discharge_terms ?? "", exampleInputs.cargo.disportTT);
-    const commissionPct = parsePercent(row.commission ?? "", 0);
-    const commissionIsBroker = (row.commission ?? "").toLowerCase().includes("broker");
-    const loadPortRaw = row.load_port ?? "";
-    const dischargePortRaw = row.discharge_port ?? "";
-    const loadPort = resolvePortName(loadPortRaw, ports);
-    const dischargePort = resolvePortName(dischargePortRaw, ports);
-    const portCosts = parsePortCosts(row.port_cost ?? "", baseCosts.portDisbLoad, baseCosts.portDisbDis);
-    const laycanLabel = row.laycan ?? "";
-    const laycanWindow = parseLaycanRange(laycanLabel);
-
-    return {
-      id: `${source}-${index}`,
-      name,
-      source,
-      quantityRange,
-      loadPort: loadPort || loadPortRaw || "UNKNOWN",
-      dischargePort: dischargePort || dischargePortRaw || "UNKNOWN",
-      portCosts,
-      laycanLabel,
-      laycanWindow,
-      data: {
-        ...exampleInputs.cargo,
-        cargoQty: baseQty,
-        freightRate,
-        loadRate,
-        dischargeRate,
-        loadportTT,
-        disportTT,
-        portIdleDays: exampleInputs.cargo.portIdleDays,
-        addressComsPct: commissionIsBroker ? 0 : commissionPct,
-        brokerComsPct: commissionIsBroker ? commissionPct : 0,
-      },
-    };
-  });
-
-  let best:
-    | (ReturnType<typeof calculateFreight> & {
-        adjustedProfit: number;
-        waitingCost: number;
-        laycanEvaluation?: LaycanEvaluation;
-        vessel: VesselOption;
-        cargo: CargoOption;
-        ballastNm: number;
-        ladenNm: number;
-        cargoQty: number;
-        ballastDistanceKnown: boolean;
-        ladenDistanceKnown: boolean;
-      })
-    | null = null;
+  const { pairResults, report } = priceAllPairs(businessData);
+  let best: PortPairResult | null = null;
+  for (const pair of pairResults.flat()) {
+    if (pair && (!best || pair.adjustedProfit > best.adjustedProfit)) best = pair;
+  }
 
-  let skippedWeight = 0;
-  let skippedQuantity = 0;
-  let skippedLaycan = 0;
-  let skippedLaycanUnknown = 0;
-  let skippedZeroFreight = 0;
-  let evaluated = 0;
-  const speedSteps = blendValues.length;
+  // Pairs dropped, by the first filter they failed.
+  const rejected = (...reasons: PairRejectionReason[]) =>
+    report.pairRejections.filter((item) => reasons.includes(item.reason)).length;
+  const skippedWeight = rejected("capacity");
+  const skippedQuantity = rejected("quantity_range");
+  const skippedLaycan = rejected("laycan", "laycan_risk");
+  const skippedLaycanUnknown = rejected("laycan_window");
+  const skippedZeroFreight = rejected("freight_rate");
+  const evaluated = report.freightCalcs;
   const totalQtySteps = cargosParsed.reduce((sum, cargo) => {
     const baseQty = cargo.data.cargoQty;
     const qtyRange = cargo.quantityRange;
@@ -1043,127 +386,12 @@ const computeBestPlanSummary = async (): Promise<BestPlanSummary> => {
     const steps = Math.max(1, Math.floor((qtyMax - qtyMin) / qtyStep) + 1);
     return sum + steps;
   }, 0);
-  const combosBeforeFilters =
-    vesselsParsed.length * totalQtySteps * speedSteps * speedSteps;
-
-  for (const vessel of vesselsParsed) {
-    for (const cargo of cargosParsed) {
-      if (!Number.isFinite(cargo.data.freightRate) || cargo.data.freightRate <= 0) {
-        skippedZeroFreight += 1;
-        continue;
-      }
-      const ballastNm = getDistance(parsedDistances.distanceMap, vessel.currentPort, cargo.loadPort);
-      const ladenNm = getDistance(parsedDistances.distanceMap, cargo.loadPort, cargo.dischargePort);
-      const ballastDistanceKnown = isDistanceKnown(
-        parsedDistances.distanceMap,
-        vessel.currentPort,
-        cargo.loadPort,
-      );
-      const ladenDistanceKnown = isDistanceKnown(
-        parsedDistances.distanceMap,
-        cargo.loadPort,
-        cargo.dischargePort,
-      );
-      const laycanWindow = cargo.laycanWindow ?? null;
-      const departureDate = parseDateInput(vessel.etdDate) ?? parseDateInput(todayIso);
-      let laycanEvaluation: LaycanEvaluation | undefined;
-      if (!laycanWindow || !departureDate) {
-        skippedLaycanUnknown += 1;
-        continue;
-      }
-      laycanEvaluation = evaluateLaycan({
-        departureDate,
-        ballastNm,
-        ballastSpeed: vessel.data.speed.ballast,
-        laycan: laycanWindow,
-      });
-      if (laycanEvaluation.status === "infeasible") {
-        skippedLaycan += 1;
-        continue;
-      }
-
-      const baseQty = cargo.data.cargoQty;
-      const qtyRange = cargo.quantityRange;
-      const qtyMin = qtyRange ? Math.min(qtyRange.min, qtyRange.max) : baseQty;
-      const qtyMax = qtyRange ? Math.max(qtyRange.min, qtyRange.max) : baseQty;
-      const qtyStep = Math.max(baseQty * 0.01, 1);
-      const qtyValues: number[] = [];
-      if (qtyRange) {
-        for (let qty = qtyMin; qty <= qtyMax + 1e-6; qty += qtyStep) {
-          qtyValues.push(qty);
-        }
-      } else {
-        qtyValues.push(baseQty);
-      }
-
-      for (const cargoQty of qtyValues) {
-        const rangeCheck = getQuantityRangeFeasibility(cargoQty, cargo.quantityRange);
-        if (rangeCheck.status === "infeasible") {
-          skippedQuantity += 1;
-          continue;
-        }
-        const weightCheck = getWeightFeasibility(cargoQty, vessel.data.dwt);
-        if (weightCheck.status === "infeasible") {
-          skippedWeight += 1;
-          continue;
-        }
-
-        for (const ballastBlend of blendValues) {
-          for (const ladenBlend of blendValues) {
-            const inputs: FreightInputs = {
-              vessel: vessel.data,
-              cargo: { ...cargo.data, cargoQty },
-              distances: { ballastNm, ladenNm },
-              costs: {
-                ...exampleInputs.costs,
-                portDisbLoad: cargo.portCosts.load,
-                portDisbDis: cargo.portCosts.discharge,
-              },
-              options: {
-                bunkerDays: exampleInputs.options.bunkerDays,
-                speedBlend: { ballast: ballastBlend, laden: ladenBlend },
-              },
-            };
-
-            const result = calculateFreight(inputs);
-            evaluated += 1;
-
-            let waitingCost = 0;
-            if (laycanEvaluation?.status === "early" && laycanEvaluation.waitingDays > 0) {
-              const waitingHireCost = laycanEvaluation.waitingDays * vessel.data.dailyHire;
-              const waitingFuelCost =
-                laycanEvaluation.waitingDays *
-                (vessel.data.portConsumption.idle.ifo * inputs.costs.ifoPrice +
-                  vessel.data.portConsumption.idle.mdo * inputs.costs.mdoPrice);
-              waitingCost = waitingHireCost + waitingFuelCost;
-            }
-            const adjustedProfit = result.profit - waitingCost;
-
-            if (!best || adjustedProfit > best.adjustedProfit) {
-              best = {
-                ...result,
-                adjustedProfit,
-                waitingCost,
-                laycanEvaluation,
-                vessel,
-                cargo,
-                ballastNm,
-                ladenNm,
-                cargoQty,
-                ballastDistanceKnown,
-                ladenDistanceKnown,
-              };
-            }
-          }
-        }
-      }
-    }
-  }
+  const combosBeforeFilters = vesselsParsed.length * totalQtySteps;
 
   if (!best) {
     const reply = [
       "No feasible profitable plan found in current business_data.",
-      `Evaluated: ${evaluated}, skipped qty range: ${skippedQuantity}, skipped DWT: ${skippedWeight}, skipped laycan infeasible: ${skippedLaycan}.`,
+      `Evaluated: ${evaluated}, skipped qty range: ${skippedQuantity}, skipped weight/volume: ${skippedWeight}, skipped laycan infeasible: ${skippedLaycan}.`,
       "Please verify CSV data, laycan fields, and port info completeness.",
       `skippedZeroFreight=${skippedZeroFreight}, skippedLaycanUnknown=${skippedLaycanUnknown}`,
     ].join("\n");
@@ -1180,11 +408,15 @@ const computeBestPlanSummary = async (): Promise<BestPlanSummary> => {
   }
 
   const laycanStatus = best.laycanEvaluation?.status ?? "unknown";
-  const etaLabel = formatDateLabel(best.laycanEvaluation?.eta);
+  const etaLabel = formatZonedDateTime(
+    best.laycanEvaluation?.eta,
+    best.cargo.laycanWindow?.timeZone,
+  );
   const laycanLabel = best.cargo.laycanLabel || "--";
-  const distanceFallbackFlag = !best.ballastDistanceKnown || !best.ladenDistanceKnown;
-  const ballastSourceLabel = best.ballastDistanceKnown ? "port_distances.csv" : "fallback (default 3000 nm)";
-  const ladenSourceLabel = best.ladenDistanceKnown ? "port_distances.csv" : "fallback (default 3000 nm)";
+  const distanceFallbackFlag =
+    best.distanceSource.ballast === "default" || best.distanceSource.laden === "default";
+  const ballastSourceLabel = describeDistanceSource(best.distanceSource.ballast, best.ballastVia);
+  const ladenSourceLabel = describeDistanceSource(best.distanceSource.laden, best.ladenVia);
 
   const reply = [
     "Most profitable plan (using current business_data and /src/calculator):",
@@ -1193,18 +425,23 @@ const computeBestPlanSummary = async (): Promise<BestPlanSummary> => {
     `- Route: ${best.vessel.currentPort} -> ${best.cargo.loadPort} -> ${best.cargo.dischargePort}`,
     `- Adjusted profit: ${formatMoney(best.adjustedProfit)} (raw profit: ${formatMoney(best.profit)})`,
     `- TCE: ${formatMoney(best.tce)}/day`,
+    `- Speed: ballast ${formatNumber(best.speedKnots.ballast)} kn, laden ${formatNumber(best.speedKnots.laden)} kn`,
     `- Cargo qty: ${formatNumber(best.cargoQty)} MT, freight rate: ${formatMoney(best.cargo.data.freightRate)}/MT`,
     `- Distance: Ballast ${formatNumber(best.ballastNm)} nm (${ballastSourceLabel}) / Laden ${formatNumber(best.ladenNm)} nm (${ladenSourceLabel})`,
-    `- Laycan: ${laycanLabel} | ETA: ${etaLabel} | Status: ${laycanStatus}`,
+    `- Sea route: ${describeSeaRoute(best)}`,
+    `- Laycan: ${laycanLabel} | ETA: ${etaLabel} | Status: ${laycanStatus} | ` +
+      `Margin to cancelling: ${formatNumber(best.laycanEvaluation?.hoursToCancelling ?? 0)} h | ` +
+      `Min ballast speed: ${formatNumber(best.requiredBallastSpeed)} kn`,
     best.waitingCost > 0 ? `- Waiting cost: ${formatMoney(best.waitingCost)}` : "- Waiting cost: 0",
     "- Distance source: shown per leg above",
     "",
     "Filters applied:",
     "- Exclude freight <= 0",
     "- Exclude missing laycan (unknown) and laycan miss",
+    ...describeLaycanExclusions(cargosParsed),
     "- Exclude quantity/DWT infeasible combos",
-    "- Search strategy: cargo quantity steps at 1%, speedBlend ballast/laden steps at 1%",
-    `- Combination count: vessels(${vesselsParsed.length}) x cargo-qty steps(${totalQtySteps}) x speed(${speedSteps}^2) = ${formatNumber(combosBeforeFilters)}`,
+    "- Search strategy: cargo quantity steps at 1%, ballast/laden speed by golden-section search (0.01 kn)",
+    `- Combination count: vessels(${vesselsParsed.length}) x cargo-qty steps(${totalQtySteps}) = ${formatNumber(combosBeforeFilters)} speed searches`,
     `- Evaluated (after filters): ${formatNumber(evaluated)}`,
     "",
     "Core formulas:",
@@ -1214,8 +451,8 @@ const computeBestPlanSummary = async (): Promise<BestPlanSummary> => {
     "",
     "Key inputs/assumptions:",
     `- Default bunker prices: IFO ${formatMoney(exampleInputs.costs.ifoPrice)}/MT, MDO ${formatMoney(exampleInputs.costs.mdoPrice)}/MT`,
-    `- If port distance is missing, default ${formatNumber(defaultDistanceNm)} nm`,
-    "- speedBlend searched from 0.00 to 1.00 in 1% steps",
+    `- If port distance is missing and cannot be routed, great-circle x ${formatNumber(distanceEstimator.detourFactor)} when both ports have coordinates, else default ${formatNumber(defaultDistanceNm)} nm`,
+    "- Ballast/laden speed optimised between warranted and economical speed to 0.01 kn",
   ].join("\n");
 
   const context = [
@@ -1508,7 +745,7 @@ export async function POST(req: Request) {
       if (!hasDiff) {
         return NextResponse.json({
           reply:
-            "Top-2 comparison data is missing. Please run the portfolio pipeline to generate data/topk_portfolios.json, then retry. TODO: generate top1/top2 diff.",
+            "Top-2 comparison data is missing: run a recommendation (/api/recommendation) to write knowledge/topk_portfolios.json.",
         });
       }
     }
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { loadBusinessData } from "@/calculator/businessData";
+import { resolvePort, searchPorts } from "@/calculator/portMaster";
+
+export const runtime = "nodejs";
+
+// GET /api/ports?q=qingdao&limit=20 lists matching ports and how the query itself would
+// resolve when it appears in a vessel or cargo file.
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const query = (url.searchParams.get("q") ?? "").trim();
+    const limitParam = Number(url.searchParams.get("limit"));
+    const limit =
+      Number.isFinite(limitParam) && limitParam > 0 ? Math.min(Math.floor(limitParam), 100) : 20;
+
+    const dataRoot = path.join(process.cwd(), "public", "business_data");
+    const { portMaster, distances } = await loadBusinessData((file) =>
+      fs.readFile(path.join(dataRoot, file), "utf8"),
+    );
+
+    // Without a query, list the master file.
+    if (!query) {
+      return NextResponse.json({
+        query,
+        resolution: null,
+        matches: portMaster
+          .slice(0, limit)
+          .map((entry) => ({ port: entry.name, entry, confidence: "exact", matchedOn: entry.name })),
+      });
+    }
+    return NextResponse.json({
+      query,
+      resolution: resolvePort(query, portMaster, distances.ports),
+      matches: searchPorts(query, portMaster, distances.ports, limit),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
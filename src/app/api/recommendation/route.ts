@@ -1,57 +1,49 @@
 import { NextResponse } from "next/server";
+import { createHash } from "crypto";
 import { promises as fs } from "fs";
 import path from "path";
-import { calculateFreight, exampleInputs, type FreightInputs } from "@/calculator/freightCalculator";
-import { evaluateLaycan, parseDateInput, parseLaycanRange, type LaycanEvaluation } from "@/calculator/laycan";
-import { getQuantityRangeFeasibility, getWeightFeasibility, type QuantityRange } from "@/calculator/weight";
+import { exampleInputs, type BunkerCosting } from "@/calculator/freightCalculator";
+import type { ConsumptionModel, ConsumptionTable } from "@/calculator/speed";
+import { formatZonedDateTime, parseDateInput } from "@/calculator/laycan";
+import { defaultLaycanRiskOptions, type LaycanRiskOptions } from "@/calculator/laycanRisk";
+import { defaultDistanceNm, type DistanceSource } from "@/calculator/portDistances";
+import { chokepointLabels, isChokepoint, type Chokepoint } from "@/calculator/routeVariants";
+import type { PortOptionRule } from "@/calculator/portOptions";
 import {
-  defaultDistanceNm,
-  extractPortFromStatus,
-  getDistance,
-  parseDistanceCsv,
-  resolvePortName,
-} from "@/calculator/portDistances";
+  createPairEvaluator,
+  createPairReport,
+  type PortPairResult,
+} from "@/calculator/pairEvaluator";
+import {
+  enumerateVoyageChains,
+  maxSequencingCargos,
+  solveVoyageSequencing,
+} from "@/calculator/sequencing";
+import {
+  rankPortfolios,
+  type PortfolioSolution,
+  type RankedPortfolio,
+} from "@/calculator/portfolioSolver";
+import {
+  buildPortfolioProblem,
+  defaultPortfolioVesselCount,
+} from "@/calculator/portfolioProblem";
+import { buildThresholdsJson } from "@/calculator/portfolioThresholds";
+import {
+  buildFilterFunnel,
+  buildTopkJson,
+  describeRejections,
+  pairRejectionReasons,
+  type TopkJson,
+} from "@/calculator/portfolioTrace";
+import {
+  loadBusinessData,
+  type CargoOption,
+  type VesselOption,
+} from "@/calculator/businessData";
 
 export const runtime = "nodejs";
 
-type CsvRow = Record<string, string>;
-
-type VesselOption = {
-  id: string;
-  name: string;
-  source: "capesize" | "market";
-  currentPort: string;
-  etdDate: string;
-  data: FreightInputs["vessel"];
-};
-
-type CargoOption = {
-  id: string;
-  name: string;
-  source: "committed" | "market";
-  data: FreightInputs["cargo"];
-  quantityRange: QuantityRange | null;
-  loadPort: string;
-  dischargePort: string;
-  portCosts: { load: number; discharge: number };
-  laycanLabel: string;
-  laycanWindow: ReturnType<typeof parseLaycanRange>;
-};
-
-type PairResult = ReturnType<typeof calculateFreight> & {
-  adjustedProfit: number;
-  waitingCost: number;
-  laycanEvaluation?: LaycanEvaluation;
-  vessel: VesselOption;
-  cargo: CargoOption;
-  ballastNm: number;
-  ladenNm: number;
-  cargoQty: number;
-  speedBlend: { ballast: number; laden: number };
-  ballastDistanceKnown: boolean;
-  ladenDistanceKnown: boolean;
-};
-
 const formatMoney = (value: number | undefined | null) =>
   (Number.isFinite(value ?? NaN) ? (value as number) : 0).toLocaleString("en-US", {
     style: "currency",
@@ -59,256 +51,19 @@ const formatMoney = (value: number | undefined | null) =>
     maximumFractionDigits: 2,
   });
 
+const describePortOptionRule = (rule: PortOptionRule) =>
+  rule.kind === "same_tce"
+    ? "same TCE basis"
+    : rule.kind === "differential"
+      ? `${rule.usdPerMt >= 0 ? "+" : ""}${rule.usdPerMt} USD/MT differential`
+      : "same rate";
+
 const formatNumber = (value: number) =>
   value.toLocaleString("en-US", { maximumFractionDigits: 2 });
 
-const parseCsv = (text: string): CsvRow[] => {
-  const rows: string[][] = [];
-  let current = "";
-  let row: string[] = [];
-  let inQuotes = false;
-
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    const next = text[i + 1];
-    if (char === "\"") {
-      if (inQuotes && next === "\"") {
-        current += "\"";
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-      continue;
-    }
-    if (char === "," && !inQuotes) {
-      row.push(current);
-      current = "";
-      continue;
-    }
-    if ((char === "\n" || char === "\r") && !inQuotes) {
-      if (char === "\r" && next === "\n") i += 1;
-      row.push(current);
-      current = "";
-      if (row.some((cell) => cell.trim().length > 0)) {
-        rows.push(row);
-      }
-      row = [];
-      continue;
-    }
-    current += char;
-  }
-
-  if (current.length > 0 || row.length > 0) {
-    row.push(current);
-    if (row.some((cell) => cell.trim().length > 0)) {
-      rows.push(row);
-    }
-  }
-
-  if (rows.length === 0) return [];
-  const headers = rows[0].map((header) => header.trim());
-  return rows.slice(1).map((cells) => {
-    const record: CsvRow = {};
-    headers.forEach((header, index) => {
-      record[header] = (cells[index] ?? "").trim();
-    });
-    return record;
-  });
-};
-
-const toNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const cleaned = value.replace(/[^0-9.-]/g, "");
-  const parsed = Number.parseFloat(cleaned);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
-
-const parseFirstNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d,.]+/);
-  return match ? toNumber(match[0], fallback) : fallback;
-};
+// Portfolios ranked into knowledge/topk_portfolios.json for top-1 vs top-2 questions.
+const topkPortfolioCount = 5;
 
-const parseQuantityRange = (
-  value: string | undefined | null,
-  fallbackQty: number,
-): { baseQty: number; range: QuantityRange | null } => {
-  if (!value) return { baseQty: fallbackQty, range: null };
-  const baseQty = parseFirstNumber(value, fallbackQty);
-  const percentMatch = value.match(/([\d.]+)\s*%/);
-  if (percentMatch) {
-    const pct = Number.parseFloat(percentMatch[1]);
-    if (Number.isFinite(pct) && baseQty > 0) {
-      const min = baseQty * (1 - pct / 100);
-      const max = baseQty * (1 + pct / 100);
-      return {
-        baseQty,
-        range: { min, max },
-      };
-    }
-  }
-  const rangeMatch = value.match(/([\d,.]+)\s*(?:-|to)\s*([\d,.]+)/i);
-  if (rangeMatch) {
-    const first = toNumber(rangeMatch[1], baseQty);
-    const second = toNumber(rangeMatch[2], baseQty);
-    const min = Math.min(first, second);
-    const max = Math.max(first, second);
-    return {
-      baseQty,
-      range: { min, max },
-    };
-  }
-  return { baseQty, range: null };
-};
-
-const parsePercent = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d.]+/);
-  if (!match) return fallback;
-  const parsed = Number.parseFloat(match[0]);
-  return Number.isFinite(parsed) ? parsed / 100 : fallback;
-};
-
-const parseTurnTimeDays = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d.]+)\s*hr/i);
-  if (!match) return fallback;
-  const hours = Number.parseFloat(match[1]);
-  if (!Number.isFinite(hours)) return fallback;
-  return hours / 24;
-};
-
-const parseRateFromTerms = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d,.]+)\s*MT/i);
-  if (!match) return fallback;
-  return toNumber(match[1], fallback);
-};
-
-const parsePortCosts = (
-  value: string | undefined | null,
-  fallbackLoad: number,
-  fallbackDischarge: number,
-) => {
-  if (!value) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-  const amounts = Array.from(value.matchAll(/([\d.]+)\s*([KM])?/gi)).map((match) => {
-    const base = Number.parseFloat(match[1]);
-    if (!Number.isFinite(base)) return 0;
-    const multiplier =
-      match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
-    return base * multiplier;
-  });
-
-  if (amounts.length === 0) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-
-  const lower = value.toLowerCase();
-  if (amounts.length >= 2 && lower.includes("load") && lower.includes("discharge")) {
-    return { load: amounts[0], discharge: amounts[1] };
-  }
-
-  if (lower.includes("total")) {
-    const total = amounts[0];
-    return { load: total / 2, discharge: total / 2 };
-  }
-
-  if (amounts.length === 1) {
-    return { load: amounts[0], discharge: fallbackDischarge };
-  }
-
-  return { load: amounts[0], discharge: amounts[1] ?? fallbackDischarge };
-};
-
-const isDistanceKnown = (
-  distanceMap: Record<string, Record<string, number>>,
-  from: string,
-  to: string,
-) => {
-  if (from === to) return true;
-  return Number.isFinite(distanceMap[from]?.[to]);
-};
-
-const speedStep = 0.01;
-const blendValues = Array.from({ length: 101 }, (_, i) =>
-  Number.parseFloat((i * speedStep).toFixed(2)),
-);
-
-const buildCombos = (count: number, pick: number) => {
-  const combos: number[][] = [];
-  const walk = (start: number, current: number[]) => {
-    if (current.length === pick) {
-      combos.push([...current]);
-      return;
-    }
-    for (let i = start; i <= count - (pick - current.length); i += 1) {
-      current.push(i);
-      walk(i + 1, current);
-      current.pop();
-    }
-  };
-  walk(0, []);
-  return combos;
-};
-
-const hungarian = (cost: number[][]) => {
-  const n = cost.length;
-  const m = cost[0]?.length ?? 0;
-  const u = Array(n + 1).fill(0);
-  const v = Array(m + 1).fill(0);
-  const p = Array(m + 1).fill(0);
-  const way = Array(m + 1).fill(0);
-
-  for (let i = 1; i <= n; i += 1) {
-    p[0] = i;
-    let j0 = 0;
-    const minv = Array(m + 1).fill(Number.POSITIVE_INFINITY);
-    const used = Array(m + 1).fill(false);
-    do {
-      used[j0] = true;
-      const i0 = p[j0];
-      let delta = Number.POSITIVE_INFINITY;
-      let j1 = 0;
-      for (let j = 1; j <= m; j += 1) {
-        if (used[j]) continue;
-        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
-        if (cur < minv[j]) {
-          minv[j] = cur;
-          way[j] = j0;
-        }
-        if (minv[j] < delta) {
-          delta = minv[j];
-          j1 = j;
-        }
-      }
-      for (let j = 0; j <= m; j += 1) {
-        if (used[j]) {
-          u[p[j]] += delta;
-          v[j] -= delta;
-        } else {
-          minv[j] -= delta;
-        }
-      }
-      j0 = j1;
-    } while (p[j0] !== 0);
-
-    do {
-      const j1 = way[j0];
-      p[j0] = p[j1];
-      j0 = j1;
-    } while (j0 !== 0);
-  }
-
-  const assignment = Array(n).fill(-1);
-  for (let j = 1; j <= m; j += 1) {
-    if (p[j] > 0) {
-      assignment[p[j] - 1] = j - 1;
-    }
-  }
-  return assignment;
-};
 
 export async function POST(req: Request) {
   try {
@@ -321,435 +76,477 @@ export async function POST(req: Request) {
         ? Number(body.bunkerPrices.mdo)
         : exampleInputs.costs.mdoPrice,
     };
+    const robPrices = {
+      ifo: Number.isFinite(body?.robPrices?.ifo)
+        ? Number(body.robPrices.ifo)
+        : exampleInputs.costs.robIfoPrice,
+      mdo: Number.isFinite(body?.robPrices?.mdo)
+        ? Number(body.robPrices.mdo)
+        : exampleInputs.costs.robMdoPrice,
+    };
+    const bunkerCosting: BunkerCosting =
+      body?.bunkerCosting === "rob_book" || body?.bunkerCosting === "market"
+        ? body.bunkerCosting
+        : exampleInputs.options.bunkerCosting;
+    const consumptionModel: ConsumptionModel =
+      body?.consumptionModel === "cubic" ||
+      body?.consumptionModel === "table" ||
+      body?.consumptionModel === "linear"
+        ? body.consumptionModel
+        : exampleInputs.options.consumptionModel;
+    const consumptionTables: Record<string, ConsumptionTable> =
+      body?.consumptionTables && typeof body.consumptionTables === "object"
+        ? body.consumptionTables
+        : {};
     const portDelayDays = Number.isFinite(body?.portDelayDays)
       ? Number(body.portDelayDays)
       : 0;
     const marketHireRate = Number.isFinite(body?.marketHireRate)
       ? Number(body.marketHireRate)
       : exampleInputs.vessel.dailyHire;
+    const freightRateOverrides: Record<string, number> = {};
+    if (body?.freightRates && typeof body.freightRates === "object") {
+      for (const [key, value] of Object.entries(body.freightRates)) {
+        if (Number.isFinite(value) && Number(value) > 0) {
+          freightRateOverrides[key] = Number(value);
+        }
+      }
+    }
+    const speedToleranceKn =
+      Number.isFinite(body?.speedToleranceKn) && Number(body.speedToleranceKn) > 0
+        ? Number(body.speedToleranceKn)
+        : 0.01;
+    const riskInput = body?.laycanRisk ?? {};
+    const riskNumber = (key: keyof LaycanRiskOptions, max = Number.POSITIVE_INFINITY) =>
+      Number.isFinite(riskInput?.[key]) && Number(riskInput[key]) >= 0
+        ? Math.min(Number(riskInput[key]), max)
+        : (defaultLaycanRiskOptions[key] as number);
+    const laycanRisk: LaycanRiskOptions = {
+      mode:
+        riskInput?.mode === "off" || riskInput?.mode === "penalize" || riskInput?.mode === "reject"
+          ? riskInput.mode
+          : defaultLaycanRiskOptions.mode,
+      etdStdHours: riskNumber("etdStdHours"),
+      ballastSpeedStdPct: riskNumber("ballastSpeedStdPct"),
+      maxMissProbability: riskNumber("maxMissProbability", 1),
+      missPenalty: riskNumber("missPenalty"),
+    };
+    const avoidChokepoints: Chokepoint[] = Array.isArray(body?.avoidChokepoints)
+      ? body.avoidChokepoints.filter(isChokepoint)
+      : [];
     const vesselCount = Number.isFinite(body?.vesselCount)
       ? Math.max(1, Math.floor(Number(body.vesselCount)))
-      : 4;
+      : defaultPortfolioVesselCount;
+    // Sequencing lets a vessel carry further cargos after its first discharge, within
+    // `planningHorizonDays` of the earliest departure.
+    const sequencing = body?.sequencing === true;
+    // Side constraints on the single-voyage portfolio. Exposure caps are USD of gross
+    // freight per customer.
+    const maxMarketCharters = Number.isFinite(body?.maxMarketCharters)
+      ? Math.max(0, Math.floor(Number(body.maxMarketCharters)))
+      : null;
+    const customerExposureCaps: Record<string, number> = {};
+    if (body?.customerExposureCaps && typeof body.customerExposureCaps === "object") {
+      for (const [customer, value] of Object.entries(body.customerExposureCaps)) {
+        if (Number.isFinite(value) && Number(value) >= 0) {
+          customerExposureCaps[customer] = Number(value);
+        }
+      }
+    }
+    const planningHorizonDays =
+      Number.isFinite(body?.planningHorizonDays) && Number(body.planningHorizonDays) > 0
+        ? Number(body.planningHorizonDays)
+        : 120;
+    const maxVoyagesPerVessel = Number.isFinite(body?.maxVoyagesPerVessel)
+      ? Math.min(Math.max(1, Math.floor(Number(body.maxVoyagesPerVessel))), 3)
+      : 2;
 
     const todayIso = new Date().toISOString().slice(0, 10);
+    // Anchors "spot"/"prompt" and year-less laycans; defaults to today.
+    const referenceDate =
+      typeof body?.referenceDate === "string" ? parseDateInput(body.referenceDate) : null;
     const dataRoot = path.join(process.cwd(), "public", "business_data");
-    const [capesizeText, marketVesselsText, committedText, marketCargosText, distancesText] =
-      await Promise.all([
-        fs.readFile(path.join(dataRoot, "vessels", "capesize_vessels.csv"), "utf8"),
-        fs.readFile(path.join(dataRoot, "vessels", "market_vessels.csv"), "utf8"),
-        fs.readFile(path.join(dataRoot, "cargos", "committed_cargos.csv"), "utf8"),
-        fs.readFile(path.join(dataRoot, "cargos", "market_cargos.csv"), "utf8"),
-        fs.readFile(path.join(dataRoot, "port_data", "port_distances.csv"), "utf8"),
-      ]);
-
-    const parsedDistances = parseDistanceCsv(distancesText);
-
-    const capesizeRows = parseCsv(capesizeText);
-    const marketRows = parseCsv(marketVesselsText);
-    const vesselsParsed: VesselOption[] = [...capesizeRows, ...marketRows].map((row, index) => {
-      const source = index < capesizeRows.length ? "capesize" : "market";
-      const name = row.vessel_name || `Vessel ${index + 1}`;
-      const dwt = toNumber(row.dwt_mt, exampleInputs.vessel.dwt);
-      const ecoLaden = toNumber(row.economical_speed_laden_kn, exampleInputs.vessel.speed.laden);
-      const ecoBallast = toNumber(
-        row.economical_speed_ballast_kn,
-        exampleInputs.vessel.speed.ballast,
-      );
-      const ecoLadenVlsfo = toNumber(
-        row.economical_speed_laden_vlsfo_mt ?? row.economical_speed_laden_vlsf_mt,
-        exampleInputs.vessel.consumption.laden.ifo,
-      );
-      const ecoBallastVlsfo = toNumber(
-        row.economical_speed_ballast_vlsfo_mt ?? row.economical_speed_ballast_vlsf_mt,
-        exampleInputs.vessel.consumption.ballast.ifo,
-      );
-      const ecoLadenMgo = toNumber(
-        row.economical_speed_laden_mgo_mt,
-        exampleInputs.vessel.consumption.laden.mdo,
-      );
-      const ecoBallastMgo = toNumber(
-        row.economical_speed_ballast_mgo_mt,
-        exampleInputs.vessel.consumption.ballast.mdo,
-      );
-      const warrantedLaden = toNumber(
-        row.warranted_speed_laden_kn,
-        exampleInputs.vessel.speedWarranted.laden,
-      );
-      const warrantedBallast = toNumber(
-        row.warranted_speed_ballast_kn,
-        exampleInputs.vessel.speedWarranted.ballast,
-      );
-      const warrantedLadenVlsfo = toNumber(
-        row.warranted_speed_laden_vlsf_mt ?? row.warranted_speed_laden_vlsfo_mt,
-        exampleInputs.vessel.consumptionWarranted.laden.ifo,
-      );
-      const warrantedBallastVlsfo = toNumber(
-        row.warranted_speed_ballast_vlsf_mt ?? row.warranted_speed_ballast_vlsfo_mt,
-        exampleInputs.vessel.consumptionWarranted.ballast.ifo,
-      );
-      const warrantedLadenMgo = toNumber(
-        row.warranted_speed_laden_mgo_mt,
-        exampleInputs.vessel.consumptionWarranted.laden.mdo,
-      );
-      const warrantedBallastMgo = toNumber(
-        row.warranted_speed_ballast_mgo_mt,
-        exampleInputs.vessel.consumptionWarranted.ballast.mdo,
-      );
-
-      const portIdle = toNumber(
-        row.port_consumption_idle_vlsfo_mt_day ?? row.port_consumption_idle_vlsf_mt_day,
-        exampleInputs.vessel.portConsumption.idle.ifo,
-      );
-      const portWorking = toNumber(
-        row.port_consumption_working_vlsfo_mt_day ?? row.port_consumption_working_vlsf_mt_day,
-        exampleInputs.vessel.portConsumption.working.ifo,
-      );
-
-      const currentPortRaw = extractPortFromStatus(row.position_status ?? "");
-      const currentPort = resolvePortName(currentPortRaw, parsedDistances.ports);
-      const etdDate = (row.etd_date ?? "").trim();
-
-      return {
-        id: `${source}-${index}`,
-        name,
-        source,
-        currentPort: currentPort || currentPortRaw || "UNKNOWN",
-        etdDate,
-        data: {
-          dwt,
-          grainCapacity: dwt,
-          speed: { ballast: ecoBallast, laden: ecoLaden },
-          speedWarranted: { ballast: warrantedBallast, laden: warrantedLaden },
-          consumption: {
-            ballast: { ifo: ecoBallastVlsfo, mdo: ecoBallastMgo },
-            laden: { ifo: ecoLadenVlsfo, mdo: ecoLadenMgo },
-          },
-          consumptionWarranted: {
-            ballast: { ifo: warrantedBallastVlsfo, mdo: warrantedBallastMgo },
-            laden: { ifo: warrantedLadenVlsfo, mdo: warrantedLadenMgo },
-          },
-          portConsumption: {
-            working: {
-              ifo: portWorking,
-              mdo: exampleInputs.vessel.portConsumption.working.mdo,
-            },
-            idle: { ifo: portIdle, mdo: exampleInputs.vessel.portConsumption.idle.mdo },
-          },
-          dailyHire:
-            source === "market"
-              ? marketHireRate
-              : toNumber(row.hire_rate_usd_day, exampleInputs.vessel.dailyHire),
-          adComsPct: exampleInputs.vessel.adComsPct,
-        },
-      };
-    });
-
-    const committedRows = parseCsv(committedText);
-    const marketCargoRows = parseCsv(marketCargosText);
-    const baseCosts = exampleInputs.costs;
-    const cargosParsed: CargoOption[] = [...committedRows, ...marketCargoRows].map((row, index) => {
-      const source = index < committedRows.length ? "committed" : "market";
-      const name = row.route || row.customer || `Cargo ${index + 1}`;
-      const { baseQty, range: quantityRange } = parseQuantityRange(
-        row.quantity,
-        exampleInputs.cargo.cargoQty,
-      );
-      const freightRate = toNumber(row.freight_rate ?? "", exampleInputs.cargo.freightRate);
-      const loadRate = parseRateFromTerms(row.loading_terms ?? "", exampleInputs.cargo.loadRate);
-      const dischargeRate = parseRateFromTerms(
-        row.discharge_terms ?? "",
-        exampleInputs.cargo.dischargeRate,
-      );
-      const loadportTT = parseTurnTimeDays(row.loading_terms ?? "", exampleInputs.cargo.loadportTT);
-      const disportTT = parseTurnTimeDays(
-        row.discharge_terms ?? "",
-        exampleInputs.cargo.disportTT,
-      );
-      const commissionPct = parsePercent(row.commission ?? "", 0);
-      const commissionIsBroker = (row.commission ?? "").toLowerCase().includes("broker");
-      const loadPortRaw = row.load_port ?? "";
-      const dischargePortRaw = row.discharge_port ?? "";
-      const loadPort = resolvePortName(loadPortRaw, parsedDistances.ports);
-      const dischargePort = resolvePortName(dischargePortRaw, parsedDistances.ports);
-      const portCosts = parsePortCosts(row.port_cost ?? "", baseCosts.portDisbLoad, baseCosts.portDisbDis);
-      const laycanLabel = row.laycan ?? "";
-      const laycanWindow = parseLaycanRange(laycanLabel);
-
-      return {
-        id: `${source}-${index}`,
-        name,
-        source,
-        quantityRange,
-        loadPort: loadPort || loadPortRaw || "UNKNOWN",
-        dischargePort: dischargePort || dischargePortRaw || "UNKNOWN",
-        portCosts,
-        laycanLabel,
-        laycanWindow,
-        data: {
-          ...exampleInputs.cargo,
-          cargoQty: baseQty,
-          freightRate,
-          loadRate,
-          dischargeRate,
-          loadportTT,
-          disportTT,
-          portIdleDays: exampleInputs.cargo.portIdleDays,
-          addressComsPct: commissionIsBroker ? 0 : commissionPct,
-          brokerComsPct: commissionIsBroker ? commissionPct : 0,
-        },
-      };
-    });
-    const committedCount = committedRows.length;
-    const marketCount = marketCargoRows.length;
-
+    // Contents of every data file read, for the trace's input hash.
+    const dataFiles: Record<string, string> = {};
+    const businessData = await loadBusinessData(
+      async (file) => {
+        const text = await fs.readFile(path.join(dataRoot, file), "utf8");
+        dataFiles[file] = text;
+        return text;
+      },
+      {
+        marketHireRate,
+        freightRateOverrides,
+        consumptionTables,
+        referenceDate: referenceDate ?? undefined,
+      },
+    );
+    const {
+      vessels: vesselsParsed,
+      cargos: cargosParsed,
+      distanceEstimator,
+      committedCount,
+      marketCount,
+      validation,
+    } = businessData;
     if (cargosParsed.length === 0 || vesselsParsed.length === 0) {
       return NextResponse.json({
         reply: "Missing vessel or cargo data. Please check CSV files in /public.",
       });
     }
 
-    let calcCount = 0;
-
-    const computeBestPair = (vessel: VesselOption, cargo: CargoOption) => {
-      if (!Number.isFinite(cargo.data.freightRate) || cargo.data.freightRate <= 0) {
-        return null;
-      }
-
-      const ballastNm = getDistance(parsedDistances.distanceMap, vessel.currentPort, cargo.loadPort);
-      const ladenNm = getDistance(parsedDistances.distanceMap, cargo.loadPort, cargo.dischargePort);
-      const ballastDistanceKnown = isDistanceKnown(
-        parsedDistances.distanceMap,
-        vessel.currentPort,
-        cargo.loadPort,
-      );
-      const ladenDistanceKnown = isDistanceKnown(
-        parsedDistances.distanceMap,
-        cargo.loadPort,
-        cargo.dischargePort,
-      );
-      const laycanWindow = cargo.laycanWindow ?? null;
-      const departureDate = parseDateInput(vessel.etdDate) ?? parseDateInput(todayIso);
-      if (!laycanWindow || !departureDate) {
-        return null;
-      }
-
-      const laycanEvaluation = evaluateLaycan({
-        departureDate,
-        ballastNm,
-        ballastSpeed: vessel.data.speed.ballast,
-        laycan: laycanWindow,
-      });
-      if (laycanEvaluation.status === "infeasible") {
-        return null;
-      }
-
-      const baseQty = cargo.data.cargoQty;
-      const qtyRange = cargo.quantityRange;
-      const qtyMin = qtyRange ? Math.min(qtyRange.min, qtyRange.max) : baseQty;
-      const qtyMax = qtyRange ? Math.max(qtyRange.min, qtyRange.max) : baseQty;
-      const qtyStep = Math.max(baseQty * 0.01, 1);
-      const qtyValues: number[] = [];
-      if (qtyRange) {
-        for (let qty = qtyMin; qty <= qtyMax + 1e-6; qty += qtyStep) {
-          qtyValues.push(qty);
-        }
-      } else {
-        qtyValues.push(baseQty);
-      }
-
-      let best: PairResult | null = null;
-      for (const cargoQty of qtyValues) {
-        const rangeCheck = getQuantityRangeFeasibility(cargoQty, cargo.quantityRange);
-        if (rangeCheck.status === "infeasible") {
-          continue;
-        }
-        const weightCheck = getWeightFeasibility(cargoQty, vessel.data.dwt);
-        if (weightCheck.status === "infeasible") {
-          continue;
-        }
-        for (const ballastBlend of blendValues) {
-          for (const ladenBlend of blendValues) {
-            const inputs: FreightInputs = {
-              vessel: vessel.data,
-              cargo: {
-                ...cargo.data,
-                cargoQty,
-                portIdleDays: cargo.data.portIdleDays + portDelayDays,
-              },
-              distances: { ballastNm, ladenNm },
-              costs: {
-                ...exampleInputs.costs,
-                ifoPrice: bunkerPrices.ifo,
-                mdoPrice: bunkerPrices.mdo,
-                portDisbLoad: cargo.portCosts.load,
-                portDisbDis: cargo.portCosts.discharge,
-              },
-              options: {
-                bunkerDays: exampleInputs.options.bunkerDays,
-                speedBlend: { ballast: ballastBlend, laden: ladenBlend },
-              },
-            };
-
-            const result = calculateFreight(inputs);
-            calcCount += 1;
-
-            let waitingCost = 0;
-            if (laycanEvaluation.status === "early" && laycanEvaluation.waitingDays > 0) {
-              const waitingHireCost = laycanEvaluation.waitingDays * vessel.data.dailyHire;
-              const waitingFuelCost =
-                laycanEvaluation.waitingDays *
-                (vessel.data.portConsumption.idle.ifo * bunkerPrices.ifo +
-                  vessel.data.portConsumption.idle.mdo * bunkerPrices.mdo);
-              waitingCost = waitingHireCost + waitingFuelCost;
-            }
-            const adjustedProfit = result.profit - waitingCost;
+    const { computeBestPair } = createPairEvaluator(businessData, {
+      bunkerPrices,
+      robPrices,
+      bunkerCosting,
+      consumptionModel,
+      portDelayDays,
+      speedToleranceKn,
+      laycanRisk,
+      avoidChokepoints,
+      todayIso,
+    });
+    // First voyages; follow-on voyages in sequencing report separately.
+    const pairReport = createPairReport();
+    const { laycanRiskRejections, routeExclusions, pairRejections } = pairReport;
+
+    // Cargos without a readable laycan never reach the pair search; report why.
+    const laycanExclusions = cargosParsed
+      .filter((cargo) => !cargo.laycanWindow)
+      .map((cargo) => ({
+        cargoId: cargo.id,
+        cargoName: cargo.name,
+        laycanLabel: cargo.laycanLabel,
+        reason: cargo.laycanParse.reason ?? "Unreadable laycan.",
+      }));
+
+    const pairResults: Array<Array<PortPairResult | null>> = vesselsParsed.map((vessel) =>
+      cargosParsed.map((cargo) => computeBestPair(vessel, cargo, pairReport)),
+    );
 
-            if (!best || adjustedProfit > best.adjustedProfit) {
-              best = {
-                ...result,
-                adjustedProfit,
-                waitingCost,
-                laycanEvaluation,
-                vessel,
-                cargo,
-                ballastNm,
-                ladenNm,
-                cargoQty,
-                speedBlend: { ballast: ballastBlend, laden: ladenBlend },
-                ballastDistanceKnown,
-                ladenDistanceKnown,
-              };
-            }
-          }
+    const breakEvenRates = cargosParsed.flatMap((cargo, cargoIdx) => {
+      if (cargo.source !== "market") return [];
+      let found: { rate: number; vessel: VesselOption } | null = null;
+      for (let vesselIdx = 0; vesselIdx < vesselsParsed.length; vesselIdx += 1) {
+        const pair = pairResults[vesselIdx][cargoIdx];
+        if (!pair || !Number.isFinite(pair.breakEvenRate)) continue;
+        if (!found || pair.breakEvenRate < found.rate) {
+          found = { rate: pair.breakEvenRate, vessel: vesselsParsed[vesselIdx] };
         }
       }
-
-      return best;
-    };
-
-    const pairResults: Array<Array<PairResult | null>> = vesselsParsed.map((vessel) =>
-      cargosParsed.map((cargo) => computeBestPair(vessel, cargo)),
-    );
+      return [
+        {
+          cargoId: cargo.id,
+          cargoName: cargo.name,
+          route: `${cargo.loadPort} -> ${cargo.dischargePort}`,
+          freightRate: cargo.data.freightRate,
+          freightRateSource: cargo.freightRateSource,
+          breakEvenRate: found ? found.rate : null,
+          breakEvenVessel: found ? found.vessel.name : null,
+          margin: found ? cargo.data.freightRate - found.rate : null,
+        },
+      ];
+    });
 
     const totalVessels = vesselsParsed.length;
     const vesselPick = Math.min(vesselCount, totalVessels);
-    const vesselCombos = buildCombos(totalVessels, vesselPick);
-    const marketOffset = committedCount;
 
-    if (committedCount > vesselPick) {
+    if (sequencing && cargosParsed.length > maxSequencingCargos) {
       return NextResponse.json({
-        reply: `Committed cargos (${committedCount}) exceed selected vessels (${vesselPick}). Increase vessel count or reduce committed cargos.`,
+        reply: `Sequencing supports at most ${maxSequencingCargos} cargos; ${cargosParsed.length} loaded.`,
       });
     }
 
-    let maxProfit = 0;
-    for (const row of pairResults) {
-      for (const pair of row) {
-        if (pair && Number.isFinite(pair.adjustedProfit) && pair.adjustedProfit > maxProfit) {
-          maxProfit = pair.adjustedProfit;
-        }
-      }
+    if (!sequencing && committedCount > vesselPick) {
+      return NextResponse.json({
+        reply: `Committed cargos (${committedCount}) exceed selected vessels (${vesselPick}). Increase vessel count or reduce committed cargos.`,
+      });
     }
-    const big = maxProfit + 1_000_000_000;
 
+    // `voyage` counts from 1 per vessel; later voyages carry the vessel as repositioned.
+    type PortfolioAssignment = {
+      vessel: VesselOption;
+      cargo: CargoOption;
+      pair: PortPairResult;
+      voyage: number;
+    };
     type PortfolioResult = {
       vessels: VesselOption[];
-      assignments: Array<{ vessel: VesselOption; cargo: CargoOption; pair: PairResult }>;
+      assignments: PortfolioAssignment[];
       totalProfit: number;
     };
 
     let bestPortfolio: PortfolioResult | null = null;
+    // Sequencing only: DP states tested.
     let evaluatedPortfolios = 0;
-
-    for (const combo of vesselCombos) {
-      const selected = combo.map((idx) => vesselsParsed[idx]);
-      const assignments: Array<{ vessel: VesselOption; cargo: CargoOption; pair: PairResult }> = [];
-      let total = 0;
-      let feasible = true;
-      const usedVesselPositions = new Set<number>();
-
-      if (committedCount > 0) {
-        const committedCost = Array.from({ length: committedCount }, (_, cargoIdx) =>
-          Array.from({ length: vesselPick }, (_, vesselPos) => {
-            const vesselIdx = combo[vesselPos];
-            const pair = pairResults[vesselIdx][cargoIdx];
-            return pair ? maxProfit - pair.adjustedProfit : big;
-          }),
-        );
-        const committedAssignment = hungarian(committedCost);
-        for (let cargoIdx = 0; cargoIdx < committedCount; cargoIdx += 1) {
-          const vesselPos = committedAssignment[cargoIdx];
-          if (vesselPos < 0 || vesselPos >= vesselPick) {
-            feasible = false;
-            break;
-          }
-          if (usedVesselPositions.has(vesselPos)) {
-            feasible = false;
-            break;
-          }
-          const vesselIdx = combo[vesselPos];
-          const pair = pairResults[vesselIdx][cargoIdx];
-          if (!pair || !Number.isFinite(pair.adjustedProfit)) {
-            feasible = false;
-            break;
-          }
-          usedVesselPositions.add(vesselPos);
-          assignments.push({ vessel: vesselsParsed[vesselIdx], cargo: cargosParsed[cargoIdx], pair });
-          total += pair.adjustedProfit;
-        }
+    // Sequencing only: follow-on voyages are hypothetical, so their rejections go to the
+    // trace only, not to the first-voyage lists in the reply.
+    const followOnReport = createPairReport();
+    let solverResult: PortfolioSolution | null = null;
+    let solverConstraints: string[] = [];
+    // Single-voyage only: the best portfolio first, then the runners-up.
+    let rankedPortfolios: RankedPortfolio[] = [];
+    // Flip thresholds of the recommended portfolio, for knowledge/thresholds.json.
+    let thresholds: ReturnType<typeof buildThresholdsJson> | null = null;
+
+    if (!sequencing) {
+      const problem = buildPortfolioProblem(vesselsParsed, cargosParsed, pairResults, {
+        committedCount,
+        vesselPick,
+        maxMarketCharters,
+        customerExposureCaps,
+      });
+      const ranking = rankPortfolios(problem, topkPortfolioCount);
+      solverResult = ranking.best;
+      rankedPortfolios = ranking.ranked;
+      solverConstraints = problem.constraints.map((constraint) => constraint.name);
+      if (solverResult.status === "optimal" || solverResult.status === "feasible") {
+        const assignments = solverResult.pairs.map(({ vesselIdx, cargoIdx }) => ({
+          vessel: vesselsParsed[vesselIdx],
+          cargo: cargosParsed[cargoIdx],
+          pair: pairResults[vesselIdx][cargoIdx] as PortPairResult,
+          voyage: 1,
+        }));
+        bestPortfolio = {
+          vessels: assignments.map((item) => item.vessel),
+          assignments,
+          totalProfit: solverResult.objective,
+        };
+        thresholds = buildThresholdsJson({
+          recommended: solverResult,
+          vessels: vesselsParsed,
+          cargos: cargosParsed,
+          pairResults,
+          problem,
+          bunkerPrices,
+          portDelayDays,
+          laycanRisk,
+        });
       }
+    }
 
-      if (!feasible) {
-        continue;
+    if (sequencing) {
+      // The vessel as it opens after `previous`: at its discharge port on completion, with
+      // the fuel left aboard after that voyage's stems and burn.
+      const repositionVessel = (previous: PortPairResult): VesselOption => ({
+        ...previous.vessel,
+        currentPort: previous.openPort,
+        etdDate: previous.openDate.toISOString(),
+        etdTimeZone: "UTC",
+        data: {
+          ...previous.vessel.data,
+          rob: previous.robAtCompletion,
+        },
+      });
+      const isWorthCarrying = (cargo: CargoOption, pair: PortPairResult | null) =>
+        !!pair &&
+        Number.isFinite(pair.adjustedProfit) &&
+        (cargo.source === "committed" || pair.adjustedProfit > 0);
+      const departures = vesselsParsed
+        .map((vessel) => parseDateInput(vessel.etdDate, vessel.etdTimeZone)?.getTime())
+        .filter((time): time is number => time !== undefined);
+      const horizonStart = departures.length ? Math.min(...departures) : Date.now();
+      const horizonEnd = new Date(horizonStart + planningHorizonDays * 86_400_000);
+
+      const chainsByVessel = enumerateVoyageChains<PortPairResult>({
+        vesselCount: totalVessels,
+        cargoCount: cargosParsed.length,
+        maxVoyages: maxVoyagesPerVessel,
+        horizonEnd,
+        first: (vesselIdx, cargoIdx) => {
+          const pair = pairResults[vesselIdx][cargoIdx];
+          return isWorthCarrying(cargosParsed[cargoIdx], pair) ? pair : null;
+        },
+        next: (_vesselIdx, previous, cargoIdx) => {
+          const cargo = cargosParsed[cargoIdx];
+          if (!cargo.laycanWindow || cargo.laycanWindow.end <= previous.openDate) return null;
+          const pair = computeBestPair(repositionVessel(previous), cargo, followOnReport);
+          return isWorthCarrying(cargo, pair) ? pair : null;
+        },
+      });
+      const solution = solveVoyageSequencing(chainsByVessel, {
+        cargoCount: cargosParsed.length,
+        maxVessels: vesselPick,
+        requiredCargos: Array.from({ length: committedCount }, (_, cargoIdx) => cargoIdx),
+      });
+      if (solution) {
+        evaluatedPortfolios = solution.transitions;
+        bestPortfolio = {
+          vessels: solution.chains.map((chain) => vesselsParsed[chain.vesselIdx]),
+          assignments: solution.chains.flatMap((chain) =>
+            chain.voyages.map((pair, voyageIdx) => ({
+              vessel: pair.vessel,
+              cargo: cargosParsed[chain.cargoIdxs[voyageIdx]],
+              pair,
+              voyage: voyageIdx + 1,
+            })),
+          ),
+          totalProfit: solution.profit,
+        };
       }
+    }
 
-      const remainingPositions: number[] = [];
-      for (let pos = 0; pos < vesselPick; pos += 1) {
-        if (!usedVesselPositions.has(pos)) {
-          remainingPositions.push(pos);
-        }
-      }
+    const calcCount = pairReport.freightCalcs + followOnReport.freightCalcs;
+    const inputs = {
+      ifoPrice: bunkerPrices.ifo,
+      mdoPrice: bunkerPrices.mdo,
+      portDelayDays,
+      marketHireRate,
+      freightRateOverrides,
+      bunkerCosting,
+      consumptionModel,
+      robIfoPrice: robPrices.ifo,
+      robMdoPrice: robPrices.mdo,
+      speedToleranceKn,
+      referenceDate: (referenceDate ?? new Date()).toISOString(),
+      laycanRisk,
+      avoidChokepoints,
+      sequencing,
+      planningHorizonDays,
+      maxVoyagesPerVessel,
+      maxMarketCharters,
+      customerExposureCaps,
+    };
 
-      if (remainingPositions.length > 0 && marketCount > 0) {
-        const marketCost = Array.from({ length: remainingPositions.length }, (_, rowIdx) =>
-          Array.from({ length: marketCount + remainingPositions.length }, (_, colIdx) => {
-            if (colIdx >= marketCount) return maxProfit;
-            const vesselIdx = combo[remainingPositions[rowIdx]];
-            const cargoIdx = marketOffset + colIdx;
-            const pair = pairResults[vesselIdx][cargoIdx];
-            return pair ? maxProfit - pair.adjustedProfit : big;
-          }),
-        );
-        const marketAssignment = hungarian(marketCost);
-        for (let rowIdx = 0; rowIdx < remainingPositions.length; rowIdx += 1) {
-          const colIdx = marketAssignment[rowIdx];
-          if (colIdx < 0 || colIdx >= marketCount) continue;
-          const vesselIdx = combo[remainingPositions[rowIdx]];
-          const cargoIdx = marketOffset + colIdx;
-          const pair = pairResults[vesselIdx][cargoIdx];
-          if (!pair || !Number.isFinite(pair.adjustedProfit) || pair.adjustedProfit <= 0) {
-            continue;
+    // Run audit: pairs dropped per filter and why, what each surviving pair was priced at,
+    // and what the optimizer made of them. The hash covers the inputs and data files, with
+    // the reference date at day precision.
+    const pairCount = vesselsParsed.length * cargosParsed.length;
+    const funnel = buildFilterFunnel(
+      pairCount,
+      pairRejections.map((item) => item.reason),
+    );
+    const feasiblePairs = pairResults.flatMap((row) => row.filter((pair) => pair !== null));
+    const inputHash = createHash("sha256")
+      .update(
+        JSON.stringify({
+          inputs: { ...inputs, referenceDate: inputs.referenceDate.slice(0, 10) },
+          consumptionTables,
+          dataFiles: Object.entries(dataFiles).sort(([a], [b]) => a.localeCompare(b)),
+        }),
+      )
+      .digest("hex");
+    const traceSummary =
+      `${pairCount} pairs (${vesselsParsed.length} vessels x ${cargosParsed.length} cargos), ` +
+      `${feasiblePairs.length} feasible; dropped: ${describeRejections(funnel)}. ` +
+      (sequencing
+        ? `Sequencing tested ${formatNumber(evaluatedPortfolios)} states. `
+        : `Branch-and-bound ${solverResult?.status ?? "skipped"} after ` +
+          `${formatNumber(solverResult?.nodes ?? 0)} nodes. `) +
+      (bestPortfolio
+        ? `Best portfolio: ${bestPortfolio.assignments.length} assignments, ` +
+          `${formatMoney(bestPortfolio.totalProfit)} adjusted profit.`
+        : "No feasible portfolio.");
+    const trace = {
+      generated_at: new Date().toISOString(),
+      input_hash: inputHash,
+      summary: traceSummary,
+      inputs,
+      funnel: {
+        pairs_evaluated: pairCount,
+        stages: funnel,
+        feasible_pairs: feasiblePairs.length,
+        assignments: bestPortfolio?.assignments.length ?? 0,
+      },
+      rejected_pairs: Object.fromEntries(
+        pairRejectionReasons.map((reason) => [
+          reason,
+          pairRejections
+            .filter((item) => item.reason === reason)
+            .map((item) => ({ vessel: item.vesselName, cargo: item.cargoName, detail: item.detail })),
+        ]),
+      ),
+      feasible_pairs: feasiblePairs.map((pair) => ({
+        vessel: pair.vessel.name,
+        cargo: pair.cargo.name,
+        load_port: pair.cargo.loadPort,
+        discharge_port: pair.cargo.dischargePort,
+        cargo_qty: pair.cargoQty,
+        speed_blend: pair.speedBlend,
+        speed_knots: pair.speedKnots,
+        tce: pair.tce,
+        adjusted_profit: pair.adjustedProfit,
+      })),
+      solver: sequencing
+        ? {
+            method: "sequencing",
+            states_tested: evaluatedPortfolios,
+            max_voyages_per_vessel: maxVoyagesPerVessel,
+            planning_horizon_days: planningHorizonDays,
+            // Follow-on voyages dropped, by the first filter they failed.
+            follow_on_rejections: Object.fromEntries(
+              pairRejectionReasons.map((reason) => [
+                reason,
+                followOnReport.pairRejections.filter((item) => item.reason === reason).length,
+              ]),
+            ),
           }
-          assignments.push({ vessel: vesselsParsed[vesselIdx], cargo: cargosParsed[cargoIdx], pair });
-          total += pair.adjustedProfit;
+        : {
+            method: "branch_and_bound",
+            status: solverResult?.status ?? null,
+            nodes: solverResult?.nodes ?? 0,
+            objective: solverResult?.objective ?? null,
+            bound: solverResult?.bound ?? null,
+            gap: solverResult?.gap ?? null,
+            constraints: solverConstraints,
+          },
+      freight_calcs: calcCount,
+    };
+    const topk: TopkJson = sequencing
+      ? {
+          generated_at: new Date().toISOString(),
+          note: "Top-K ranking covers single-voyage portfolios; this run used sequencing.",
+          portfolios: [],
         }
-      }
-
-      evaluatedPortfolios += 1;
-      if (!bestPortfolio || total > bestPortfolio.totalProfit) {
-        bestPortfolio = { vessels: selected, assignments, totalProfit: total };
-      }
+      : buildTopkJson(rankedPortfolios, vesselsParsed, cargosParsed, pairResults);
+    // The trace is a by-product; a read-only filesystem must not fail the recommendation.
+    try {
+      const knowledgeDir = path.join(process.cwd(), "knowledge");
+      await fs.mkdir(knowledgeDir, { recursive: true });
+      await fs.writeFile(
+        path.join(knowledgeDir, "portfolio_trace.json"),
+        JSON.stringify(trace, null, 2),
+        "utf8",
+      );
+      await fs.writeFile(
+        path.join(knowledgeDir, "topk_portfolios.json"),
+        JSON.stringify(topk, null, 2),
+        "utf8",
+      );
+      await fs.writeFile(
+        path.join(knowledgeDir, "thresholds.json"),
+        JSON.stringify(
+          thresholds ?? {
+            generated_at: new Date().toISOString(),
+            note: sequencing
+              ? "Flip thresholds cover single-voyage portfolios; this run used sequencing."
+              : "No feasible portfolio to test.",
+          },
+          null,
+          2,
+        ),
+        "utf8",
+      );
+    } catch (err) {
+      console.error("Failed to write the portfolio trace, top-K or thresholds JSON:", err);
     }
 
     if (!bestPortfolio) {
       return NextResponse.json({
         reply:
-          "No feasible recommendation found for the committed/market cargos with the current inputs.",
+          "No feasible recommendation found for the committed/market cargos with the current inputs." +
+          (solverResult
+            ? ` Solver ${solverResult.status} after ${formatNumber(solverResult.nodes)} nodes; constraints: ${solverConstraints.join("; ")}.`
+            : "") +
+          ` Trace: ${traceSummary} Rejected pairs: /api/recommendation/trace.`,
       });
     }
 
     const assignedVesselIds = new Set(bestPortfolio.assignments.map((item) => item.vessel.id));
-    const unassigned = bestPortfolio.vessels.filter((vessel) => !assignedVesselIds.has(vessel.id));
+    // Own tonnage left idle; market vessels are only ever taken when used.
+    const unassigned = vesselsParsed.filter(
+      (vessel) => vessel.source === "capesize" && !assignedVesselIds.has(vessel.id),
+    );
     const assignedCargoCount = bestPortfolio.assignments.length;
     const assignedCommittedCount = bestPortfolio.assignments.filter(
       (item) => item.cargo.source === "committed",
@@ -758,12 +555,21 @@ export async function POST(req: Request) {
 
     const hireNote = `Market vessels are assumed to be chartered-in at a daily hire rate of ${formatMoney(marketHireRate)}/day, applied uniformly for fair comparison against Cargill-owned vessels.`;
     const riskNote =
-      "Legs marked [FALLBACK] rely on default distance; ETA, bunker, and profit may be materially off.";
+      "Legs marked [FALLBACK] rely on default distance and legs marked [ESTIMATE] on a great-circle estimate; ETA, bunker, and profit may be materially off.";
+    const { calibration } = distanceEstimator;
 
     const replyLines = [
       `Recommendation (${vesselPick} vessels + committed/market cargos)`,
       `Inputs: IFO ${formatMoney(bunkerPrices.ifo)}/MT, MDO ${formatMoney(bunkerPrices.mdo)}/MT, Port delay +${formatNumber(portDelayDays)} days`,
-      `Search: vessels=${totalVessels}, choose=${vesselPick}, combos=${formatNumber(vesselCombos.length)}, assignments tested=${formatNumber(evaluatedPortfolios)}, freight calcs=${formatNumber(calcCount)}`,
+      bunkerCosting === "rob_book"
+        ? `Bunker costing: ROB at book price (IFO ${formatMoney(robPrices.ifo)}/MT, MDO ${formatMoney(robPrices.mdo)}/MT), stems at market`
+        : "Bunker costing: all bunkers at market price",
+      `Consumption model: ${consumptionModel}${consumptionModel === "table" ? " (vessels without a table use linear)" : ""}`,
+      sequencing
+        ? `Search: sequencing up to ${maxVoyagesPerVessel} voyages per vessel within ${formatNumber(planningHorizonDays)} days, vessels=${totalVessels}, at most ${vesselPick} employed, states tested=${formatNumber(evaluatedPortfolios)}, freight calcs=${formatNumber(calcCount)}`
+        : `Search: vessels=${totalVessels}, branch-and-bound ${solverResult?.status ?? "skipped"}, nodes=${formatNumber(solverResult?.nodes ?? 0)}, ` +
+          `gap=${formatNumber((solverResult?.gap ?? 0) * 100)}%, freight calcs=${formatNumber(calcCount)}`,
+      ...(solverConstraints.length ? [`Constraints: ${solverConstraints.join("; ")}`] : []),
       `Cargos: committed=${committedCount}, market=${marketCount}, assigned=${assignedCargoCount} (committed ${assignedCommittedCount}, market ${assignedMarketCount})`,
       "",
       `Best total adjusted profit: ${formatMoney(bestPortfolio.totalProfit)}`,
@@ -785,23 +591,81 @@ export async function POST(req: Request) {
         const laycanStatus = item.pair.laycanEvaluation?.status ?? "unknown";
         const waitingDays =
           laycanStatus === "early" ? item.pair.laycanEvaluation?.waitingDays ?? 0 : 0;
-        const route = `${item.vessel.currentPort} -> ${item.cargo.loadPort} -> ${item.cargo.dischargePort}`;
-        const ballastMarker = item.pair.ballastDistanceKnown ? "" : " [FALLBACK]";
-        const ladenMarker = item.pair.ladenDistanceKnown ? "" : " [FALLBACK]";
+        const route = `${item.vessel.currentPort} -> ${item.pair.cargo.loadPort} -> ${item.pair.cargo.dischargePort}`;
+        const legMarker = (source: DistanceSource, via: string[]) =>
+          source === "default"
+            ? " [FALLBACK]"
+            : source === "estimate"
+              ? " [ESTIMATE]"
+              : via.length
+                ? ` (via ${via.join(", ")})`
+                : "";
+        const ballastMarker = legMarker(item.pair.distanceSource.ballast, item.pair.ballastVia);
+        const ladenMarker = legMarker(item.pair.distanceSource.laden, item.pair.ladenVia);
+        const robMarker = item.pair.robCoversBallast ? "" : " [ROB SHORT: does not reach first stem or load port]";
+        const bunkerPlan = item.pair.bunkerStops.length
+          ? item.pair.bunkerStops
+              .map(
+                (stop) =>
+                  `${stop.port} (${stop.leg}, +${formatNumber(stop.deviationNm)} nm) ${formatNumber(stop.ifoQty)} IFO / ${formatNumber(stop.mdoQty)} MDO MT for ${formatMoney(stop.cost)}`,
+              )
+              .join("; ")
+          : "no bunker call";
+        const planMarker = item.pair.bunkerPlanFeasible ? "" : " [SHORTFALL bought at market price]";
         const vesselType =
           item.vessel.source === "market"
             ? `Market charter-in vessel (assumed hire ${formatMoney(marketHireRate)}/day, chartered-in)`
             : "Cargill-owned vessel";
         return (
-            `${idx + 1}. ${item.vessel.name} -> ${item.cargo.name} (${item.cargo.source})\n` +
+            `${idx + 1}. ${item.vessel.name} -> ${item.cargo.name} (${item.cargo.source})` +
+          (item.voyage > 1 ? ` [voyage ${item.voyage}]` : "") +
+          "\n" +
           `   Vessel type: ${vesselType}\n` +
           `   Route: ${route}\n` +
+          (item.pair.portOption.combinationsEvaluated > 1
+            ? `   Port option: ${item.pair.portOption.isBase ? "base ports" : "alternative ports"} ` +
+              `(${describePortOptionRule(item.pair.portOption.rule)}, ` +
+              `${formatMoney(item.pair.portOption.freightRate)}/MT, ` +
+              `${item.pair.portOption.combinationsEvaluated} combinations)\n`
+            : "") +
+          `   Open: ${item.pair.openPort} on ${item.pair.openDate.toISOString().slice(0, 10)}\n` +
           `   Distance: Ballast ${formatNumber(item.pair.ballastNm)} nm${ballastMarker} | ` +
           `Laden ${formatNumber(item.pair.ladenNm)} nm${ladenMarker}\n` +
+          `   Sea route: ballast ${item.pair.ballastRouteVariant.name} | laden ${item.pair.ladenRouteVariant.name}` +
+          (item.pair.canalDues > 0
+            ? ` | Canal dues ${formatMoney(item.pair.canalDues)}, transit ${formatNumber(item.pair.canalDays)} d`
+            : "") +
+          "\n" +
           `   Qty: ${formatNumber(item.pair.cargoQty)} MT | TCE: ${formatMoney(item.pair.tce)}/day\n` +
-          `   Profit: ${formatMoney(item.pair.profit)} | Waiting: ${formatMoney(item.pair.waitingCost)} | Adjusted: ${formatMoney(item.pair.adjustedProfit)}\n` +
-          `   Laycan: ${item.cargo.laycanLabel || "--"} | Status: ${laycanStatus} | Waiting days: ${formatNumber(waitingDays)}\n` +
-          `   Speed blend: ballast ${item.pair.speedBlend.ballast}, laden ${item.pair.speedBlend.laden}`
+          `   Intake: max ${formatNumber(item.pair.intake.maxCargoQty)} MT, ${item.pair.intake.zone} zone, ` +
+          `binding ${item.pair.intake.binding.replace("_", " ")} (${item.pair.intake.reason}) | ` +
+          `less bunkers ${formatNumber(item.pair.intake.deductions.bunkers)}, constant ${formatNumber(item.pair.intake.deductions.constant)}, ` +
+          `fresh water ${formatNumber(item.pair.intake.deductions.freshWater)} MT | ` +
+          `${item.pair.cargoFeasibility.limitedBy}-limited, ${formatNumber(item.pair.cargoFeasibility.volumeM3)} m3 of ${formatNumber(item.vessel.data.grainCapacity)} m3 grain` +
+          (item.pair.cargoFeasibility.capacityEstimated ? " (estimated from DWT)" : "") +
+          "\n" +
+          `   Freight: ${formatMoney(item.pair.freightGross)} gross, effective ${formatMoney(item.pair.effectiveFreightRate)}/MT` +
+          (item.pair.overageQty > 0 ? ` | ${formatNumber(item.pair.overageQty)} MT at reduced rate` : "") +
+          (item.pair.deadfreight > 0 ? ` | Deadfreight ${formatMoney(item.pair.deadfreight)}` : "") +
+          "\n" +
+          `   Profit: ${formatMoney(item.pair.profit)} | Waiting: ${formatMoney(item.pair.waitingCost)} | ` +
+          (item.pair.laycanRiskCost > 0 ? `Laycan risk: ${formatMoney(item.pair.laycanRiskCost)} | ` : "") +
+          `Adjusted: ${formatMoney(item.pair.adjustedProfit)}\n` +
+          `   Laycan: ${item.cargo.laycanLabel || "--"} | Status: ${laycanStatus} | Waiting days: ${formatNumber(waitingDays)} | ` +
+          `ETA ${formatZonedDateTime(item.pair.laycanEvaluation?.eta, item.cargo.laycanWindow?.timeZone)} ` +
+          `(${formatNumber(item.pair.laycanEvaluation?.hoursToCancelling ?? 0)} h before cancelling) | ` +
+          `Min ballast speed ${formatNumber(item.pair.requiredBallastSpeed)} kn | Strategy: ${item.pair.laycanStrategy.replace("_", " ")} | ` +
+          `Miss probability ${formatNumber(item.pair.laycanMissProbability * 100)}%\n` +
+          `   Bunkers: ROB used ${formatNumber(item.pair.robIfoUsed)} IFO / ${formatNumber(item.pair.robMdoUsed)} MDO MT (${formatMoney(item.pair.robBunkerCost)}) | ` +
+          `Purchase ${formatNumber(item.pair.ifoToPurchase)} IFO / ${formatNumber(item.pair.mdoToPurchase)} MDO MT (${formatMoney(item.pair.purchasedBunkerCost)})${robMarker}\n` +
+          `   Bunker plan: ${bunkerPlan}${planMarker}\n` +
+          `   Laytime: load ${formatNumber(item.pair.laytime.load.usedDays)}/${formatNumber(item.pair.laytime.load.allowedDays)} d, ` +
+          `discharge ${formatNumber(item.pair.laytime.discharge.usedDays)}/${formatNumber(item.pair.laytime.discharge.allowedDays)} d (used/allowed) | ` +
+          (item.pair.laytime.missingTerms.includes("demurrage rate")
+            ? "not settled (no demurrage rate in charter party)\n"
+            : `Demurrage ${formatMoney(item.pair.demurrage)} | Despatch ${formatMoney(item.pair.despatch)}\n`) +
+          `   Speed: ballast ${formatNumber(item.pair.speedKnots.ballast)} kn, laden ${formatNumber(item.pair.speedKnots.laden)} kn ` +
+          `(blend ${formatNumber(item.pair.speedBlend.ballast)} / ${formatNumber(item.pair.speedBlend.laden)})`
         );
       }),
       "",
@@ -809,8 +673,45 @@ export async function POST(req: Request) {
         ? `Decision: not assigning vessel(s): ${unassigned.map((vessel) => vessel.name).join(", ")}`
         : "Decision: not assigning vessel(s): NONE",
       "",
-      `Notes: Distances fallback to ${formatNumber(defaultDistanceNm)} nm if missing from port_distances.csv.`,
+      `Notes: Port pairs missing from port_distances.csv are routed through intermediate ports; legs the table cannot connect are estimated as great-circle x ${formatNumber(distanceEstimator.detourFactor)} ` +
+        `(calibrated on ${calibration.pairCount} table pairs, mean error ${formatNumber(calibration.meanAbsErrorPct)}%, max ${formatNumber(calibration.maxAbsErrorPct)}%) ` +
+        `when both ports have coordinates, otherwise fall back to ${formatNumber(defaultDistanceNm)} nm.`,
       `Risk note: ${riskNote}`,
+      "",
+      "Market cargo break-even freight (minimum $/MT that beats leaving the vessel idle):",
+      ...breakEvenRates.map((item) =>
+        item.breakEvenRate === null
+          ? `- ${item.cargoName}: no feasible vessel`
+          : `- ${item.cargoName}: break-even ${formatMoney(item.breakEvenRate)}/MT with ${item.breakEvenVessel} | ` +
+            `assumed ${formatMoney(item.freightRate)}/MT (${item.freightRateSource}) | margin ${formatMoney(item.margin)}/MT`,
+      ),
+      "",
+      "Excluded cargos (unreadable laycan):",
+      ...(laycanExclusions.length
+        ? laycanExclusions.map((item) => `- ${item.cargoName}: ${item.reason}`)
+        : ["- NONE"]),
+      "",
+      `Laycan risk: ${laycanRisk.mode} (ETD ±${formatNumber(laycanRisk.etdStdHours)} h, ballast speed ±${formatNumber(laycanRisk.ballastSpeedStdPct)}%` +
+        (laycanRisk.mode === "reject"
+          ? `, max miss ${formatNumber(laycanRisk.maxMissProbability * 100)}%)`
+          : ")"),
+      ...(laycanRisk.mode === "reject"
+        ? laycanRiskRejections.length
+          ? laycanRiskRejections.map(
+              (item) =>
+                `- Rejected ${item.vesselName} -> ${item.cargoName}: ${formatNumber(item.missProbability * 100)}% miss at full speed`,
+            )
+          : ["- No pairs rejected"]
+        : []),
+      "",
+      `Avoided chokepoints: ${avoidChokepoints.length ? avoidChokepoints.map((point) => chokepointLabels[point]).join(", ") : "NONE"}`,
+      ...routeExclusions.map(
+        (item) =>
+          `- Dropped ${item.vesselName} -> ${item.cargoName}: every ${item.leg} route is blocked (${item.blocked.join("; ")})`,
+      ),
+      "",
+      `Trace: ${traceSummary} (input hash ${inputHash.slice(0, 12)})`,
+      `Data validation: ${validation.summary.errors} error(s), ${validation.summary.warnings} warning(s), ${validation.summary.rowsWithFallbacks} row(s) using default values.`,
     ];
 
     const data = {
@@ -819,17 +720,22 @@ export async function POST(req: Request) {
         vesselCount: vesselPick,
         cargoCount: assignedCargoCount,
       },
-      inputs: {
-        ifoPrice: bunkerPrices.ifo,
-        mdoPrice: bunkerPrices.mdo,
-        portDelayDays,
-        marketHireRate,
-      },
+      inputs,
+      trace: { inputHash, summary: traceSummary, funnel },
       search: {
         totalVessels,
         vesselPick,
-        combos: vesselCombos.length,
-        assignmentsTested: evaluatedPortfolios,
+        statesTested: sequencing ? evaluatedPortfolios : null,
+        solver: solverResult
+          ? {
+              status: solverResult.status,
+              nodes: solverResult.nodes,
+              objective: solverResult.objective,
+              bound: solverResult.bound,
+              gap: solverResult.gap,
+              constraints: solverConstraints,
+            }
+          : null,
         freightCalcs: calcCount,
       },
       selectedVessels: bestPortfolio.vessels.map((vessel) => ({
@@ -843,9 +749,10 @@ export async function POST(req: Request) {
         const laycanStatus = item.pair.laycanEvaluation?.status ?? "unknown";
         const waitingDays =
           laycanStatus === "early" ? item.pair.laycanEvaluation?.waitingDays ?? 0 : 0;
-        const route = `${item.vessel.currentPort} -> ${item.cargo.loadPort} -> ${item.cargo.dischargePort}`;
+        const route = `${item.vessel.currentPort} -> ${item.pair.cargo.loadPort} -> ${item.pair.cargo.dischargePort}`;
         return {
           index: idx + 1,
+          voyage: item.voyage,
           vesselName: item.vessel.name,
           vesselLabel:
             item.vessel.source === "market" ? "Market charter-in vessel" : "Cargill-owned vessel",
@@ -854,31 +761,97 @@ export async function POST(req: Request) {
           cargoName: item.cargo.name,
           cargoSource: item.cargo.source,
           route,
+          portOption: item.pair.portOption,
+          openPort: item.pair.openPort,
+          openDate: item.pair.openDate.toISOString(),
           cargoQty: item.pair.cargoQty,
+          intake: item.pair.intake,
+          cargoFeasibility: item.pair.cargoFeasibility,
+          freight: {
+            gross: item.pair.freightGross,
+            effectiveRate: item.pair.effectiveFreightRate,
+            overageQty: item.pair.overageQty,
+            deadfreight: item.pair.deadfreight,
+          },
           tce: item.pair.tce,
           profit: item.pair.profit,
           waitingCost: item.pair.waitingCost,
           adjustedProfit: item.pair.adjustedProfit,
           laycanLabel: item.cargo.laycanLabel || "--",
           laycanStatus,
+          laycanTimeZone: item.cargo.laycanWindow?.timeZone ?? "UTC",
+          laycanConfidence: item.cargo.laycanParse.confidence,
+          laycanNotes: item.cargo.laycanParse.notes,
+          eta: item.pair.laycanEvaluation?.eta.toISOString() ?? null,
+          etaLocal: formatZonedDateTime(
+            item.pair.laycanEvaluation?.eta,
+            item.cargo.laycanWindow?.timeZone,
+          ),
+          hoursToOpening: item.pair.laycanEvaluation?.hoursToOpening ?? null,
+          hoursToCancelling: item.pair.laycanEvaluation?.hoursToCancelling ?? null,
+          laycanStrategy: item.pair.laycanStrategy,
+          requiredBallastSpeed: item.pair.requiredBallastSpeed,
+          laycanMissProbability: item.pair.laycanMissProbability,
+          laycanRiskCost: item.pair.laycanRiskCost,
           waitingDays,
           speedBlend: item.pair.speedBlend,
+          speedKnots: item.pair.speedKnots,
+          bunkers: {
+            robIfoUsed: item.pair.robIfoUsed,
+            robMdoUsed: item.pair.robMdoUsed,
+            ifoToPurchase: item.pair.ifoToPurchase,
+            mdoToPurchase: item.pair.mdoToPurchase,
+            robAtCompletion: item.pair.robAtCompletion,
+            robBunkerCost: item.pair.robBunkerCost,
+            purchasedBunkerCost: item.pair.purchasedBunkerCost,
+            robCoversBallast: item.pair.robCoversBallast,
+            stops: item.pair.bunkerStops,
+            deviationDays: item.pair.bunkerDeviationDays,
+            portCost: item.pair.bunkerPortCost,
+            planFeasible: item.pair.bunkerPlanFeasible,
+          },
+          laytime: {
+            loadAllowedDays: item.pair.laytime.load.allowedDays,
+            loadUsedDays: item.pair.laytime.load.usedDays,
+            dischargeAllowedDays: item.pair.laytime.discharge.allowedDays,
+            dischargeUsedDays: item.pair.laytime.discharge.usedDays,
+            demurrage: item.pair.demurrage,
+            despatch: item.pair.despatch,
+            missingTerms: item.pair.laytime.missingTerms,
+          },
           distances: {
             ballastNm: item.pair.ballastNm,
             ladenNm: item.pair.ladenNm,
-            ballastFallback: !item.pair.ballastDistanceKnown,
-            ladenFallback: !item.pair.ladenDistanceKnown,
+            ballastSource: item.pair.distanceSource.ballast,
+            ladenSource: item.pair.distanceSource.laden,
+            ballastVia: item.pair.ballastVia,
+            ladenVia: item.pair.ladenVia,
+          },
+          routeVariants: {
+            ballast: item.pair.ballastRouteVariant,
+            laden: item.pair.ladenRouteVariant,
+            canalDues: item.pair.canalDues,
+            canalDays: item.pair.canalDays,
           },
         };
       }),
+      breakEvenRates,
+      laycanExclusions,
+      laycanRiskRejections,
+      routeExclusions,
       decision: {
         unassigned: unassigned.map((vessel) => vessel.name),
       },
       notes: {
         distanceFallbackNm: defaultDistanceNm,
+        distanceEstimate: {
+          detourFactor: distanceEstimator.detourFactor,
+          ...calibration,
+        },
         hireNote,
         riskNote,
       },
+      validation,
     };
 
     return NextResponse.json({ reply: replyLines.join("\n"), data });
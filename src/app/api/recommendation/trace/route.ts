@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+
+export const runtime = "nodejs";
+
+// GET /api/recommendation/trace returns the audit of the last POST /api/recommendation run:
+// filter funnel, rejected pairs by reason, feasible pairs, solver metadata and input hash.
+export async function GET() {
+  try {
+    const tracePath = path.join(process.cwd(), "knowledge", "portfolio_trace.json");
+    const text = await fs.readFile(tracePath, "utf8").catch(() => null);
+    if (text === null) {
+      return NextResponse.json(
+        { error: "No trace yet; run POST /api/recommendation first." },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(JSON.parse(text));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
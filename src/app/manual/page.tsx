@@ -1,52 +1,53 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { calculateFreight, exampleInputs, type FreightInputs } from "../../calculator/freightCalculator";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import {
+  getBunkerCandidates,
+  planBunkerStops,
+  type BunkerPortQuote,
+} from "../../calculator/bunkerPlanner";
+import {
+  calculateFreight,
+  exampleInputs,
+  type BunkerCosting,
+  type FreightInputs,
+} from "../../calculator/freightCalculator";
 import {
   evaluateLaycan,
+  formatZonedDateTime,
+  getRequiredBallastSpeed,
+  getWaitingCost,
   parseDateInput,
-  parseLaycanRange,
   type LaycanEvaluation,
-  type LaycanWindow,
 } from "../../calculator/laycan";
-import {
-  getQuantityRangeFeasibility,
-  getWeightFeasibility,
-  type QuantityRange,
-} from "../../calculator/weight";
+import { getCargoFeasibility, getQuantityRangeFeasibility } from "../../calculator/weight";
 import {
   defaultDistanceNm,
-  extractPortFromStatus,
   getDistance,
-  parseDistanceCsv,
-  resolvePortName,
+  getLegDistance,
+  type DistanceEstimator,
 } from "../../calculator/portDistances";
-
-type CsvRow = Record<string, string>;
-
-type VesselOption = {
-  id: string;
-  name: string;
-  source: "capesize" | "market";
-  currentPort: string;
-  etdDate: string;
-  raw: CsvRow;
-  data: FreightInputs["vessel"];
-};
-
-type CargoOption = {
-  id: string;
-  name: string;
-  source: "committed" | "market";
-  raw: CsvRow;
-  data: FreightInputs["cargo"];
-  quantityRange: QuantityRange | null;
-  loadPort: string;
-  dischargePort: string;
-  portCosts: { load: number; discharge: number };
-  laycanWindow: LaycanWindow | null;
-  laycanLabel: string;
-};
+import {
+  chokepointLabels,
+  filterRouteVariants,
+  getRouteVariants,
+  selectRouteVariants,
+  type Chokepoint,
+  type RouteVariant,
+  type SeaRoutes,
+} from "../../calculator/routeVariants";
+import {
+  loadBusinessData,
+  type CargoOption,
+  type VesselOption,
+} from "../../calculator/businessData";
+import type { ValidationReport } from "../../calculator/dataSchema";
+import type { ConsumptionModel } from "../../calculator/speed";
+import {
+  clampSpeedBlend,
+  getBlendBounds,
+  optimizeSpeed,
+} from "../../calculator/speedOptimizer";
 
 const formatMoney = (value: number) =>
   value.toLocaleString("en-US", {
@@ -69,60 +70,6 @@ const formatDateLabel = (value?: string) => {
   });
 };
 
-const parseCsv = (text: string): CsvRow[] => {
-  const rows: string[][] = [];
-  let current = "";
-  let row: string[] = [];
-  let inQuotes = false;
-
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    const next = text[i + 1];
-    if (char === "\"") {
-      if (inQuotes && next === "\"") {
-        current += "\"";
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-      continue;
-    }
-    if (char === "," && !inQuotes) {
-      row.push(current);
-      current = "";
-      continue;
-    }
-    if ((char === "\n" || char === "\r") && !inQuotes) {
-      if (char === "\r" && next === "\n") i += 1;
-      row.push(current);
-      current = "";
-      if (row.some((cell) => cell.trim().length > 0)) {
-        rows.push(row);
-      }
-      row = [];
-      continue;
-    }
-    current += char;
-  }
-
-  if (current.length > 0 || row.length > 0) {
-    row.push(current);
-    if (row.some((cell) => cell.trim().length > 0)) {
-      rows.push(row);
-    }
-  }
-
-  if (rows.length === 0) return [];
-  const headers = rows[0].map((header) => header.trim());
-  return rows.slice(1).map((cells) => {
-    const record: CsvRow = {};
-    headers.forEach((header, index) => {
-      record[header] = (cells[index] ?? "").trim();
-    });
-    return record;
-  });
-};
-
 const fetchCsv = async (path: string) => {
   const response = await fetch(path);
   if (!response.ok) {
@@ -131,131 +78,33 @@ const fetchCsv = async (path: string) => {
   return response.text();
 };
 
-const toNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const cleaned = value.replace(/[^0-9.-]/g, "");
-  const parsed = Number.parseFloat(cleaned);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
-
-const parseFirstNumber = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d,.]+/);
-  return match ? toNumber(match[0], fallback) : fallback;
-};
-
-const parseQuantityRange = (
-  value: string | undefined | null,
-  fallbackQty: number,
-): { baseQty: number; range: QuantityRange | null } => {
-  if (!value) return { baseQty: fallbackQty, range: null };
-  const baseQty = parseFirstNumber(value, fallbackQty);
-  const percentMatch = value.match(/([\d.]+)\s*%/);
-  if (percentMatch) {
-    const pct = Number.parseFloat(percentMatch[1]);
-    if (Number.isFinite(pct) && baseQty > 0) {
-      const min = baseQty * (1 - pct / 100);
-      const max = baseQty * (1 + pct / 100);
-      return {
-        baseQty,
-        range: {
-          min,
-          max,
-          label: `${formatNumber(min)} - ${formatNumber(max)} MT`,
-        },
-      };
-    }
-  }
-  const rangeMatch = value.match(/([\d,.]+)\s*(?:-|to)\s*([\d,.]+)/i);
-  if (rangeMatch) {
-    const first = toNumber(rangeMatch[1], baseQty);
-    const second = toNumber(rangeMatch[2], baseQty);
-    const min = Math.min(first, second);
-    const max = Math.max(first, second);
-    return {
-      baseQty,
-      range: {
-        min,
-        max,
-        label: `${formatNumber(min)} - ${formatNumber(max)} MT`,
-      },
-    };
-  }
-  return { baseQty, range: null };
-};
-
-const parsePercent = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/[\d.]+/);
-  if (!match) return fallback;
-  const parsed = Number.parseFloat(match[0]);
-  return Number.isFinite(parsed) ? parsed / 100 : fallback;
-};
-
-const parseTurnTimeDays = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d.]+)\s*hr/i);
-  if (!match) return fallback;
-  const hours = Number.parseFloat(match[1]);
-  if (!Number.isFinite(hours)) return fallback;
-  return hours / 24;
-};
-
-const parseRateFromTerms = (value: string | undefined | null, fallback = 0) => {
-  if (!value) return fallback;
-  const match = value.match(/([\d,.]+)\s*MT/i);
-  if (!match) return fallback;
-  return toNumber(match[1], fallback);
-};
-
-const parsePortCosts = (
-  value: string | undefined | null,
-  fallbackLoad: number,
-  fallbackDischarge: number,
-) => {
-  if (!value) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-  const amounts = Array.from(value.matchAll(/([\d.]+)\s*([KM])?/gi)).map((match) => {
-    const base = Number.parseFloat(match[1]);
-    if (!Number.isFinite(base)) return 0;
-    const multiplier = match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
-    return base * multiplier;
-  });
-
-  if (amounts.length === 0) {
-    return { load: fallbackLoad, discharge: fallbackDischarge };
-  }
-
-  const lower = value.toLowerCase();
-  if (amounts.length >= 2 && lower.includes("load") && lower.includes("discharge")) {
-    return { load: amounts[0], discharge: amounts[1] };
-  }
-
-  if (lower.includes("total")) {
-    const total = amounts[0];
-    return { load: total / 2, discharge: total / 2 };
-  }
-
-  if (amounts.length === 1) {
-    return { load: amounts[0], discharge: fallbackDischarge };
-  }
-
-  return { load: amounts[0], discharge: amounts[1] ?? fallbackDischarge };
-};
-
 export default function ManualCalculationPage() {
   const todayIso = useMemo(() => new Date().toISOString().slice(0, 10), []);
   const [vessels, setVessels] = useState<VesselOption[]>([]);
   const [cargos, setCargos] = useState<CargoOption[]>([]);
   const [ports, setPorts] = useState<string[]>([]);
+  const [bunkerPorts, setBunkerPorts] = useState<BunkerPortQuote[]>([]);
   const [distanceMap, setDistanceMap] = useState<Record<string, Record<string, number>>>({});
+  const [distanceEstimator, setDistanceEstimator] = useState<DistanceEstimator | undefined>();
+  const [seaRoutes, setSeaRoutes] = useState<SeaRoutes | null>(null);
   const [bunkerPrices, setBunkerPrices] = useState({
     ifo: exampleInputs.costs.ifoPrice,
     mdo: exampleInputs.costs.mdoPrice,
   });
+  const [robPrices, setRobPrices] = useState({
+    ifo: exampleInputs.costs.robIfoPrice,
+    mdo: exampleInputs.costs.robMdoPrice,
+  });
+  const [consumptionModel, setConsumptionModel] = useState<ConsumptionModel>(
+    exampleInputs.options.consumptionModel,
+  );
+  const [bunkerCosting, setBunkerCosting] = useState<BunkerCosting>(
+    exampleInputs.options.bunkerCosting,
+  );
   const [portDelayDays, setPortDelayDays] = useState<number>(0);
+  const [avoidChokepoints, setAvoidChokepoints] = useState<Chokepoint[]>([]);
   const [loadError, setLoadError] = useState<string>("");
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
   const [voyages, setVoyages] = useState<
     Array<{
       id: string;
@@ -266,6 +115,7 @@ export default function ManualCalculationPage() {
       departureDate: string;
       result?: ReturnType<typeof calculateFreight>;
       laycanEvaluation?: LaycanEvaluation;
+      requiredBallastSpeed?: number;
       waitingCost?: number;
       adjustedProfit?: number;
       weightIssue?: string;
@@ -273,174 +123,29 @@ export default function ManualCalculationPage() {
         bunkerPrices: { ifo: number; mdo: number };
         portDelayDays: number;
       };
+      routeLegs?: { ballast: RouteVariant; laden: RouteVariant };
     }>
   >([]);
 
   useEffect(() => {
     let isMounted = true;
-    const loadCsvs = async () => {
-      const [capesizeText, marketVesselsText, committedText, marketCargosText, distancesText] =
-        await Promise.all([
-          fetchCsv("/business_data/vessels/capesize_vessels.csv"),
-          fetchCsv("/business_data/vessels/market_vessels.csv"),
-          fetchCsv("/business_data/cargos/committed_cargos.csv"),
-          fetchCsv("/business_data/cargos/market_cargos.csv"),
-          fetchCsv("/business_data/port_data/port_distances.csv"),
-        ]);
-      return [
-        capesizeText,
-        marketVesselsText,
-        committedText,
-        marketCargosText,
-        distancesText,
-      ] as const;
-    };
-
-    loadCsvs()
-      .then(([capesizeText, marketVesselsText, committedText, marketCargosText, distancesText]) => {
+    loadBusinessData((file) => fetchCsv(`/business_data/${file}`))
+      .then((businessData) => {
         if (!isMounted) return;
+        const {
+          vessels: vesselsParsed,
+          cargos: cargosParsed,
+          distances: parsedDistances,
+          validation,
+        } = businessData;
         setLoadError("");
-        const parsedDistances = parseDistanceCsv(distancesText);
+        setValidation(validation);
+        setBunkerPorts(businessData.bunkerPorts);
         setDistanceMap(parsedDistances.distanceMap);
+        setDistanceEstimator(businessData.distanceEstimator);
+        setSeaRoutes(businessData.seaRoutes);
         setPorts(parsedDistances.ports);
-
-        const capesizeRows = parseCsv(capesizeText);
-        const marketRows = parseCsv(marketVesselsText);
-        const vesselsParsed = [...capesizeRows, ...marketRows].map((row, index) => {
-          const source = index < capesizeRows.length ? "capesize" : "market";
-          const name = row.vessel_name || `Vessel ${index + 1}`;
-          const dwt = toNumber(row.dwt_mt, exampleInputs.vessel.dwt);
-          const ecoLaden = toNumber(row.economical_speed_laden_kn, exampleInputs.vessel.speed.laden);
-          const ecoBallast = toNumber(row.economical_speed_ballast_kn, exampleInputs.vessel.speed.ballast);
-          const ecoLadenVlsfo = toNumber(row.economical_speed_laden_vlsfo_mt, exampleInputs.vessel.consumption.laden.ifo);
-          const ecoBallastVlsfo = toNumber(
-            row.economical_speed_ballast_vlsfo_mt,
-            exampleInputs.vessel.consumption.ballast.ifo,
-          );
-          const ecoLadenMgo = toNumber(row.economical_speed_laden_mgo_mt, exampleInputs.vessel.consumption.laden.mdo);
-          const ecoBallastMgo = toNumber(
-            row.economical_speed_ballast_mgo_mt,
-            exampleInputs.vessel.consumption.ballast.mdo,
-          );
-          const warrantedLaden = toNumber(
-            row.warranted_speed_laden_kn,
-            exampleInputs.vessel.speedWarranted.laden,
-          );
-          const warrantedBallast = toNumber(
-            row.warranted_speed_ballast_kn,
-            exampleInputs.vessel.speedWarranted.ballast,
-          );
-          const warrantedLadenVlsfo = toNumber(
-            row.warranted_speed_laden_vlsf_mt,
-            exampleInputs.vessel.consumptionWarranted.laden.ifo,
-          );
-          const warrantedBallastVlsfo = toNumber(
-            row.warranted_speed_ballast_vlsf_mt,
-            exampleInputs.vessel.consumptionWarranted.ballast.ifo,
-          );
-          const warrantedLadenMgo = toNumber(
-            row.warranted_speed_laden_mgo_mt,
-            exampleInputs.vessel.consumptionWarranted.laden.mdo,
-          );
-          const warrantedBallastMgo = toNumber(
-            row.warranted_speed_ballast_mgo_mt,
-            exampleInputs.vessel.consumptionWarranted.ballast.mdo,
-          );
-
-          const portIdle = toNumber(
-            row.port_consumption_idle_vlsfo_mt_day,
-            exampleInputs.vessel.portConsumption.idle.ifo,
-          );
-          const portWorking = toNumber(
-            row.port_consumption_working_vlsfo_mt_day,
-            exampleInputs.vessel.portConsumption.working.ifo,
-          );
-
-          const currentPortRaw = extractPortFromStatus(row.position_status ?? "");
-          const currentPort = resolvePortName(currentPortRaw, parsedDistances.ports);
-          const etdDate = (row.etd_date ?? "").trim();
-
-          return {
-            id: `${source}-${index}`,
-            name,
-            source,
-            currentPort: currentPort || currentPortRaw || "UNKNOWN",
-            etdDate,
-            raw: row,
-            data: {
-              dwt,
-              grainCapacity: dwt,
-              speed: { ballast: ecoBallast, laden: ecoLaden },
-              speedWarranted: { ballast: warrantedBallast, laden: warrantedLaden },
-              consumption: {
-                ballast: { ifo: ecoBallastVlsfo, mdo: ecoBallastMgo },
-                laden: { ifo: ecoLadenVlsfo, mdo: ecoLadenMgo },
-              },
-              consumptionWarranted: {
-                ballast: { ifo: warrantedBallastVlsfo, mdo: warrantedBallastMgo },
-                laden: { ifo: warrantedLadenVlsfo, mdo: warrantedLadenMgo },
-              },
-              portConsumption: {
-                working: { ifo: portWorking, mdo: exampleInputs.vessel.portConsumption.working.mdo },
-                idle: { ifo: portIdle, mdo: exampleInputs.vessel.portConsumption.idle.mdo },
-              },
-              dailyHire: toNumber(row.hire_rate_usd_day, exampleInputs.vessel.dailyHire),
-              adComsPct: exampleInputs.vessel.adComsPct,
-            },
-          } satisfies VesselOption;
-        });
         setVessels(vesselsParsed);
-
-        const committedRows = parseCsv(committedText);
-        const marketCargoRows = parseCsv(marketCargosText);
-        const baseCosts = exampleInputs.costs;
-        const cargosParsed = [...committedRows, ...marketCargoRows].map((row, index) => {
-          const source = index < committedRows.length ? "committed" : "market";
-          const name = row.route || row.customer || `Cargo ${index + 1}`;
-          const { baseQty, range: quantityRange } = parseQuantityRange(
-            row.quantity,
-            exampleInputs.cargo.cargoQty,
-          );
-          const freightRate = toNumber(row.freight_rate ?? "", exampleInputs.cargo.freightRate);
-          const loadRate = parseRateFromTerms(row.loading_terms ?? "", exampleInputs.cargo.loadRate);
-          const dischargeRate = parseRateFromTerms(row.discharge_terms ?? "", exampleInputs.cargo.dischargeRate);
-          const loadportTT = parseTurnTimeDays(row.loading_terms ?? "", exampleInputs.cargo.loadportTT);
-          const disportTT = parseTurnTimeDays(row.discharge_terms ?? "", exampleInputs.cargo.disportTT);
-          const commissionPct = parsePercent(row.commission ?? "", 0);
-          const commissionIsBroker = (row.commission ?? "").toLowerCase().includes("broker");
-          const loadPortRaw = row.load_port ?? "";
-          const dischargePortRaw = row.discharge_port ?? "";
-          const loadPort = resolvePortName(loadPortRaw, parsedDistances.ports);
-          const dischargePort = resolvePortName(dischargePortRaw, parsedDistances.ports);
-          const portCosts = parsePortCosts(row.port_cost ?? "", baseCosts.portDisbLoad, baseCosts.portDisbDis);
-          const laycanLabel = row.laycan ?? "";
-          const laycanWindow = parseLaycanRange(laycanLabel);
-
-          return {
-            id: `${source}-${index}`,
-            name,
-            source,
-            raw: row,
-            quantityRange,
-            loadPort: loadPort || loadPortRaw || "UNKNOWN",
-            dischargePort: dischargePort || dischargePortRaw || "UNKNOWN",
-            portCosts,
-            laycanLabel,
-            laycanWindow,
-            data: {
-              ...exampleInputs.cargo,
-              cargoQty: baseQty,
-              freightRate,
-              loadRate,
-              dischargeRate,
-              loadportTT,
-              disportTT,
-              portIdleDays: exampleInputs.cargo.portIdleDays,
-              addressComsPct: commissionIsBroker ? 0 : commissionPct,
-              brokerComsPct: commissionIsBroker ? commissionPct : 0,
-            },
-          } satisfies CargoOption;
-        });
         setCargos(cargosParsed);
         setVoyages((prev) => {
           if (prev.length > 0) return prev;
@@ -452,7 +157,7 @@ export default function ManualCalculationPage() {
               cargoId: cargosParsed[0].id,
               cargoQty: cargosParsed[0].data.cargoQty,
               speedBlend: { ballast: 0.5, laden: 0.75 },
-              departureDate: todayIso,
+              departureDate: `${todayIso}T00:00`,
             },
           ];
         });
@@ -462,7 +167,11 @@ export default function ManualCalculationPage() {
         setVessels([]);
         setCargos([]);
         setPorts([]);
+        setBunkerPorts([]);
         setDistanceMap({});
+        setDistanceEstimator(undefined);
+        setSeaRoutes(null);
+        setValidation(null);
         const message =
           error instanceof Error
             ? error.message
@@ -475,6 +184,11 @@ export default function ManualCalculationPage() {
     };
   }, []);
 
+  const getLegNm = (from: string, to: string) =>
+    getDistance(distanceMap, from, to, distanceEstimator);
+
+  // Undefined when the vessel or cargo is missing, or every sea route on a leg passes an
+  // avoided chokepoint.
   const getVoyageInputs = (voyage: {
     vesselId: string;
     cargoId: string;
@@ -483,43 +197,130 @@ export default function ManualCalculationPage() {
   }) => {
     const vessel = vessels.find((item) => item.id === voyage.vesselId);
     const cargo = cargos.find((item) => item.id === voyage.cargoId);
-    if (!vessel || !cargo) return undefined;
-    const ballastNm = getDistance(distanceMap, vessel.currentPort, cargo.loadPort);
-    const ladenNm = getDistance(distanceMap, cargo.loadPort, cargo.dischargePort);
+    if (!vessel || !cargo || !seaRoutes) return undefined;
+    const ballastLeg = getLegDistance(
+      distanceMap,
+      vessel.currentPort,
+      cargo.loadPort,
+      distanceEstimator,
+    );
+    const ladenLeg = getLegDistance(
+      distanceMap,
+      cargo.loadPort,
+      cargo.dischargePort,
+      distanceEstimator,
+    );
+    const baseBallastNm = ballastLeg.distanceNm;
+    const baseLadenNm = ladenLeg.distanceNm;
     const cargoData: FreightInputs["cargo"] = {
       ...cargo.data,
       cargoQty: voyage.cargoQty,
       portIdleDays: cargo.data.portIdleDays + portDelayDays,
     };
-    return {
+    const baseInputs = {
       vessel: vessel.data,
       cargo: cargoData,
-      distances: { ballastNm, ladenNm },
+      distances: { ballastNm: baseBallastNm, ladenNm: baseLadenNm },
       costs: {
         ...exampleInputs.costs,
         ifoPrice: bunkerPrices.ifo,
         mdoPrice: bunkerPrices.mdo,
+        robIfoPrice: robPrices.ifo,
+        robMdoPrice: robPrices.mdo,
         portDisbLoad: cargo.portCosts.load,
         portDisbDis: cargo.portCosts.discharge,
       },
-      options: { bunkerDays: exampleInputs.options.bunkerDays, speedBlend: voyage.speedBlend },
+      options: {
+        bunkerDays: exampleInputs.options.bunkerDays,
+        speedBlend: clampSpeedBlend(vessel.data, voyage.speedBlend, consumptionModel),
+        bunkerCosting,
+        consumptionModel,
+      },
     } satisfies FreightInputs;
+    // Cheapest allowed route variant per leg, at the voyage's own quantity and speeds.
+    const withRoute = (legs: { ballast: RouteVariant; laden: RouteVariant }) =>
+      ({
+        ...baseInputs,
+        distances: { ballastNm: legs.ballast.distanceNm, ladenNm: legs.laden.distanceNm },
+        canals: {
+          ballastDays: legs.ballast.transitDays,
+          ladenDays: legs.laden.transitDays,
+          dues: legs.ballast.dues + legs.laden.dues,
+        },
+      }) satisfies FreightInputs;
+    const routeLegs = selectRouteVariants(
+      filterRouteVariants(
+        getRouteVariants(seaRoutes, vessel.currentPort, cargo.loadPort, ballastLeg, "ballast"),
+        avoidChokepoints,
+      ),
+      filterRouteVariants(
+        getRouteVariants(seaRoutes, cargo.loadPort, cargo.dischargePort, ladenLeg, "laden"),
+        avoidChokepoints,
+      ),
+      (legs) => calculateFreight(withRoute(legs)).profit,
+    );
+    if (!routeLegs) return undefined;
+    const inputs = withRoute(routeLegs);
+    const { stops } = planBunkerStops(inputs, [
+      ...getBunkerCandidates(
+        bunkerPorts,
+        "ballast",
+        vessel.currentPort,
+        cargo.loadPort,
+        distanceMap,
+        distanceEstimator,
+        bunkerPrices,
+      ),
+      ...getBunkerCandidates(
+        bunkerPorts,
+        "laden",
+        cargo.loadPort,
+        cargo.dischargePort,
+        distanceMap,
+        distanceEstimator,
+        bunkerPrices,
+      ),
+    ]);
+    return {
+      inputs: { ...inputs, options: { ...inputs.options, bunkerStops: stops } } satisfies FreightInputs,
+      routeLegs,
+    };
   };
 
+  // ETA follows the voyage's ballast speed and any ballast-leg bunker call.
   const getLaycanEvaluation = (
     voyage: { vesselId: string; cargoId: string; departureDate: string },
     vessel: VesselOption,
     cargo: CargoOption,
+    ballastDays: number,
   ) => {
     if (!cargo.laycanWindow) return undefined;
-    const departureDate = parseDateInput(voyage.departureDate);
+    const departureDate = parseDateInput(voyage.departureDate, vessel.etdTimeZone);
     if (!departureDate) return undefined;
-    const ballastNm = getDistance(distanceMap, vessel.currentPort, cargo.loadPort);
+    const ballastNm = getLegNm(vessel.currentPort, cargo.loadPort);
     return evaluateLaycan({
       departureDate,
       ballastNm,
       ballastSpeed: vessel.data.speed.ballast,
       laycan: cargo.laycanWindow,
+      ballastDays,
+    });
+  };
+
+  const getMinBallastSpeed = (
+    voyage: { departureDate: string },
+    vessel: VesselOption,
+    cargo: CargoOption,
+    inputs: FreightInputs,
+  ) => {
+    const departureDate = parseDateInput(voyage.departureDate, vessel.etdTimeZone);
+    if (!cargo.laycanWindow || !departureDate) return undefined;
+    const ballastStop = inputs.options.bunkerStops?.find((stop) => stop.leg === "ballast");
+    return getRequiredBallastSpeed({
+      departureDate,
+      ballastNm: inputs.distances.ballastNm + (ballastStop?.deviationNm ?? 0),
+      laycan: cargo.laycanWindow,
+      stopDays: (ballastStop?.stemDays ?? 0) + (inputs.canals?.ballastDays ?? 0),
     });
   };
 
@@ -543,53 +344,77 @@ export default function ManualCalculationPage() {
             ...voyage,
             result: undefined,
             laycanEvaluation: undefined,
+            requiredBallastSpeed: undefined,
             waitingCost: undefined,
             adjustedProfit: undefined,
             weightIssue: rangeReason,
             inputAssumptions: undefined,
           };
         }
-        const weightCheck = getWeightFeasibility(voyage.cargoQty, vessel.data.dwt);
+        const weightCheck = getCargoFeasibility(voyage.cargoQty, {
+          weightLimit: vessel.data.dwt,
+          stowFactor: cargo.data.stowFactor,
+          capacityM3: vessel.data.grainCapacity,
+          capacityEstimated: vessel.grainCapacityEstimated,
+        });
         if (weightCheck.status === "infeasible") {
           return {
             ...voyage,
             result: undefined,
             laycanEvaluation: undefined,
+            requiredBallastSpeed: undefined,
+            waitingCost: undefined,
+            adjustedProfit: undefined,
+            weightIssue: weightCheck.reason ?? "Cargo quantity exceeds vessel DWT or grain capacity.",
+            inputAssumptions: undefined,
+          };
+        }
+        const plan = getVoyageInputs(voyage);
+        if (!plan) {
+          return {
+            ...voyage,
+            result: undefined,
+            laycanEvaluation: undefined,
+            requiredBallastSpeed: undefined,
             waitingCost: undefined,
             adjustedProfit: undefined,
-            weightIssue: weightCheck.reason ?? "Cargo quantity exceeds vessel DWT.",
+            weightIssue: "Every sea route on a leg passes an avoided chokepoint.",
             inputAssumptions: undefined,
           };
         }
-        const laycanEvaluation = getLaycanEvaluation(voyage, vessel, cargo);
+        const { inputs, routeLegs } = plan;
+        const result = calculateFreight(inputs);
+        const laycanEvaluation = getLaycanEvaluation(
+          voyage,
+          vessel,
+          cargo,
+          result.loadportArrivalDays,
+        );
+        const requiredBallastSpeed = getMinBallastSpeed(voyage, vessel, cargo, inputs);
         if (laycanEvaluation?.status === "infeasible") {
           return {
             ...voyage,
             result: undefined,
             laycanEvaluation,
+            requiredBallastSpeed,
             waitingCost: undefined,
             adjustedProfit: undefined,
             weightIssue: undefined,
             inputAssumptions: undefined,
           };
         }
-        const inputs = getVoyageInputs(voyage);
-        if (!inputs) return voyage;
-        const result = calculateFreight(inputs);
-        let waitingCost = 0;
-        if (laycanEvaluation?.status === "early" && laycanEvaluation.waitingDays > 0) {
-          const waitingHireCost = laycanEvaluation.waitingDays * vessel.data.dailyHire;
-          const waitingFuelCost =
-            laycanEvaluation.waitingDays *
-            (vessel.data.portConsumption.idle.ifo * bunkerPrices.ifo +
-              vessel.data.portConsumption.idle.mdo * bunkerPrices.mdo);
-          waitingCost = waitingHireCost + waitingFuelCost;
-        }
+        const waitingCost = getWaitingCost(
+          laycanEvaluation,
+          vessel.data.dailyHire,
+          vessel.data.portConsumption.idle,
+          bunkerPrices,
+        );
         const adjustedProfit = result.profit - waitingCost;
         return {
           ...voyage,
           result,
           laycanEvaluation,
+          requiredBallastSpeed,
           waitingCost,
           adjustedProfit,
           weightIssue: undefined,
@@ -597,6 +422,7 @@ export default function ManualCalculationPage() {
             bunkerPrices: { ifo: bunkerPrices.ifo, mdo: bunkerPrices.mdo },
             portDelayDays,
           },
+          routeLegs,
         };
       }),
     );
@@ -617,7 +443,7 @@ export default function ManualCalculationPage() {
         cargoId: cargos[0].id,
         cargoQty: cargos[0].data.cargoQty,
         speedBlend: { ballast: 0.5, laden: 0.75 },
-        departureDate: todayIso,
+        departureDate: `${todayIso}T00:00`,
       },
     ]);
   };
@@ -644,6 +470,7 @@ export default function ManualCalculationPage() {
               ...updates,
               result: undefined,
               laycanEvaluation: undefined,
+              requiredBallastSpeed: undefined,
               waitingCost: undefined,
               adjustedProfit: undefined,
               weightIssue: undefined,
@@ -654,6 +481,28 @@ export default function ManualCalculationPage() {
     );
   };
 
+  // Maximises profit net of laycan waiting, never slower than needed to make the cancelling date.
+  const optimizeVoyageSpeed = (voyageId: string) => {
+    const voyage = voyages.find((item) => item.id === voyageId);
+    const vessel = vessels.find((item) => item.id === voyage?.vesselId);
+    const cargo = cargos.find((item) => item.id === voyage?.cargoId);
+    const inputs = voyage ? getVoyageInputs(voyage)?.inputs : undefined;
+    if (!voyage || !vessel || !cargo || !inputs) return;
+    const { speedBlend } = optimizeSpeed(
+      inputs,
+      (outputs) =>
+        outputs.profit -
+        getWaitingCost(
+          getLaycanEvaluation(voyage, vessel, cargo, outputs.loadportArrivalDays),
+          vessel.data.dailyHire,
+          vessel.data.portConsumption.idle,
+          bunkerPrices,
+        ),
+      { minKnots: { ballast: getMinBallastSpeed(voyage, vessel, cargo, inputs) ?? 0 } },
+    );
+    updateVoyage(voyageId, { speedBlend });
+  };
+
   return (
     <main className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-10">
       <header className="space-y-2">
@@ -672,6 +521,26 @@ export default function ManualCalculationPage() {
                 {loadError}
               </div>
             ) : null}
+            {validation?.issues.length ? (
+              <details className="rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                <summary className="cursor-pointer font-semibold">
+                  Data validation: {validation.summary.errors} errors, {validation.summary.warnings}{" "}
+                  warnings
+                </summary>
+                <ul className="mt-2 space-y-1">
+                  {validation.issues.map((issue, idx) => (
+                    <li
+                      key={`${issue.file}-${issue.row}-${issue.column}-${idx}`}
+                      className={issue.severity === "error" ? "text-red-700" : undefined}
+                    >
+                      {issue.file}
+                      {issue.row ? ` row ${issue.row}` : ""} ({issue.record}) {issue.column}:{" "}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ) : null}
             <button
               type="button"
               className="w-full rounded border border-neutral-300 px-3 py-2 text-sm font-semibold hover:border-neutral-400"
@@ -692,8 +561,8 @@ export default function ManualCalculationPage() {
                     ? `${cargo.loadPort} -> ${cargo.dischargePort}`
                     : "--";
               const etdDate = vessel?.etdDate ?? "";
-              const etdParsed = parseDateInput(etdDate);
-              const departureParsed = parseDateInput(voyage.departureDate);
+              const etdParsed = parseDateInput(etdDate, vessel?.etdTimeZone);
+              const departureParsed = parseDateInput(voyage.departureDate, vessel?.etdTimeZone);
               const isBeforeEtd =
                 etdParsed && departureParsed
                   ? departureParsed.getTime() < etdParsed.getTime()
@@ -705,13 +574,28 @@ export default function ManualCalculationPage() {
               const rangeCheck = cargo
                 ? getQuantityRangeFeasibility(cargoQty, cargo.quantityRange)
                 : undefined;
-              const weightCheck = vessel ? getWeightFeasibility(cargoQty, vesselDwt) : undefined;
+              const weightCheck = vessel
+                ? getCargoFeasibility(cargoQty, {
+                    weightLimit: vesselDwt,
+                    stowFactor: cargo?.data.stowFactor ?? Number.NaN,
+                    capacityM3: vessel.data.grainCapacity,
+                    capacityEstimated: vessel.grainCapacityEstimated,
+                  })
+                : undefined;
               const ballastNm = vessel && cargo
-                ? getDistance(distanceMap, vessel.currentPort, cargo.loadPort)
+                ? getLegNm(vessel.currentPort, cargo.loadPort)
                 : defaultDistanceNm;
               const ladenNm = cargo
-                ? getDistance(distanceMap, cargo.loadPort, cargo.dischargePort)
+                ? getLegNm(cargo.loadPort, cargo.dischargePort)
                 : defaultDistanceNm;
+              const blendBounds = {
+                ballast: vessel
+                  ? getBlendBounds(vessel.data, "ballast", consumptionModel)
+                  : { min: 0, max: 1 },
+                laden: vessel
+                  ? getBlendBounds(vessel.data, "laden", consumptionModel)
+                  : { min: 0, max: 1 },
+              };
               const weightPct = vesselDwt > 0 ? Math.min((cargoQty / vesselDwt) * 100, 100) : 0;
               const isQtyInvalid =
                 rangeCheck?.status === "infeasible" || weightCheck?.status === "infeasible";
@@ -817,7 +701,15 @@ export default function ManualCalculationPage() {
                     <div className="text-[11px] text-neutral-900">
                       Cargo Load vs DWT: {formatNumber(Math.min(cargoQty, vesselDwt))} /{" "}
                       {formatNumber(vesselDwt)} MT
+                      {weightCheck ? ` (${weightCheck.limitedBy}-limited)` : ""}
                     </div>
+                    {weightCheck && weightCheck.volumeM3 > 0 ? (
+                      <div className="text-[11px] text-neutral-900">
+                        Cargo Volume vs Grain: {formatNumber(weightCheck.volumeM3)} /{" "}
+                        {formatNumber(vessel?.data.grainCapacity ?? 0)} m3
+                        {weightCheck.capacityEstimated ? " (estimated from DWT)" : ""}
+                      </div>
+                    ) : null}
                     {rangeCheck?.status === "infeasible" ? (
                       <div className="mt-1 text-xs font-semibold text-red-600">
                         {rangeReason}
@@ -837,16 +729,19 @@ export default function ManualCalculationPage() {
                     <input
                       className="w-full"
                       type="range"
-                      min={0}
-                      max={1}
+                      min={blendBounds.ballast.min}
+                      max={blendBounds.ballast.max}
                       step={0.01}
                       value={voyage.speedBlend.ballast}
                       onChange={(event) =>
                         updateVoyage(voyage.id, {
-                          speedBlend: {
-                            ...voyage.speedBlend,
-                            ballast: Number(event.target.value),
-                          },
+                          speedBlend: vessel
+                            ? clampSpeedBlend(
+                                vessel.data,
+                                { ...voyage.speedBlend, ballast: Number(event.target.value) },
+                                consumptionModel,
+                              )
+                            : { ...voyage.speedBlend, ballast: Number(event.target.value) },
                         })
                       }
                     />
@@ -864,16 +759,19 @@ export default function ManualCalculationPage() {
                     <input
                       className="w-full"
                       type="range"
-                      min={0}
-                      max={1}
+                      min={blendBounds.laden.min}
+                      max={blendBounds.laden.max}
                       step={0.01}
                       value={voyage.speedBlend.laden}
                       onChange={(event) =>
                         updateVoyage(voyage.id, {
-                          speedBlend: {
-                            ...voyage.speedBlend,
-                            laden: Number(event.target.value),
-                          },
+                          speedBlend: vessel
+                            ? clampSpeedBlend(
+                                vessel.data,
+                                { ...voyage.speedBlend, laden: Number(event.target.value) },
+                                consumptionModel,
+                              )
+                            : { ...voyage.speedBlend, laden: Number(event.target.value) },
                         })
                       }
                     />
@@ -889,14 +787,31 @@ export default function ManualCalculationPage() {
                   <div className="mt-2 text-xs text-neutral-600">
                     Ballast start: {vessel?.currentPort ?? "--"}
                   </div>
+                  <div className="mt-2 text-xs text-neutral-600">
+                    Laycan: {cargo?.laycanLabel || "--"}
+                    {cargo && cargo.laycanParse.confidence !== "exact"
+                      ? ` (${cargo.laycanParse.confidence})`
+                      : ""}
+                  </div>
+                  {cargo?.laycanParse.reason ? (
+                    <div className="mt-1 text-xs font-semibold text-red-600">
+                      {cargo.laycanParse.reason} Laycan checks are skipped for this cargo.
+                    </div>
+                  ) : cargo?.laycanParse.notes.length ? (
+                    <div className="mt-1 text-[11px] text-neutral-500">
+                      {cargo.laycanParse.notes.join(" ")}
+                    </div>
+                  ) : null}
                   <div className="mt-2 text-xs text-neutral-600">
                     Vessel ETD: {formatDateLabel(etdDate)}
                   </div>
                   <label className="mt-2 block text-sm">
-                    <span className="text-neutral-500">Vessel Available / Departure Date</span>
+                    <span className="text-neutral-500">
+                      Vessel Available / Departure ({vessel?.etdTimeZone ?? "UTC"})
+                    </span>
                     <input
                       className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm"
-                      type="date"
+                      type="datetime-local"
                       value={voyage.departureDate}
                       onChange={(event) =>
                         updateVoyage(voyage.id, { departureDate: event.target.value })
@@ -911,6 +826,14 @@ export default function ManualCalculationPage() {
                   <button
                     type="button"
                     className="mt-3 w-full rounded border border-neutral-300 px-3 py-2 text-xs font-semibold hover:border-neutral-400"
+                    onClick={() => optimizeVoyageSpeed(voyage.id)}
+                    disabled={!vessel || !cargo}
+                  >
+                    Optimize Speed
+                  </button>
+                  <button
+                    type="button"
+                    className="mt-2 w-full rounded border border-neutral-300 px-3 py-2 text-xs font-semibold hover:border-neutral-400"
                     onClick={() => calculateVoyage(voyage.id)}
                     disabled={!vessel || !cargo}
                   >
@@ -958,6 +881,61 @@ export default function ManualCalculationPage() {
                 }
               />
             </label>
+            <label className="text-sm">
+              <span className="text-neutral-500">Consumption Model</span>
+              <select
+                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm"
+                value={consumptionModel}
+                onChange={(event) => setConsumptionModel(event.target.value as ConsumptionModel)}
+              >
+                <option value="linear">Linear blend between CSV points</option>
+                <option value="cubic">Cubic (a + b·v³) through CSV points</option>
+                <option value="table">Vessel speed/consumption table</option>
+              </select>
+            </label>
+            <label className="text-sm">
+              <span className="text-neutral-500">Bunker Costing</span>
+              <select
+                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm"
+                value={bunkerCosting}
+                onChange={(event) => setBunkerCosting(event.target.value as BunkerCosting)}
+              >
+                <option value="market">All bunkers at market price</option>
+                <option value="rob_book">ROB at book price, stems at market</option>
+              </select>
+            </label>
+            {bunkerCosting === "rob_book" ? (
+              <>
+                <label className="text-sm">
+                  <span className="text-neutral-500">ROB IFO Book Price ($/MT)</span>
+                  <input
+                    className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm"
+                    type="number"
+                    value={robPrices.ifo}
+                    onChange={(event) =>
+                      setRobPrices((prev) => ({
+                        ...prev,
+                        ifo: Number(event.target.value),
+                      }))
+                    }
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-neutral-500">ROB MDO Book Price ($/MT)</span>
+                  <input
+                    className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm"
+                    type="number"
+                    value={robPrices.mdo}
+                    onChange={(event) =>
+                      setRobPrices((prev) => ({
+                        ...prev,
+                        mdo: Number(event.target.value),
+                      }))
+                    }
+                  />
+                </label>
+              </>
+            ) : null}
             <label className="text-sm">
               <span className="text-neutral-500">Port Delay (days)</span>
               <select
@@ -972,6 +950,27 @@ export default function ManualCalculationPage() {
                 ))}
               </select>
             </label>
+            <div className="text-sm">
+              <span className="text-neutral-500">Avoid Chokepoints</span>
+              <div className="mt-1 flex flex-wrap gap-3">
+                {(Object.keys(chokepointLabels) as Chokepoint[]).map((point) => (
+                  <label key={point} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={avoidChokepoints.includes(point)}
+                      onChange={(event) =>
+                        setAvoidChokepoints((prev) =>
+                          event.target.checked
+                            ? [...prev, point]
+                            : prev.filter((item) => item !== point),
+                        )
+                      }
+                    />
+                    {chokepointLabels[point]}
+                  </label>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
@@ -989,7 +988,7 @@ export default function ManualCalculationPage() {
           {voyages.map((voyage, index) => {
             const vessel = vessels.find((item) => item.id === voyage.vesselId);
             const cargo = cargos.find((item) => item.id === voyage.cargoId);
-            const inputs = voyage.result ? getVoyageInputs(voyage) : undefined;
+            const inputs = voyage.result ? getVoyageInputs(voyage)?.inputs : undefined;
             const result = voyage.result;
             const laycanEvaluation = voyage.laycanEvaluation;
             const weightIssue = voyage.weightIssue;
@@ -1005,21 +1004,17 @@ export default function ManualCalculationPage() {
                   : laycanEvaluation?.status === "feasible"
                     ? "Feasible"
                     : "Laycan unavailable";
+            const routeLegs = voyage.result ? voyage.routeLegs : undefined;
             const ballastNm =
-              vessel && cargo
-                ? getDistance(distanceMap, vessel.currentPort, cargo.loadPort)
-                : defaultDistanceNm;
+              routeLegs?.ballast.distanceNm ??
+              (vessel && cargo
+                ? getLegNm(vessel.currentPort, cargo.loadPort)
+                : defaultDistanceNm);
             const ladenNm =
-              cargo ? getDistance(distanceMap, cargo.loadPort, cargo.dischargePort) : defaultDistanceNm;
-            const formatDate = (date?: Date) =>
-              date
-                ? date.toLocaleDateString("en-US", {
-                    timeZone: "UTC",
-                    year: "numeric",
-                    month: "short",
-                    day: "numeric",
-                  })
-                : "--";
+              routeLegs?.laden.distanceNm ??
+              (cargo
+                ? getLegNm(cargo.loadPort, cargo.dischargePort)
+                : defaultDistanceNm);
             return (
               <section key={voyage.id} className="rounded-lg border border-neutral-200 p-4 text-sm">
                 <h2 className="text-lg font-semibold">
@@ -1043,10 +1038,15 @@ export default function ManualCalculationPage() {
                       <div>Laycan Window</div>
                       <div>{cargo?.laycanLabel ?? "--"}</div>
                       <div>ETA at Load Port</div>
-                      <div>{formatDate(laycanEvaluation.eta)}</div>
+                      <div>
+                        {formatZonedDateTime(laycanEvaluation.eta, cargo?.laycanWindow?.timeZone)}
+                      </div>
+                      <div>Min Ballast Speed</div>
+                      <div>{formatNumber(voyage.requiredBallastSpeed ?? 0)} kn</div>
                     </div>
                     <div className="text-neutral-500">
-                      Voyage is infeasible due to laycan miss. Adjust departure date.
+                      Voyage is infeasible due to laycan miss. Adjust departure date or ballast
+                      speed.
                     </div>
                   </div>
                 ) : !result ? (
@@ -1059,7 +1059,15 @@ export default function ManualCalculationPage() {
                       <div className="text-neutral-500">Laycan Window</div>
                       <div>{cargo?.laycanLabel ?? "--"}</div>
                       <div className="text-neutral-500">ETA at Load Port</div>
-                      <div>{formatDate(laycanEvaluation?.eta)}</div>
+                      <div>
+                        {formatZonedDateTime(laycanEvaluation?.eta, cargo?.laycanWindow?.timeZone)}
+                      </div>
+                      <div className="text-neutral-500">Margin to Cancelling</div>
+                      <div>
+                        {laycanEvaluation
+                          ? `${formatNumber(laycanEvaluation.hoursToCancelling)} hours`
+                          : "--"}
+                      </div>
                       <div className="text-neutral-500">Feasibility</div>
                       <div
                         className={
@@ -1070,6 +1078,12 @@ export default function ManualCalculationPage() {
                       >
                         {laycanStatus}
                       </div>
+                      <div className="text-neutral-500">Min Ballast Speed</div>
+                      <div>
+                        {voyage.requiredBallastSpeed !== undefined
+                          ? `${formatNumber(voyage.requiredBallastSpeed)} kn`
+                          : "--"}
+                      </div>
                       <div className="text-neutral-500">Waiting Days</div>
                       <div>
                         {laycanEvaluation?.status === "early"
@@ -1098,6 +1112,16 @@ export default function ManualCalculationPage() {
                           <div>{formatNumber(ladenNm)}</div>
                           <div className="text-neutral-500">Total NM</div>
                           <div>{formatNumber(ballastNm + ladenNm)}</div>
+                          <div className="text-neutral-500">Sea Route</div>
+                          <div>
+                            {routeLegs
+                              ? `Ballast ${routeLegs.ballast.name}, laden ${routeLegs.laden.name}`
+                              : "--"}
+                          </div>
+                          <div className="text-neutral-500">Canal Dues / Transit</div>
+                          <div>
+                            {formatMoney(result.canalDues)} / {formatNumber(result.canalDays)} days
+                          </div>
                           <div className="text-neutral-500">Total Duration</div>
                           <div>{formatNumber(result.totalDuration)} days</div>
                           <div className="text-neutral-500">Steaming Days</div>
@@ -1144,10 +1168,42 @@ export default function ManualCalculationPage() {
                           <div>{formatMoney(inputs?.cargo.freightRate ?? 0)}/MT</div>
                           <div className="text-neutral-500">Freight Gross</div>
                           <div>{formatMoney(result.freightGross)}</div>
+                          <div className="text-neutral-500">Effective Rate</div>
+                          <div>{formatMoney(result.effectiveFreightRate)}/MT</div>
+                          {result.overageQty > 0 ? (
+                            <>
+                              <div className="text-neutral-500">Overage at Reduced Rate</div>
+                              <div>{formatNumber(result.overageQty)} MT</div>
+                            </>
+                          ) : null}
+                          {result.deadfreight > 0 ? (
+                            <>
+                              <div className="text-neutral-500">Deadfreight</div>
+                              <div>{formatMoney(result.deadfreight)}</div>
+                            </>
+                          ) : null}
                           <div className="text-neutral-500">Freight Commissions</div>
                           <div>{formatMoney(result.freightCommissions)}</div>
                           <div className="text-neutral-500">Freight Net</div>
                           <div>{formatMoney(result.freightNet)}</div>
+                          <div className="text-neutral-500">Laytime Load (used / allowed)</div>
+                          <div>
+                            {formatNumber(result.laytime.load.usedDays)} /{" "}
+                            {formatNumber(result.laytime.load.allowedDays)} days
+                          </div>
+                          <div className="text-neutral-500">Laytime Discharge (used / allowed)</div>
+                          <div>
+                            {formatNumber(result.laytime.discharge.usedDays)} /{" "}
+                            {formatNumber(result.laytime.discharge.allowedDays)} days
+                          </div>
+                          <div className="text-neutral-500">Demurrage</div>
+                          <div>
+                            {result.laytime.missingTerms.includes("demurrage rate")
+                              ? "Not settled (no demurrage rate)"
+                              : formatMoney(result.demurrage)}
+                          </div>
+                          <div className="text-neutral-500">Despatch</div>
+                          <div>-{formatMoney(result.despatch)}</div>
                           <div className="text-neutral-500">Revenue Net</div>
                           <div>{formatMoney(result.revenueNet)}</div>
                           <div className="text-neutral-500">Hire Gross</div>
@@ -1163,6 +1219,16 @@ export default function ManualCalculationPage() {
                           <div>{formatMoney(result.totalExpenses)}</div>
                           <div className="text-neutral-500">Bunker Expense</div>
                           <div>{formatMoney(result.bunkerExpense)}</div>
+                          <div className="text-neutral-500">ROB Used (IFO / MDO)</div>
+                          <div>
+                            {formatNumber(result.robIfoUsed)} / {formatNumber(result.robMdoUsed)} MT
+                            {" "}({formatMoney(result.robBunkerCost)})
+                          </div>
+                          <div className="text-neutral-500">To Purchase (IFO / MDO)</div>
+                          <div>
+                            {formatNumber(result.ifoToPurchase)} / {formatNumber(result.mdoToPurchase)} MT
+                            {" "}({formatMoney(result.purchasedBunkerCost)})
+                          </div>
                           <div className="text-neutral-500">Port Disbursements</div>
                           <div>{formatMoney(result.portDisbursements)}</div>
                           <div className="text-neutral-500">Operating Expenses</div>
@@ -1170,6 +1236,46 @@ export default function ManualCalculationPage() {
                           <div className="text-neutral-500">Misc Expenses</div>
                           <div>{formatMoney(result.miscExpense)}</div>
                         </div>
+                        <div className="mt-3 text-xs font-semibold text-neutral-600">Bunker Plan</div>
+                        <div className="mt-2 grid grid-cols-2 gap-2">
+                          {result.bunkerStops.length ? (
+                            result.bunkerStops.map((stop) => (
+                              <Fragment key={`${stop.leg}-${stop.port}`}>
+                                <div className="text-neutral-500">
+                                  {stop.port} ({stop.leg}, +{formatNumber(stop.deviationNm)} nm)
+                                </div>
+                                <div>
+                                  {formatNumber(stop.ifoQty)} IFO / {formatNumber(stop.mdoQty)} MDO MT (
+                                  {formatMoney(stop.cost)})
+                                </div>
+                              </Fragment>
+                            ))
+                          ) : (
+                            <>
+                              <div className="text-neutral-500">Bunker Calls</div>
+                              <div>None</div>
+                            </>
+                          )}
+                          <div className="text-neutral-500">Deviation / Call Cost</div>
+                          <div>
+                            {formatNumber(result.bunkerDeviationDays)} days /{" "}
+                            {formatMoney(result.bunkerPortCost)}
+                          </div>
+                        </div>
+                        {!result.bunkerPlanFeasible ? (
+                          <div className="mt-2 rounded border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700">
+                            ROB and the planned stems cannot cover the voyage within tank capacity; the
+                            shortfall is priced at the market IFO/MDO price.
+                          </div>
+                        ) : null}
+                        {!result.robCoversBallast ? (
+                          <div className="mt-2 rounded border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-700">
+                            ROB ({formatNumber(vessel?.data.rob.ifo ?? 0)} MT IFO /{" "}
+                            {formatNumber(vessel?.data.rob.mdo ?? 0)} MT MDO) does not cover the
+                            ballast leg up to the first bunker call (or the load port), counting
+                            deviation and canal transit.
+                          </div>
+                        ) : null}
                         <div className="mt-3 text-xs font-semibold text-neutral-600">Summary</div>
                         <div className="mt-2 grid grid-cols-2 gap-2">
                           <div className="text-neutral-500">Profit</div>
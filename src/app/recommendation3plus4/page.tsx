@@ -2,7 +2,25 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { exampleInputs } from "@/calculator/freightCalculator";
+import {
+  exampleInputs,
+  type BunkerCosting,
+  type BunkerStopResult,
+} from "@/calculator/freightCalculator";
+import type { FreightRateSource } from "@/calculator/businessData";
+import type { ValidationReport } from "@/calculator/dataSchema";
+import type { ConsumptionModel } from "@/calculator/speed";
+import type { CargoFeasibility, IntakeResult } from "@/calculator/weight";
+import type { LaycanConfidence, LaycanStrategy } from "@/calculator/laycan";
+import {
+  defaultLaycanRiskOptions,
+  type LaycanRiskMode,
+  type LaycanRiskOptions,
+} from "@/calculator/laycanRisk";
+import { chokepointLabels, type Chokepoint, type RouteVariant } from "@/calculator/routeVariants";
+import type { PortOptionRule } from "@/calculator/portOptions";
+import type { PortfolioSolveStatus } from "@/calculator/portfolioSolver";
+import type { DistanceSource } from "@/calculator/portDistances";
 
 type RecommendationData = {
   summary: {
@@ -15,12 +33,24 @@ type RecommendationData = {
     mdoPrice: number;
     portDelayDays: number;
     marketHireRate: number;
+    freightRateOverrides: Record<string, number>;
+    bunkerCosting: BunkerCosting;
+    consumptionModel: ConsumptionModel;
+    robIfoPrice: number;
+    robMdoPrice: number;
   };
   search: {
     totalVessels: number;
     vesselPick: number;
-    combos: number;
-    assignmentsTested: number;
+    statesTested: number | null;
+    solver: {
+      status: PortfolioSolveStatus;
+      nodes: number;
+      objective: number;
+      bound: number;
+      gap: number | null;
+      constraints: string[];
+    } | null;
     freightCalcs: number;
   };
   selectedVessels: Array<{
@@ -32,6 +62,7 @@ type RecommendationData = {
   }>;
   assignments: Array<{
     index: number;
+    voyage: number;
     vesselName: string;
     vesselLabel: string;
     charteredIn: boolean;
@@ -39,30 +70,125 @@ type RecommendationData = {
     cargoName: string;
     cargoSource: "committed" | "market";
     route: string;
+    portOption: {
+      loadPort: string;
+      dischargePort: string;
+      isBase: boolean;
+      rule: PortOptionRule;
+      freightRate: number;
+      combinationsEvaluated: number;
+    };
+    openPort: string;
+    openDate: string;
     cargoQty: number;
+    intake: IntakeResult;
+    cargoFeasibility: CargoFeasibility;
+    freight: {
+      gross: number;
+      effectiveRate: number;
+      overageQty: number;
+      deadfreight: number;
+    };
     tce: number;
     profit: number;
     waitingCost: number;
     adjustedProfit: number;
     laycanLabel: string;
     laycanStatus: string;
+    laycanTimeZone: string;
+    laycanConfidence: LaycanConfidence;
+    laycanNotes: string[];
+    eta: string | null;
+    etaLocal: string;
+    hoursToOpening: number | null;
+    hoursToCancelling: number | null;
+    laycanStrategy: LaycanStrategy;
+    requiredBallastSpeed: number;
+    laycanMissProbability: number;
+    laycanRiskCost: number;
     waitingDays: number;
     speedBlend: { ballast: number; laden: number };
+    speedKnots: { ballast: number; laden: number };
+    bunkers: {
+      robIfoUsed: number;
+      robMdoUsed: number;
+      ifoToPurchase: number;
+      mdoToPurchase: number;
+      robAtCompletion: { ifo: number; mdo: number };
+      robBunkerCost: number;
+      purchasedBunkerCost: number;
+      robCoversBallast: boolean;
+      stops: BunkerStopResult[];
+      deviationDays: number;
+      portCost: number;
+      planFeasible: boolean;
+    };
+    laytime: {
+      loadAllowedDays: number;
+      loadUsedDays: number;
+      dischargeAllowedDays: number;
+      dischargeUsedDays: number;
+      demurrage: number;
+      despatch: number;
+      missingTerms: string[];
+    };
     distances: {
       ballastNm: number;
       ladenNm: number;
-      ballastFallback: boolean;
-      ladenFallback: boolean;
+      ballastSource: DistanceSource;
+      ladenSource: DistanceSource;
+      ballastVia: string[];
+      ladenVia: string[];
     };
+    routeVariants: {
+      ballast: RouteVariant;
+      laden: RouteVariant;
+      canalDues: number;
+      canalDays: number;
+    };
+  }>;
+  breakEvenRates: Array<{
+    cargoId: string;
+    cargoName: string;
+    route: string;
+    freightRate: number;
+    freightRateSource: FreightRateSource;
+    breakEvenRate: number | null;
+    breakEvenVessel: string | null;
+    margin: number | null;
+  }>;
+  laycanExclusions: Array<{
+    cargoId: string;
+    cargoName: string;
+    laycanLabel: string;
+    reason: string;
+  }>;
+  laycanRiskRejections: Array<{
+    vesselName: string;
+    cargoName: string;
+    missProbability: number;
+  }>;
+  routeExclusions: Array<{
+    vesselName: string;
+    cargoName: string;
+    leg: "ballast" | "laden";
+    blocked: string[];
   }>;
   decision: {
     unassigned: string[];
   };
   notes: {
     distanceFallbackNm: number;
+    distanceEstimate: {
+      detourFactor: number;
+      pairCount: number;
+      meanAbsErrorPct: number;
+      maxAbsErrorPct: number;
+    };
     hireNote: string;
     riskNote: string;
   };
+  validation: ValidationReport;
 };
 
 const formatMoney = (value: number) =>
@@ -77,13 +203,34 @@ const formatNumber = (value: number) =>
     maximumFractionDigits: 2,
   });
 
+const distanceSourceMarker: Record<DistanceSource, string> = {
+  table: "",
+  graph: "",
+  estimate: " [ESTIMATE]",
+  default: " [FALLBACK]",
+};
+
 export default function Recommendation3Plus4Page() {
   const [bunkerPrices, setBunkerPrices] = useState({
     ifo: exampleInputs.costs.ifoPrice,
     mdo: exampleInputs.costs.mdoPrice,
   });
+  const [bunkerCosting, setBunkerCosting] = useState<BunkerCosting>(
+    exampleInputs.options.bunkerCosting,
+  );
+  const [consumptionModel, setConsumptionModel] = useState<ConsumptionModel>(
+    exampleInputs.options.consumptionModel,
+  );
+  const [robPrices, setRobPrices] = useState({
+    ifo: exampleInputs.costs.robIfoPrice,
+    mdo: exampleInputs.costs.robMdoPrice,
+  });
   const [portDelayDays, setPortDelayDays] = useState(0);
   const [marketHireRate, setMarketHireRate] = useState(exampleInputs.vessel.dailyHire);
+  const [laycanRisk, setLaycanRisk] = useState<LaycanRiskOptions>(defaultLaycanRiskOptions);
+  const [avoidChokepoints, setAvoidChokepoints] = useState<Chokepoint[]>([]);
+  const [sequencing, setSequencing] = useState(false);
+  const [planningHorizonDays, setPlanningHorizonDays] = useState(120);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [reply, setReply] = useState("");
@@ -101,8 +248,15 @@ export default function Recommendation3Plus4Page() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           bunkerPrices,
+          bunkerCosting,
+          consumptionModel,
+          robPrices,
           portDelayDays,
           marketHireRate,
+          laycanRisk,
+          avoidChokepoints,
+          sequencing,
+          planningHorizonDays,
           vesselCount: 4,
         }),
       });
@@ -196,6 +350,187 @@ export default function Recommendation3Plus4Page() {
               onChange={(event) => setMarketHireRate(Number(event.target.value))}
             />
           </label>
+          <label className="text-xs text-neutral-500">
+            <span className="block">Consumption Model</span>
+            <select
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+              value={consumptionModel}
+              onChange={(event) => setConsumptionModel(event.target.value as ConsumptionModel)}
+            >
+              <option value="linear">Linear blend</option>
+              <option value="cubic">Cubic through CSV points</option>
+              <option value="table">Vessel speed table</option>
+            </select>
+          </label>
+          <label className="text-xs text-neutral-500">
+            <span className="block">Bunker Costing</span>
+            <select
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+              value={bunkerCosting}
+              onChange={(event) => setBunkerCosting(event.target.value as BunkerCosting)}
+            >
+              <option value="market">All at market</option>
+              <option value="rob_book">ROB at book price</option>
+            </select>
+          </label>
+          {bunkerCosting === "rob_book" ? (
+            <>
+              <label className="text-xs text-neutral-500">
+                <span className="block">ROB IFO Book Price ($/MT)</span>
+                <input
+                  className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+                  type="number"
+                  value={robPrices.ifo}
+                  onChange={(event) =>
+                    setRobPrices((prev) => ({
+                      ...prev,
+                      ifo: Number(event.target.value),
+                    }))
+                  }
+                />
+              </label>
+              <label className="text-xs text-neutral-500">
+                <span className="block">ROB MDO Book Price ($/MT)</span>
+                <input
+                  className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+                  type="number"
+                  value={robPrices.mdo}
+                  onChange={(event) =>
+                    setRobPrices((prev) => ({
+                      ...prev,
+                      mdo: Number(event.target.value),
+                    }))
+                  }
+                />
+              </label>
+            </>
+          ) : null}
+          <label className="text-xs text-neutral-500">
+            <span className="block">Laycan Risk</span>
+            <select
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+              value={laycanRisk.mode}
+              onChange={(event) =>
+                setLaycanRisk((prev) => ({
+                  ...prev,
+                  mode: event.target.value as LaycanRiskMode,
+                }))
+              }
+            >
+              <option value="off">Report only</option>
+              <option value="penalize">Penalize expected miss</option>
+              <option value="reject">Reject above max miss</option>
+            </select>
+          </label>
+          <label className="text-xs text-neutral-500">
+            <span className="block">ETD Uncertainty (± h)</span>
+            <input
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+              type="number"
+              min={0}
+              step={1}
+              value={laycanRisk.etdStdHours}
+              onChange={(event) =>
+                setLaycanRisk((prev) => ({
+                  ...prev,
+                  etdStdHours: Number(event.target.value),
+                }))
+              }
+            />
+          </label>
+          <label className="text-xs text-neutral-500">
+            <span className="block">Ballast Speed Uncertainty (± %)</span>
+            <input
+              className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+              type="number"
+              min={0}
+              step={0.5}
+              value={laycanRisk.ballastSpeedStdPct}
+              onChange={(event) =>
+                setLaycanRisk((prev) => ({
+                  ...prev,
+                  ballastSpeedStdPct: Number(event.target.value),
+                }))
+              }
+            />
+          </label>
+          {laycanRisk.mode === "reject" ? (
+            <label className="text-xs text-neutral-500">
+              <span className="block">Max Miss Probability (%)</span>
+              <input
+                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                value={laycanRisk.maxMissProbability * 100}
+                onChange={(event) =>
+                  setLaycanRisk((prev) => ({
+                    ...prev,
+                    maxMissProbability: Number(event.target.value) / 100,
+                  }))
+                }
+              />
+            </label>
+          ) : null}
+          {laycanRisk.mode === "penalize" ? (
+            <label className="text-xs text-neutral-500">
+              <span className="block">Miss Penalty ($)</span>
+              <input
+                className="mt-1 w-full rounded border border-neutral-300 px-3 py-2 text-sm text-neutral-900"
+                type="number"
+                min={0}
+                step={1000}
+                value={laycanRisk.missPenalty}
+                onChange={(event) =>
+                  setLaycanRisk((prev) => ({
+                    ...prev,
+                    missPenalty: Number(event.target.value),
+                  }))
+                }
+              />
+            </label>
+          ) : null}
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-4 text-xs text-neutral-500">
+          <span>Avoid chokepoints:</span>
+          {(Object.keys(chokepointLabels) as Chokepoint[]).map((point) => (
+            <label key={point} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={avoidChokepoints.includes(point)}
+                onChange={(event) =>
+                  setAvoidChokepoints((prev) =>
+                    event.target.checked
+                      ? [...prev, point]
+                      : prev.filter((item) => item !== point),
+                  )
+                }
+              />
+              {chokepointLabels[point]}
+            </label>
+          ))}
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-4 text-xs text-neutral-500">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={sequencing}
+              onChange={(event) => setSequencing(event.target.checked)}
+            />
+            Sequence follow-on cargos after discharge
+          </label>
+          {sequencing ? (
+            <label className="flex items-center gap-2">
+              Planning horizon (days)
+              <input
+                type="number"
+                className="w-20 rounded border border-neutral-300 px-2 py-1 text-neutral-900"
+                value={planningHorizonDays}
+                onChange={(event) => setPlanningHorizonDays(Number(event.target.value))}
+              />
+            </label>
+          ) : null}
         </div>
         <div className="mt-4 flex flex-wrap items-center gap-3">
           <button
@@ -278,14 +613,29 @@ export default function Recommendation3Plus4Page() {
                   <span>Vessels scanned</span>
                   <span>{formatNumber(data.search.totalVessels)}</span>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span>Combos</span>
-                  <span>{formatNumber(data.search.combos)}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Assignments tested</span>
-                  <span>{formatNumber(data.search.assignmentsTested)}</span>
-                </div>
+                {data.search.solver ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span>Solver</span>
+                      <span>
+                        {data.search.solver.status}
+                        {data.search.solver.status === "feasible" && data.search.solver.gap !== null
+                          ? ` (gap ${formatNumber(data.search.solver.gap * 100)}%)`
+                          : ""}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Nodes</span>
+                      <span>{formatNumber(data.search.solver.nodes)}</span>
+                    </div>
+                  </>
+                ) : null}
+                {data.search.statesTested !== null ? (
+                  <div className="flex items-center justify-between">
+                    <span>Sequencing states</span>
+                    <span>{formatNumber(data.search.statesTested)}</span>
+                  </div>
+                ) : null}
                 <div className="flex items-center justify-between">
                   <span>Freight calcs</span>
                   <span>{formatNumber(data.search.freightCalcs)}</span>
@@ -328,6 +678,7 @@ export default function Recommendation3Plus4Page() {
                     <th className="px-3 py-2 text-right">TCE</th>
                     <th className="px-3 py-2 text-right">Adj Profit</th>
                     <th className="px-3 py-2 text-left">Laycan</th>
+                    <th className="px-3 py-2 text-left">Bunkers (MT)</th>
                     <th className="px-3 py-2 text-left">Distance</th>
                   </tr>
                 </thead>
@@ -338,6 +689,7 @@ export default function Recommendation3Plus4Page() {
                       <td className="px-3 py-2">
                         <div className="font-semibold text-neutral-900">
                           {item.vesselName}
+                          {item.voyage > 1 ? ` (voyage ${item.voyage})` : ""}
                         </div>
                         <div className="text-[11px] text-neutral-500">
                           {item.vesselLabel}
@@ -352,30 +704,136 @@ export default function Recommendation3Plus4Page() {
                           {item.cargoSource}
                         </div>
                       </td>
-                      <td className="px-3 py-2">{item.route}</td>
+                      <td className="px-3 py-2">
+                        <div>{item.route}</div>
+                        {item.portOption.combinationsEvaluated > 1 ? (
+                          <div className="text-[11px] text-neutral-500">
+                            {item.portOption.isBase ? "Base ports" : "Alternative ports"} of{" "}
+                            {item.portOption.combinationsEvaluated} |{" "}
+                            {formatMoney(item.portOption.freightRate)}/MT
+                          </div>
+                        ) : null}
+                        <div className="text-[11px] text-neutral-500">
+                          Open {item.openPort} {item.openDate.slice(0, 10)}
+                        </div>
+                      </td>
                       <td className="px-3 py-2 text-right">
-                        {formatNumber(item.cargoQty)}
+                        <div>{formatNumber(item.cargoQty)}</div>
+                        <div className="text-[11px] text-neutral-500">
+                          {formatMoney(item.freight.effectiveRate)}/MT
+                          {item.freight.overageQty > 0
+                            ? ` | ${formatNumber(item.freight.overageQty)} MT reduced`
+                            : ""}
+                        </div>
+                        <div className="text-[11px] text-neutral-500" title={item.intake.reason}>
+                          max {formatNumber(item.cargoFeasibility.maxQty)} (
+                          {item.cargoFeasibility.limitedBy === "volume"
+                            ? item.cargoFeasibility.capacityEstimated
+                              ? "volume, estimated capacity"
+                              : "volume"
+                            : item.intake.binding.replace("_", " ")}
+                          )
+                        </div>
                       </td>
                       <td className="px-3 py-2 text-right">
-                        {formatMoney(item.tce)}/day
+                        <div>{formatMoney(item.tce)}/day</div>
+                        <div className="text-[11px] text-neutral-500">
+                          {formatNumber(item.speedKnots.ballast)} / {formatNumber(item.speedKnots.laden)} kn
+                        </div>
                       </td>
                       <td className="px-3 py-2 text-right">
-                        {formatMoney(item.adjustedProfit)}
+                        <div>{formatMoney(item.adjustedProfit)}</div>
+                        {item.laytime.demurrage > 0 || item.laytime.despatch > 0 ? (
+                          <div className="text-[11px] text-neutral-500">
+                            Dem {formatMoney(item.laytime.demurrage)} | Des -
+                            {formatMoney(item.laytime.despatch)}
+                          </div>
+                        ) : item.laytime.missingTerms.includes("demurrage rate") ? (
+                          <div className="text-[11px] text-neutral-500">Laytime not settled</div>
+                        ) : null}
                       </td>
                       <td className="px-3 py-2">
-                        <div>{item.laycanLabel}</div>
+                        <div title={item.laycanNotes.join(" ")}>
+                          {item.laycanLabel}
+                          {item.laycanConfidence !== "exact" ? ` (${item.laycanConfidence})` : ""}
+                        </div>
                         <div className="text-[11px] text-neutral-500">
                           {item.laycanStatus} | wait {formatNumber(item.waitingDays)}d
                         </div>
+                        <div className="text-[11px] text-neutral-500">
+                          ETA {item.etaLocal}
+                          {item.hoursToCancelling !== null
+                            ? ` | ${formatNumber(item.hoursToCancelling)}h spare`
+                            : ""}
+                        </div>
+                        <div className="text-[11px] text-neutral-500">
+                          min {formatNumber(item.requiredBallastSpeed)} kn
+                          {item.laycanStrategy !== "as_planned"
+                            ? ` | ${item.laycanStrategy.replace("_", " ")}`
+                            : ""}
+                        </div>
+                        <div className="text-[11px] text-neutral-500">
+                          miss {formatNumber(item.laycanMissProbability * 100)}%
+                          {item.laycanRiskCost > 0 ? ` | risk ${formatMoney(item.laycanRiskCost)}` : ""}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div>
+                          ROB {formatNumber(item.bunkers.robIfoUsed)} /{" "}
+                          {formatNumber(item.bunkers.robMdoUsed)}
+                        </div>
+                        <div>
+                          Buy {formatNumber(item.bunkers.ifoToPurchase)} /{" "}
+                          {formatNumber(item.bunkers.mdoToPurchase)}
+                        </div>
+                        {item.bunkers.stops.map((stop) => (
+                          <div key={`${stop.leg}-${stop.port}`} className="text-[11px] text-neutral-500">
+                            {stop.port} ({stop.leg}) {formatNumber(stop.ifoQty)} /{" "}
+                            {formatNumber(stop.mdoQty)}
+                          </div>
+                        ))}
+                        {!item.bunkers.planFeasible ? (
+                          <div className="text-[11px] text-red-600">Shortfall at market price</div>
+                        ) : null}
+                        {!item.bunkers.robCoversBallast ? (
+                          <div className="text-[11px] text-amber-600">
+                            ROB short of first stem
+                          </div>
+                        ) : null}
                       </td>
                       <td className="px-3 py-2">
-                        <div className={item.distances.ballastFallback ? "text-amber-600" : ""}>
+                        <div
+                          className={
+                            distanceSourceMarker[item.distances.ballastSource] ? "text-amber-600" : ""
+                          }
+                        >
                           Ballast {formatNumber(item.distances.ballastNm)} nm
-                          {item.distances.ballastFallback ? " [FALLBACK]" : ""}
+                          {distanceSourceMarker[item.distances.ballastSource]}
                         </div>
-                        <div className={item.distances.ladenFallback ? "text-amber-600" : ""}>
+                        {item.distances.ballastVia.length ? (
+                          <div className="text-[11px] text-neutral-500">
+                            via {item.distances.ballastVia.join(", ")}
+                          </div>
+                        ) : null}
+                        <div
+                          className={
+                            distanceSourceMarker[item.distances.ladenSource] ? "text-amber-600" : ""
+                          }
+                        >
                           Laden {formatNumber(item.distances.ladenNm)} nm
-                          {item.distances.ladenFallback ? " [FALLBACK]" : ""}
+                          {distanceSourceMarker[item.distances.ladenSource]}
+                        </div>
+                        {item.distances.ladenVia.length ? (
+                          <div className="text-[11px] text-neutral-500">
+                            via {item.distances.ladenVia.join(", ")}
+                          </div>
+                        ) : null}
+                        <div className="text-[11px] text-neutral-500">
+                          Sea route: {item.routeVariants.ballast.name} /{" "}
+                          {item.routeVariants.laden.name}
+                          {item.routeVariants.canalDues > 0
+                            ? ` | dues ${formatMoney(item.routeVariants.canalDues)}`
+                            : ""}
                         </div>
                       </td>
                     </tr>
@@ -385,6 +843,62 @@ export default function Recommendation3Plus4Page() {
             </div>
           </div>
 
+          {data.breakEvenRates.length ? (
+            <div className="mt-6">
+              <div className="text-xs font-semibold text-neutral-600">
+                Market cargo break-even freight
+              </div>
+              <div className="mt-2 overflow-x-auto rounded border border-neutral-200">
+                <table className="min-w-full text-xs text-neutral-700">
+                  <thead className="bg-neutral-50 text-[11px] uppercase text-neutral-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Cargo</th>
+                      <th className="px-3 py-2 text-left">Route</th>
+                      <th className="px-3 py-2 text-right">Assumed rate</th>
+                      <th className="px-3 py-2 text-right">Break-even</th>
+                      <th className="px-3 py-2 text-left">Best vessel</th>
+                      <th className="px-3 py-2 text-right">Margin</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.breakEvenRates.map((item) => (
+                      <tr key={item.cargoId} className="border-t">
+                        <td className="px-3 py-2">{item.cargoName}</td>
+                        <td className="px-3 py-2">{item.route}</td>
+                        <td className="px-3 py-2 text-right">
+                          <div>{formatMoney(item.freightRate)}/MT</div>
+                          <div
+                            className={
+                              item.freightRateSource === "default" ||
+                              item.freightRateSource === "rate_table_illustrative"
+                                ? "text-[11px] text-amber-600"
+                                : "text-[11px] text-neutral-500"
+                            }
+                          >
+                            {item.freightRateSource}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {item.breakEvenRate === null ? "--" : `${formatMoney(item.breakEvenRate)}/MT`}
+                        </td>
+                        <td className="px-3 py-2">{item.breakEvenVessel ?? "No feasible vessel"}</td>
+                        <td
+                          className={
+                            (item.margin ?? 0) < 0
+                              ? "px-3 py-2 text-right text-red-600"
+                              : "px-3 py-2 text-right"
+                          }
+                        >
+                          {item.margin === null ? "--" : `${formatMoney(item.margin)}/MT`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
+
           <div className="mt-6 rounded border border-neutral-200 bg-neutral-50 p-3 text-xs text-neutral-700">
             <div className="font-semibold text-neutral-600">Decision</div>
             <div className="mt-2">
@@ -392,12 +906,89 @@ export default function Recommendation3Plus4Page() {
                 ? `Not assigning vessel(s): ${data.decision.unassigned.join(", ")}`
                 : "Not assigning vessel(s): NONE"}
             </div>
+            {data.laycanExclusions.length ? (
+              <div className="mt-2 text-red-600">
+                <div className="font-semibold">Excluded cargos (unreadable laycan)</div>
+                {data.laycanExclusions.map((item) => (
+                  <div key={item.cargoId}>
+                    {item.cargoName}: {item.reason}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {data.laycanRiskRejections.length ? (
+              <div className="mt-2 text-red-600">
+                <div className="font-semibold">Rejected pairs (laycan miss risk)</div>
+                {data.laycanRiskRejections.map((item) => (
+                  <div key={`${item.vesselName}-${item.cargoName}`}>
+                    {item.vesselName} {"->"} {item.cargoName}:{" "}
+                    {formatNumber(item.missProbability * 100)}% miss at full speed
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {data.routeExclusions.length ? (
+              <div className="mt-2 text-red-600">
+                <div className="font-semibold">Dropped pairs (avoided chokepoints)</div>
+                {data.routeExclusions.map((item) => (
+                  <div key={`${item.vesselName}-${item.cargoName}`}>
+                    {item.vesselName} {"->"} {item.cargoName}: every {item.leg} route is
+                    blocked
+                  </div>
+                ))}
+              </div>
+            ) : null}
           </div>
 
           <div className="mt-4 space-y-1 text-xs text-neutral-600">
             <div>{data.notes.hireNote}</div>
             <div>{data.notes.riskNote}</div>
+            <div>
+              Distance estimate: great-circle x {formatNumber(data.notes.distanceEstimate.detourFactor)},
+              mean error {formatNumber(data.notes.distanceEstimate.meanAbsErrorPct)}% over{" "}
+              {data.notes.distanceEstimate.pairCount} table pairs
+            </div>
           </div>
+
+          {data.validation.issues.length ? (
+            <div className="mt-6">
+              <div className="text-xs font-semibold text-neutral-600">
+                Data validation ({data.validation.summary.errors} errors,{" "}
+                {data.validation.summary.warnings} warnings)
+              </div>
+              <div className="mt-2 overflow-x-auto rounded border border-neutral-200">
+                <table className="min-w-full text-xs text-neutral-700">
+                  <thead className="bg-neutral-50 text-[11px] uppercase text-neutral-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left">File</th>
+                      <th className="px-3 py-2 text-right">Row</th>
+                      <th className="px-3 py-2 text-left">Record</th>
+                      <th className="px-3 py-2 text-left">Column</th>
+                      <th className="px-3 py-2 text-left">Issue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.validation.issues.map((issue, idx) => (
+                      <tr
+                        key={`${issue.file}-${issue.row}-${issue.column}-${idx}`}
+                        className={
+                          issue.severity === "error" ? "border-t text-red-600" : "border-t text-amber-600"
+                        }
+                      >
+                        <td className="px-3 py-2">{issue.file}</td>
+                        <td className="px-3 py-2 text-right">{issue.row || "--"}</td>
+                        <td className="px-3 py-2">{issue.record}</td>
+                        <td className="px-3 py-2">
+                          {issue.column} ({issue.unit})
+                        </td>
+                        <td className="px-3 py-2">{issue.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
         </section>
       ) : reply ? (
         <section className="rounded-lg border border-neutral-200 bg-white p-4 text-sm">
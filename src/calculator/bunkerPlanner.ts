@@ -0,0 +1,77 @@
+import { calculateFreight, type BunkerStop, type FreightInputs, type FreightOutputs } from "./freightCalculator";
+import { getLegDistance, type DistanceEstimator } from "./portDistances";
+
+export type BunkerPortQuote = {
+  port: string;
+  // Null when the file has no quote for the grade.
+  ifoPrice: number | null;
+  mdoPrice: number | null;
+  portCost: number;
+  stemDays: number;
+};
+
+export type BunkerPlan = {
+  stops: BunkerStop[];
+  outputs: FreightOutputs;
+};
+
+// Builds call options for one leg. Deviation and position come from the direct leg and
+// the two sub-legs via the port (table, routed or great-circle estimate); a port that
+// cannot be placed on the leg is not offered. Quotes are used as given; `fallbackPrices`
+// (the IFO/MDO inputs) only price a grade the port has no quote for.
+export const getBunkerCandidates = (
+  quotes: BunkerPortQuote[],
+  leg: BunkerStop["leg"],
+  from: string,
+  to: string,
+  distanceMap: Record<string, Record<string, number>>,
+  estimator: DistanceEstimator | undefined,
+  fallbackPrices: { ifo: number; mdo: number },
+): BunkerStop[] => {
+  const direct = getLegDistance(distanceMap, from, to, estimator);
+  if (direct.source === "default") return [];
+  return quotes.flatMap((quote) => {
+    const toPort = getLegDistance(distanceMap, from, quote.port, estimator);
+    const fromPort = getLegDistance(distanceMap, quote.port, to, estimator);
+    if (toPort.source === "default" || fromPort.source === "default") return [];
+    const viaPort = toPort.distanceNm + fromPort.distanceNm;
+    return [
+      {
+        port: quote.port,
+        leg,
+        position: viaPort > 0 ? toPort.distanceNm / viaPort : 0,
+        deviationNm: Math.max(viaPort - direct.distanceNm, 0),
+        ifoPrice: quote.ifoPrice ?? fallbackPrices.ifo,
+        mdoPrice: quote.mdoPrice ?? fallbackPrices.mdo,
+        portCost: quote.portCost,
+        stemDays: quote.stemDays,
+      },
+    ];
+  });
+};
+
+// Tries no call and every single call on each leg (at most one per leg) and keeps the
+// most profitable plan that covers the voyage; infeasible plans only win if nothing is
+// feasible. Run it once per vessel/cargo at a reference speed, then reuse the stops.
+export const planBunkerStops = (inputs: FreightInputs, candidates: BunkerStop[]): BunkerPlan => {
+  const ballast = [undefined, ...candidates.filter((stop) => stop.leg === "ballast")];
+  const laden = [undefined, ...candidates.filter((stop) => stop.leg === "laden")];
+
+  let best: BunkerPlan | null = null;
+  for (const ballastStop of ballast) {
+    for (const ladenStop of laden) {
+      const stops = [ballastStop, ladenStop].filter((stop): stop is BunkerStop => Boolean(stop));
+      const outputs = calculateFreight({
+        ...inputs,
+        options: { ...inputs.options, bunkerStops: stops },
+      });
+      const better =
+        !best ||
+        (outputs.bunkerPlanFeasible && !best.outputs.bunkerPlanFeasible) ||
+        (outputs.bunkerPlanFeasible === best.outputs.bunkerPlanFeasible &&
+          outputs.profit > best.outputs.profit);
+      if (better) best = { stops, outputs };
+    }
+  }
+  return best as BunkerPlan;
+};
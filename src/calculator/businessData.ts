@@ -0,0 +1,1336 @@
+import type { BunkerPortQuote } from "./bunkerPlanner";
+import { exampleInputs, type FreightInputs } from "./freightCalculator";
+import { parseFreightTiers, parseLumpsum } from "./freightTerms";
+import {
+  isValidTimeZone,
+  parseDateInput,
+  parseLaycan,
+  type LaycanParseResult,
+  type LaycanWindow,
+} from "./laycan";
+import { parseLaytimeBasis, parseReversible } from "./laytime";
+import type { ConsumptionTable } from "./speed";
+import {
+  calibrateDistanceEstimator,
+  extractPortFromStatus,
+  parseDistanceCsv,
+  type DistanceEstimator,
+  type PortCoordinates,
+} from "./portDistances";
+import { resolvePort, type PortMasterEntry, type PortMatch } from "./portMaster";
+import {
+  inferPortOptionRule,
+  parseAlternativePorts,
+  parsePortOptionRule,
+  type PortOptions,
+} from "./portOptions";
+import {
+  getLoadLineZone,
+  getLoadPortRestriction,
+  isLoadLineZone,
+  parseZoneSeasons,
+} from "./portRestrictions";
+import {
+  chokepointLabels,
+  isChokepoint,
+  type Chokepoint,
+  type ChokepointCosts,
+  type SeaRouteRule,
+  type SeaRoutes,
+} from "./routeVariants";
+import {
+  estimateIntakeParticulars,
+  getCommodityStowFactor,
+  type IntakeParticulars,
+  type LoadLineZone,
+  type QuantityRange,
+} from "./weight";
+import {
+  bunkerPortSchema,
+  cargoSchema,
+  chokepointSchema,
+  emptyValidationReport,
+  freightRateSchema,
+  portMasterSchema,
+  resolveColumns,
+  seaRouteSchema,
+  speedTableSchema,
+  summarizeReport,
+  vesselSchema,
+  type ColumnSpec,
+  type ValidationReport,
+  type ValidationSeverity,
+} from "./dataSchema";
+
+export type CsvRow = Record<string, string>;
+
+export type VesselSource = "capesize" | "market";
+export type CargoSource = "committed" | "market";
+// "rate_table_illustrative" is a rate-table quote marked as a made-up example.
+export type FreightRateSource =
+  | "override"
+  | "contract"
+  | "rate_table"
+  | "rate_table_illustrative"
+  | "default";
+
+export type FreightRateQuote = {
+  loadPort: string;
+  dischargePort: string;
+  freightRate: number;
+  source: string;
+  asOf: string;
+  illustrative: boolean;
+};
+
+export type VesselOption = {
+  id: string;
+  name: string;
+  source: VesselSource;
+  currentPort: string;
+  etdDate: string;
+  currentPortMatch: PortMatch;
+  // Local time zone of the vessel's current port; ETD is read in it.
+  etdTimeZone: string;
+  intake: IntakeParticulars;
+  // Grain capacity was not given and `data.grainCapacity` is scaled from DWT.
+  grainCapacityEstimated: boolean;
+  raw: CsvRow;
+  data: FreightInputs["vessel"];
+};
+
+export type CargoOption = {
+  id: string;
+  name: string;
+  source: CargoSource;
+  // Charterer; empty when the file does not say.
+  customer: string;
+  raw: CsvRow;
+  data: FreightInputs["cargo"];
+  quantityRange: QuantityRange | null;
+  loadPort: string;
+  dischargePort: string;
+  loadPortMatch: PortMatch;
+  dischargePortMatch: PortMatch;
+  portCosts: { load: number; discharge: number };
+  laycanLabel: string;
+  laycanWindow: LaycanWindow | null;
+  laycanParse: LaycanParseResult;
+  // Draft limit and load-line zone at the load port on the laycan opening day.
+  loadPortMaxDraftM: number | null;
+  loadLineZone: LoadLineZone;
+  // Alternative ports the cargo may be fixed for, and how their freight is set.
+  portOptions: PortOptions;
+  // Draft limit and zone for every load-port option, keyed by port.
+  loadPortLimits: Record<string, { maxDraftM: number | null; zone: LoadLineZone }>;
+  freightRateSource: FreightRateSource;
+  freightRateQuote: FreightRateQuote | null;
+};
+
+export type DistanceData = ReturnType<typeof parseDistanceCsv>;
+
+export type BusinessData = {
+  vessels: VesselOption[];
+  cargos: CargoOption[];
+  distances: DistanceData;
+  portMaster: PortMasterEntry[];
+  // Great-circle fallback for legs the distance table cannot connect.
+  distanceEstimator: DistanceEstimator;
+  committedCount: number;
+  marketCount: number;
+  freightRates: FreightRateQuote[];
+  bunkerPorts: BunkerPortQuote[];
+  seaRoutes: SeaRoutes;
+  validation: ValidationReport;
+};
+
+export type LoadOptions = {
+  marketHireRate?: number;
+  // $/MT keyed by cargo id (e.g. "market-3") or cargo name; beats every other rate source.
+  freightRateOverrides?: Record<string, number>;
+  // Speed/consumption tables keyed by vessel name; replace any rows from speed_consumption.csv.
+  consumptionTables?: Record<string, ConsumptionTable>;
+  // Anchors "spot"/"prompt" laycans and year-less dates; defaults to now.
+  referenceDate?: Date;
+};
+
+export const businessDataFiles = {
+  capesizeVessels: "vessels/capesize_vessels.csv",
+  marketVessels: "vessels/market_vessels.csv",
+  speedConsumption: "vessels/speed_consumption.csv",
+  committedCargos: "cargos/committed_cargos.csv",
+  marketCargos: "cargos/market_cargos.csv",
+  marketFreightRates: "cargos/market_freight_rates.csv",
+  portDistances: "port_data/port_distances.csv",
+  bunkerPorts: "port_data/bunker_ports.csv",
+  portMaster: "port_data/port_master.csv",
+  chokepoints: "port_data/chokepoints.csv",
+  seaRoutes: "port_data/sea_routes.csv",
+} as const;
+
+export type BusinessDataFile = (typeof businessDataFiles)[keyof typeof businessDataFiles];
+
+export type CsvTable = {
+  headers: string[];
+  rows: CsvRow[];
+};
+
+export const parseCsvTable = (text: string): CsvTable => {
+  const rows: string[][] = [];
+  let current = "";
+  let row: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    const next = text[i + 1];
+    if (char === "\"") {
+      if (inQuotes && next === "\"") {
+        current += "\"";
+        i += 1;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (char === "," && !inQuotes) {
+      row.push(current);
+      current = "";
+      continue;
+    }
+    if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (char === "\r" && next === "\n") i += 1;
+      row.push(current);
+      current = "";
+      if (row.some((cell) => cell.trim().length > 0)) {
+        rows.push(row);
+      }
+      row = [];
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.length > 0 || row.length > 0) {
+    row.push(current);
+    if (row.some((cell) => cell.trim().length > 0)) {
+      rows.push(row);
+    }
+  }
+
+  if (rows.length === 0) return { headers: [], rows: [] };
+  const headers = rows[0].map((header) => header.trim());
+  return {
+    headers,
+    rows: rows.slice(1).map((cells) => {
+      const record: CsvRow = {};
+      headers.forEach((header, index) => {
+        record[header] = (cells[index] ?? "").trim();
+      });
+      return record;
+    }),
+  };
+};
+
+export const parseCsv = (text: string): CsvRow[] => parseCsvTable(text).rows;
+
+export const toNumber = (value: string | undefined | null, fallback = 0) => {
+  if (!value) return fallback;
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  const parsed = Number.parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const formatQty = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+export const parseFirstNumber = (value: string | undefined | null, fallback = 0) => {
+  if (!value) return fallback;
+  const match = value.match(/[\d,.]+/);
+  return match ? toNumber(match[0], fallback) : fallback;
+};
+
+export const parseQuantityRange = (
+  value: string | undefined | null,
+  fallbackQty: number,
+): { baseQty: number; range: QuantityRange | null } => {
+  if (!value) return { baseQty: fallbackQty, range: null };
+  const baseQty = parseFirstNumber(value, fallbackQty);
+  const percentMatch = value.match(/([\d.]+)\s*%/);
+  if (percentMatch) {
+    const pct = Number.parseFloat(percentMatch[1]);
+    if (Number.isFinite(pct) && baseQty > 0) {
+      const min = baseQty * (1 - pct / 100);
+      const max = baseQty * (1 + pct / 100);
+      return {
+        baseQty,
+        range: { min, max, label: `${formatQty(min)} - ${formatQty(max)} MT` },
+      };
+    }
+  }
+  const rangeMatch = value.match(/([\d,.]+)\s*(?:-|to)\s*([\d,.]+)/i);
+  if (rangeMatch) {
+    const first = toNumber(rangeMatch[1], baseQty);
+    const second = toNumber(rangeMatch[2], baseQty);
+    const min = Math.min(first, second);
+    const max = Math.max(first, second);
+    return {
+      baseQty,
+      range: { min, max, label: `${formatQty(min)} - ${formatQty(max)} MT` },
+    };
+  }
+  return { baseQty, range: null };
+};
+
+export const parsePercent = (value: string | undefined | null, fallback = 0) => {
+  if (!value) return fallback;
+  const match = value.match(/[\d.]+/);
+  if (!match) return fallback;
+  const parsed = Number.parseFloat(match[0]);
+  return Number.isFinite(parsed) ? parsed / 100 : fallback;
+};
+
+export const parseTurnTimeDays = (value: string | undefined | null, fallback = 0) => {
+  if (!value) return fallback;
+  const match = value.match(/([\d.]+)\s*hr/i);
+  if (!match) return fallback;
+  const hours = Number.parseFloat(match[1]);
+  if (!Number.isFinite(hours)) return fallback;
+  return hours / 24;
+};
+
+export const parseRateFromTerms = (value: string | undefined | null, fallback = 0) => {
+  if (!value) return fallback;
+  const match = value.match(/([\d,.]+)\s*MT/i);
+  if (!match) return fallback;
+  return toNumber(match[1], fallback);
+};
+
+export const parsePortCosts = (
+  value: string | undefined | null,
+  fallbackLoad: number,
+  fallbackDischarge: number,
+) => {
+  if (!value) {
+    return { load: fallbackLoad, discharge: fallbackDischarge };
+  }
+  // "Nil, borne by Charterer": no port costs for owners.
+  if (/\bnil\b/i.test(value)) {
+    return { load: 0, discharge: 0 };
+  }
+  const amounts = Array.from(value.matchAll(/([\d.]+)\s*([KM])?/gi)).map((match) => {
+    const base = Number.parseFloat(match[1]);
+    if (!Number.isFinite(base)) return 0;
+    const multiplier =
+      match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
+    return base * multiplier;
+  });
+
+  if (amounts.length === 0) {
+    return { load: fallbackLoad, discharge: fallbackDischarge };
+  }
+
+  const lower = value.toLowerCase();
+  if (amounts.length >= 2 && lower.includes("load") && lower.includes("discharge")) {
+    return { load: amounts[0], discharge: amounts[1] };
+  }
+
+  if (lower.includes("total")) {
+    const total = amounts[0];
+    return { load: total / 2, discharge: total / 2 };
+  }
+
+  if (amounts.length === 1) {
+    return { load: amounts[0], discharge: fallbackDischarge };
+  }
+
+  return { load: amounts[0], discharge: amounts[1] ?? fallbackDischarge };
+};
+
+
+type RowReader<K extends string> = {
+  text: (key: K) => string;
+  number: (key: K, fallback: number) => number;
+  report: (
+    key: K,
+    message: string,
+    fallback?: number | string,
+    severity?: ValidationSeverity,
+  ) => void;
+};
+
+// Binds one CSV row to its schema so every fallback to `exampleInputs` is reported
+// with the file, line, column and substituted value instead of happening silently.
+const createRowReader = <K extends string>(
+  file: string,
+  schema: Record<K, ColumnSpec>,
+  columns: Record<K, string | null>,
+  validation: ValidationReport,
+  row: CsvRow,
+  line: number,
+  record: string,
+): RowReader<K> => {
+  const text = (key: K) => {
+    const column = columns[key];
+    return column ? (row[column] ?? "").trim() : "";
+  };
+  const report: RowReader<K>["report"] = (key, message, fallback, severity) => {
+    const spec = schema[key];
+    validation.issues.push({
+      file,
+      row: line,
+      record,
+      column: columns[key] ?? spec.column,
+      unit: spec.unit,
+      severity: severity ?? (spec.required ? "error" : "warning"),
+      message,
+      fallback,
+    });
+  };
+  const number = (key: K, fallback: number) => {
+    // An optional column absent from the header is already reported once by resolveColumns.
+    if (columns[key] === null && !schema[key].required) return fallback;
+    const value = text(key);
+    if (!value) {
+      report(key, `Missing value; using default ${fallback} ${schema[key].unit}.`, fallback);
+      return fallback;
+    }
+    const parsed = toNumber(value, Number.NaN);
+    if (!Number.isFinite(parsed)) {
+      report(key, `Unreadable value "${value}"; using default ${fallback} ${schema[key].unit}.`, fallback);
+      return fallback;
+    }
+    return parsed;
+  };
+  return { text, number, report };
+};
+
+type VesselKey = keyof typeof vesselSchema;
+type CargoKey = keyof typeof cargoSchema;
+type FreightRateKey = keyof typeof freightRateSchema;
+type BunkerPortKey = keyof typeof bunkerPortSchema;
+type SpeedTableKey = keyof typeof speedTableSchema;
+type PortMasterKey = keyof typeof portMasterSchema;
+type ChokepointKey = keyof typeof chokepointSchema;
+type SeaRouteKey = keyof typeof seaRouteSchema;
+
+const parsePortMaster = (
+  table: CsvTable,
+  file: string,
+  validation: ValidationReport,
+): PortMasterEntry[] => {
+  const columns = resolveColumns<PortMasterKey>(file, table.headers, portMasterSchema, validation);
+  return table.rows.flatMap((row, rowIndex) => {
+    const name = (row[columns.name ?? ""] ?? "").trim();
+    const read = createRowReader(
+      file,
+      portMasterSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      name || `Port ${rowIndex + 1}`,
+    );
+    if (!name) {
+      read.report("name", "Missing port name; row ignored.");
+      return [];
+    }
+    const optionalNumber = (key: "lat" | "lon" | "maxDraftM") => {
+      const value = read.text(key);
+      if (!value) return null;
+      const parsed = toNumber(value, Number.NaN);
+      if (Number.isFinite(parsed)) return parsed;
+      read.report(key, `Unreadable value "${value}"; leaving it blank.`);
+      return null;
+    };
+    const timeZoneText = read.text("timeZone");
+    if (timeZoneText && !isValidTimeZone(timeZoneText)) {
+      read.report("timeZone", `Unknown time zone "${timeZoneText}"; using UTC.`);
+    }
+    const zoneText = read.text("loadLineZone").toLowerCase();
+    if (zoneText && !isLoadLineZone(zoneText)) {
+      read.report("loadLineZone", `Unknown load-line zone "${zoneText}"; using summer.`);
+    }
+    const seasonsText = read.text("zoneSeasons");
+    const zoneSeasons = parseZoneSeasons(seasonsText);
+    if (!zoneSeasons) {
+      read.report("zoneSeasons", `Unreadable seasons "${seasonsText}"; ignoring them.`);
+    }
+    return [
+      {
+        name,
+        country: read.text("country"),
+        unlocode: read.text("unlocode").replace(/\s+/g, "").toUpperCase(),
+        lat: optionalNumber("lat"),
+        lon: optionalNumber("lon"),
+        aliases: read
+          .text("aliases")
+          .split(";")
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+        timeZone: timeZoneText && isValidTimeZone(timeZoneText) ? timeZoneText : "",
+        maxDraftM: optionalNumber("maxDraftM"),
+        loadLineZone: isLoadLineZone(zoneText) ? zoneText : "summer",
+        zoneSeasons: zoneSeasons ?? [],
+        region: read.text("region").toLowerCase(),
+      },
+    ];
+  });
+};
+
+// Heuristic and failed matches are worth a look: they are how ambiguous names end up on
+// the wrong distance-table row.
+const reportPortMatch = <K extends string>(read: RowReader<K>, key: K, match: PortMatch) => {
+  if (match.confidence === "heuristic") {
+    read.report(
+      key,
+      `Port "${match.input}" matched to ${match.port} by name heuristics only; add an alias to port_master.csv.`,
+      match.port,
+      "warning",
+    );
+  } else if (match.confidence === "none" && match.input) {
+    read.report(
+      key,
+      `Port "${match.input}" is not in port_master.csv or port_distances.csv.`,
+      undefined,
+      "warning",
+    );
+  }
+};
+
+// Master time zone when recorded, otherwise UTC.
+const getMatchTimeZone = (match: PortMatch) => match.entry?.timeZone || "UTC";
+
+const parseSpeedTables = (
+  table: CsvTable,
+  file: string,
+  validation: ValidationReport,
+): Record<string, ConsumptionTable> => {
+  const columns = resolveColumns<SpeedTableKey>(file, table.headers, speedTableSchema, validation);
+  const tables: Record<string, ConsumptionTable> = {};
+  table.rows.forEach((row, rowIndex) => {
+    const name = (row[columns.vesselName ?? ""] ?? "").trim();
+    const read = createRowReader(
+      file,
+      speedTableSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      name || `Row ${rowIndex + 1}`,
+    );
+    const condition = read.text("condition").toLowerCase();
+    const speed = toNumber(read.text("speed"), Number.NaN);
+    const ifo = toNumber(read.text("ifo"), Number.NaN);
+    const mdo = toNumber(read.text("mdo"), Number.NaN);
+    if (!name) {
+      read.report("vesselName", "Missing vessel name; row ignored.");
+      return;
+    }
+    if (condition !== "ballast" && condition !== "laden") {
+      read.report("condition", `Condition "${condition}" is not ballast or laden; row ignored.`);
+      return;
+    }
+    if (![speed, ifo, mdo].every(Number.isFinite)) {
+      read.report("speed", "Unreadable speed or consumption; row ignored.");
+      return;
+    }
+    const key = name.toUpperCase();
+    tables[key] = tables[key] ?? { ballast: [], laden: [] };
+    tables[key][condition].push({ speed, ifo, mdo });
+  });
+  return tables;
+};
+
+const parseVessels = (
+  table: CsvTable,
+  source: VesselSource,
+  file: string,
+  offset: number,
+  ports: string[],
+  portMaster: PortMasterEntry[],
+  options: LoadOptions,
+  speedTables: Record<string, ConsumptionTable>,
+  validation: ValidationReport,
+): VesselOption[] => {
+  const columns = resolveColumns<VesselKey>(file, table.headers, vesselSchema, validation);
+  return table.rows.map((row, rowIndex) => {
+    const index = offset + rowIndex;
+    const name = row[columns.name ?? ""] || `Vessel ${index + 1}`;
+    const read = createRowReader(file, vesselSchema, columns, validation, row, rowIndex + 2, name);
+    const defaults = exampleInputs.vessel;
+
+    const dwt = read.number("dwt", defaults.dwt);
+    const currentPortRaw = extractPortFromStatus(read.text("positionStatus"));
+    if (!currentPortRaw) read.report("positionStatus", "Missing vessel position.");
+    const currentPortMatch = resolvePort(currentPortRaw, portMaster, ports);
+    reportPortMatch(read, "positionStatus", currentPortMatch);
+    const currentPort = currentPortMatch.port;
+    const etdDate = read.text("etdDate");
+    const etdTimeZone = getMatchTimeZone(currentPortMatch);
+    if (etdDate && !parseDateInput(etdDate, etdTimeZone)) {
+      read.report("etdDate", `Unreadable ETD "${etdDate}"; today's date will be used.`);
+    }
+    const estimated = estimateIntakeParticulars(dwt);
+    const intake: IntakeParticulars = {
+      summerDraftM: read.number("summerDraft", estimated.summerDraftM),
+      tpc: read.number("tpc", estimated.tpc),
+      constantMt: read.number("constant", estimated.constantMt),
+      freshWaterMt: read.number("freshWater", estimated.freshWaterMt),
+    };
+    const grainCapacityText = read.text("grainCapacity");
+    const estimatedGrainCapacity = Math.round((dwt * defaults.grainCapacity) / defaults.dwt);
+    if (!grainCapacityText) {
+      read.report(
+        "grainCapacity",
+        `No grain capacity for ${name}; cube check uses ${estimatedGrainCapacity} m3 scaled from DWT.`,
+        estimatedGrainCapacity,
+      );
+    }
+    const grainCapacityEstimated = !Number.isFinite(toNumber(grainCapacityText, Number.NaN));
+    const consumptionTable =
+      options.consumptionTables?.[name] ?? speedTables[name.trim().toUpperCase()];
+    // Speed limits are only taken from the particulars, never defaulted.
+    const readSpeedRange = (
+      minKey: "minBallastSpeed" | "minLadenSpeed",
+      maxKey: "maxBallastSpeed" | "maxLadenSpeed",
+    ) => {
+      const min = read.text(minKey) ? read.number(minKey, Number.NaN) : Number.NaN;
+      const max = read.text(maxKey) ? read.number(maxKey, Number.NaN) : Number.NaN;
+      return Number.isFinite(min) && Number.isFinite(max) && min > 0 && min <= max
+        ? { min, max }
+        : undefined;
+    };
+    const speedRange = {
+      ballast: readSpeedRange("minBallastSpeed", "maxBallastSpeed"),
+      laden: readSpeedRange("minLadenSpeed", "maxLadenSpeed"),
+    };
+
+    const useMarketHire = source === "market" && Number.isFinite(options.marketHireRate);
+    const dailyHire = useMarketHire
+      ? (options.marketHireRate as number)
+      : read.number("hireRate", defaults.dailyHire);
+
+    return {
+      id: `${source}-${index}`,
+      name,
+      source,
+      currentPort: currentPort || currentPortRaw || "UNKNOWN",
+      currentPortMatch,
+      etdDate,
+      etdTimeZone,
+      intake,
+      grainCapacityEstimated,
+      raw: row,
+      data: {
+        dwt,
+        grainCapacity: grainCapacityText
+          ? read.number("grainCapacity", estimatedGrainCapacity)
+          : estimatedGrainCapacity,
+        speed: {
+          ballast: read.number("ecoBallastSpeed", defaults.speed.ballast),
+          laden: read.number("ecoLadenSpeed", defaults.speed.laden),
+        },
+        speedWarranted: {
+          ballast: read.number("warrantedBallastSpeed", defaults.speedWarranted.ballast),
+          laden: read.number("warrantedLadenSpeed", defaults.speedWarranted.laden),
+        },
+        consumption: {
+          ballast: {
+            ifo: read.number("ecoBallastIfo", defaults.consumption.ballast.ifo),
+            mdo: read.number("ecoBallastMdo", defaults.consumption.ballast.mdo),
+          },
+          laden: {
+            ifo: read.number("ecoLadenIfo", defaults.consumption.laden.ifo),
+            mdo: read.number("ecoLadenMdo", defaults.consumption.laden.mdo),
+          },
+        },
+        consumptionWarranted: {
+          ballast: {
+            ifo: read.number("warrantedBallastIfo", defaults.consumptionWarranted.ballast.ifo),
+            mdo: read.number("warrantedBallastMdo", defaults.consumptionWarranted.ballast.mdo),
+          },
+          laden: {
+            ifo: read.number("warrantedLadenIfo", defaults.consumptionWarranted.laden.ifo),
+            mdo: read.number("warrantedLadenMdo", defaults.consumptionWarranted.laden.mdo),
+          },
+        },
+        portConsumption: {
+          working: {
+            ifo: read.number("portWorkingIfo", defaults.portConsumption.working.ifo),
+            mdo: defaults.portConsumption.working.mdo,
+          },
+          idle: {
+            ifo: read.number("portIdleIfo", defaults.portConsumption.idle.ifo),
+            mdo: defaults.portConsumption.idle.mdo,
+          },
+        },
+        dailyHire,
+        adComsPct: defaults.adComsPct,
+        rob: {
+          ifo: read.number("robIfo", defaults.rob.ifo),
+          mdo: read.number("robMdo", defaults.rob.mdo),
+        },
+        tankCapacity: {
+          ifo: read.number("tankIfo", defaults.tankCapacity.ifo),
+          mdo: read.number("tankMdo", defaults.tankCapacity.mdo),
+        },
+        consumptionTable,
+        speedRange,
+      },
+    };
+  });
+};
+
+const parseFreightRates = (
+  table: CsvTable,
+  file: string,
+  ports: string[],
+  portMaster: PortMasterEntry[],
+  validation: ValidationReport,
+): FreightRateQuote[] => {
+  const columns = resolveColumns<FreightRateKey>(file, table.headers, freightRateSchema, validation);
+  return table.rows.flatMap((row, rowIndex) => {
+    const read = createRowReader(
+      file,
+      freightRateSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      `${row[columns.loadPort ?? ""] ?? ""} - ${row[columns.dischargePort ?? ""] ?? ""}`,
+    );
+    const loadPortRaw = read.text("loadPort");
+    const dischargePortRaw = read.text("dischargePort");
+    const freightRate = toNumber(read.text("freightRate"), Number.NaN);
+    if (!loadPortRaw || !dischargePortRaw) {
+      read.report(loadPortRaw ? "dischargePort" : "loadPort", "Missing port; rate ignored.");
+      return [];
+    }
+    if (!Number.isFinite(freightRate) || freightRate <= 0) {
+      read.report("freightRate", `Unreadable rate "${read.text("freightRate")}"; rate ignored.`);
+      return [];
+    }
+    return [
+      {
+        loadPort: resolvePort(loadPortRaw, portMaster, ports).port || loadPortRaw,
+        dischargePort: resolvePort(dischargePortRaw, portMaster, ports).port || dischargePortRaw,
+        freightRate,
+        source: read.text("source"),
+        asOf: read.text("asOf"),
+        illustrative: /^(yes|y|true|1)$/i.test(read.text("illustrative")),
+      },
+    ];
+  });
+};
+
+const parseBunkerPorts = (
+  table: CsvTable,
+  file: string,
+  ports: string[],
+  portMaster: PortMasterEntry[],
+  validation: ValidationReport,
+): BunkerPortQuote[] => {
+  const columns = resolveColumns<BunkerPortKey>(file, table.headers, bunkerPortSchema, validation);
+  return table.rows.flatMap((row, rowIndex) => {
+    const portRaw = row[columns.port ?? ""] ?? "";
+    const read = createRowReader(
+      file,
+      bunkerPortSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      portRaw || `Bunker port ${rowIndex + 1}`,
+    );
+    if (!portRaw) {
+      read.report("port", "Missing port; row ignored.");
+      return [];
+    }
+    // A blank price is no quote: stems of that grade are priced at the IFO/MDO input.
+    const readPrice = (key: "ifoPrice" | "mdoPrice") => {
+      const text = read.text(key);
+      if (!text) {
+        read.report(key, "No quote; stems priced at the bunker price input.");
+        return null;
+      }
+      return toNumber(text, Number.NaN);
+    };
+    const ifoPrice = readPrice("ifoPrice");
+    const mdoPrice = readPrice("mdoPrice");
+    if (Number.isNaN(ifoPrice) || Number.isNaN(mdoPrice)) {
+      read.report(Number.isNaN(ifoPrice) ? "ifoPrice" : "mdoPrice", "Unreadable price; row ignored.");
+      return [];
+    }
+    return [
+      {
+        port: resolvePort(portRaw, portMaster, ports).port || portRaw,
+        ifoPrice,
+        mdoPrice,
+        portCost: read.number("portCost", exampleInputs.costs.bunkerDa),
+        stemDays: read.number("stemDays", exampleInputs.options.bunkerDays),
+      },
+    ];
+  });
+};
+
+// A chokepoint without a row is still routable but costs no time or dues; the report says so.
+const parseChokepoints = (
+  table: CsvTable,
+  file: string,
+  validation: ValidationReport,
+): Record<Chokepoint, ChokepointCosts> => {
+  const columns = resolveColumns<ChokepointKey>(file, table.headers, chokepointSchema, validation);
+  const costs: Partial<Record<Chokepoint, ChokepointCosts>> = {};
+  table.rows.forEach((row, rowIndex) => {
+    const id = (row[columns.chokepoint ?? ""] ?? "").trim().toLowerCase();
+    const read = createRowReader(
+      file,
+      chokepointSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      id || `Chokepoint ${rowIndex + 1}`,
+    );
+    if (!isChokepoint(id)) {
+      read.report("chokepoint", `Unknown chokepoint "${id}"; row ignored.`);
+      return;
+    }
+    costs[id] = {
+      transitDays: read.number("transitDays", 0),
+      dues: { ballast: read.number("ballastDues", 0), laden: read.number("ladenDues", 0) },
+    };
+  });
+  const points = Object.keys(chokepointLabels) as Chokepoint[];
+  return Object.fromEntries(
+    points.map((point) => {
+      if (!costs[point]) {
+        validation.issues.push({
+          file,
+          row: 0,
+          record: chokepointLabels[point],
+          column: chokepointSchema.chokepoint.column,
+          unit: "text",
+          severity: "error",
+          message: `No row for ${chokepointLabels[point]}; its transits cost no time or dues.`,
+        });
+      }
+      return [point, costs[point] ?? { transitDays: 0, dues: { ballast: 0, laden: 0 } }];
+    }),
+  ) as Record<Chokepoint, ChokepointCosts>;
+};
+
+// Rows sharing a region pair (either order) form one rule, which needs exactly one table route.
+const parseSeaRouteRules = (
+  table: CsvTable,
+  file: string,
+  validation: ValidationReport,
+): SeaRouteRule[] => {
+  const columns = resolveColumns<SeaRouteKey>(file, table.headers, seaRouteSchema, validation);
+  const rules: SeaRouteRule[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    const from = (row[columns.fromRegion ?? ""] ?? "").trim().toLowerCase();
+    const to = (row[columns.toRegion ?? ""] ?? "").trim().toLowerCase();
+    const read = createRowReader(
+      file,
+      seaRouteSchema,
+      columns,
+      validation,
+      row,
+      rowIndex + 2,
+      `${from || "?"} - ${to || "?"}`,
+    );
+    if (!from || !to) {
+      read.report(from ? "toRegion" : "fromRegion", "Missing region; row ignored.");
+      return;
+    }
+    const via = read
+      .text("via")
+      .split(";")
+      .map((point) => point.trim().toLowerCase())
+      .filter(Boolean);
+    const unknown = via.find((point) => !isChokepoint(point));
+    if (unknown !== undefined) {
+      read.report("via", `Unknown chokepoint "${unknown}"; row ignored.`);
+      return;
+    }
+    const factor = toNumber(read.text("factor"), Number.NaN);
+    if (!(factor > 0)) {
+      read.report("factor", `Unreadable distance factor "${read.text("factor")}"; row ignored.`);
+      return;
+    }
+    let rule = rules.find(
+      ({ regions }) =>
+        (regions[0] === from && regions[1] === to) || (regions[0] === to && regions[1] === from),
+    );
+    if (!rule) {
+      rule = { regions: [from, to], variants: [] };
+      rules.push(rule);
+    }
+    rule.variants.push({
+      via: via as Chokepoint[],
+      factor,
+      tableRoute: /^(yes|y|true|1)$/i.test(read.text("tableRoute")),
+    });
+  });
+  return rules.filter((rule) => {
+    const tableRoutes = rule.variants.filter((variant) => variant.tableRoute).length;
+    if (tableRoutes === 1) return true;
+    validation.issues.push({
+      file,
+      row: 0,
+      record: rule.regions.join(" - "),
+      column: seaRouteSchema.tableRoute.column,
+      unit: "text",
+      severity: "error",
+      message: `${tableRoutes ? "More than one" : "No"} table route for ${rule.regions.join(" - ")}; rule ignored.`,
+    });
+    return false;
+  });
+};
+
+const parseCargos = (
+  table: CsvTable,
+  source: CargoSource,
+  file: string,
+  offset: number,
+  ports: string[],
+  portMaster: PortMasterEntry[],
+  freightRates: FreightRateQuote[],
+  options: LoadOptions,
+  validation: ValidationReport,
+): CargoOption[] => {
+  const columns = resolveColumns<CargoKey>(file, table.headers, cargoSchema, validation);
+  return table.rows.map((row, rowIndex) => {
+    const index = offset + rowIndex;
+    const name = row[columns.route ?? ""] || row[columns.customer ?? ""] || `Cargo ${index + 1}`;
+    const read = createRowReader(file, cargoSchema, columns, validation, row, rowIndex + 2, name);
+    const defaults = exampleInputs.cargo;
+    const baseCosts = exampleInputs.costs;
+
+    const quantityText = read.text("quantity");
+    if (!Number.isFinite(parseFirstNumber(quantityText, Number.NaN))) {
+      read.report(
+        "quantity",
+        `Unreadable quantity "${quantityText}"; using default ${defaults.cargoQty} MT.`,
+        defaults.cargoQty,
+      );
+    }
+    const { baseQty, range: quantityRange } = parseQuantityRange(quantityText, defaults.cargoQty);
+    const commodity = read.text("commodity");
+    const commodityStowFactor = getCommodityStowFactor(commodity);
+    const stowFactor = read.number("stowFactor", commodityStowFactor ?? defaults.stowFactor);
+    if (columns.stowFactor === null && commodityStowFactor === null) {
+      read.report(
+        "stowFactor",
+        `No stowage factor for commodity "${commodity}"; using default ${defaults.stowFactor} m3/MT.`,
+        defaults.stowFactor,
+      );
+    }
+
+    const termsNumber = (
+      key: "loadingTerms" | "dischargeTerms",
+      parser: (value: string, fallback: number) => number,
+      what: string,
+      fallback: number,
+      unit: string,
+    ) => {
+      const value = read.text(key);
+      const parsed = parser(value, Number.NaN);
+      if (Number.isFinite(parsed)) return parsed;
+      read.report(key, `No ${what} in "${value}"; using default ${fallback} ${unit}.`, fallback);
+      return fallback;
+    };
+    // Laytime rates are never defaulted: without them the voyage is not settled.
+    const readOptionalRate = (key: "demurrageRate" | "despatchRate") => {
+      const value = read.text(key);
+      if (!value) return null;
+      const parsed = toNumber(value, Number.NaN);
+      if (Number.isFinite(parsed)) return parsed;
+      read.report(key, `Unreadable value "${value}"; laytime not settled.`);
+      return null;
+    };
+    const loadRate = termsNumber("loadingTerms", parseRateFromTerms, "load rate", defaults.loadRate, "MT/day");
+    const dischargeRate = termsNumber(
+      "dischargeTerms",
+      parseRateFromTerms,
+      "discharge rate",
+      defaults.dischargeRate,
+      "MT/day",
+    );
+    const loadportTT = termsNumber(
+      "loadingTerms",
+      parseTurnTimeDays,
+      "turn time",
+      defaults.loadportTT,
+      "days",
+    );
+    const disportTT = termsNumber(
+      "dischargeTerms",
+      parseTurnTimeDays,
+      "turn time",
+      defaults.disportTT,
+      "days",
+    );
+
+    const commissionText = read.text("commission");
+    const commissionPct = parsePercent(commissionText, 0);
+    if (!commissionText) read.report("commission", "Missing commission; assuming 0%.", 0);
+    const commissionIsBroker = commissionText.toLowerCase().includes("broker");
+
+    const portCostText = read.text("portCost");
+    const portCosts = parsePortCosts(portCostText, baseCosts.portDisbLoad, baseCosts.portDisbDis);
+    if (!/\bnil\b|\d/i.test(portCostText)) {
+      read.report(
+        "portCost",
+        `Unreadable port cost "${portCostText}"; using default ${baseCosts.portDisbLoad} USD per port.`,
+        baseCosts.portDisbLoad,
+      );
+    }
+
+    const loadPortRaw = read.text("loadPort");
+    const dischargePortRaw = read.text("dischargePort");
+    if (!loadPortRaw) read.report("loadPort", "Missing load port.");
+    if (!dischargePortRaw) read.report("dischargePort", "Missing discharge port.");
+    const loadPortMatch = resolvePort(loadPortRaw, portMaster, ports);
+    const dischargePortMatch = resolvePort(dischargePortRaw, portMaster, ports);
+    reportPortMatch(read, "loadPort", loadPortMatch);
+    reportPortMatch(read, "dischargePort", dischargePortMatch);
+    const loadPort = loadPortMatch.port;
+    const dischargePort = dischargePortMatch.port;
+
+    // Rate precedence: request override > contract rate > route rate table > example default.
+    const id = `${source}-${index}`;
+    const override = options.freightRateOverrides?.[id] ?? options.freightRateOverrides?.[name];
+    const contractText = read.text("freightRate");
+    const lumpsum = parseLumpsum(contractText);
+    const contractRate =
+      lumpsum !== null && baseQty > 0 ? lumpsum / baseQty : toNumber(contractText, Number.NaN);
+    if (contractText && !Number.isFinite(contractRate)) {
+      read.report("freightRate", `Unreadable freight rate "${contractText}"; ignoring it.`);
+    }
+    const freightRateQuote =
+      freightRates.find(
+        (quote) =>
+          quote.loadPort === (loadPort || loadPortRaw) &&
+          quote.dischargePort === (dischargePort || dischargePortRaw),
+      ) ?? null;
+    let freightRate = defaults.freightRate;
+    let freightRateSource: FreightRateSource = "default";
+    if (Number.isFinite(override) && (override as number) > 0) {
+      freightRate = override as number;
+      freightRateSource = "override";
+    } else if (Number.isFinite(contractRate)) {
+      freightRate = contractRate;
+      freightRateSource = "contract";
+    } else if (freightRateQuote) {
+      freightRate = freightRateQuote.freightRate;
+      freightRateSource = freightRateQuote.illustrative ? "rate_table_illustrative" : "rate_table";
+      if (freightRateQuote.illustrative) {
+        read.report(
+          "freightRate",
+          `Rate-table rate ${freightRate} USD/MT is illustrative, not a market assessment.`,
+          undefined,
+          "warning",
+        );
+      }
+    } else {
+      read.report(
+        "freightRate",
+        `No contract, override or rate-table freight rate; using default ${freightRate} USD/MT.`,
+        freightRate,
+      );
+    }
+
+    const laycanLabel = read.text("laycan");
+    const timeZoneText = read.text("laycanTimeZone");
+    let laycanTimeZone = getMatchTimeZone(loadPortMatch);
+    if (timeZoneText && isValidTimeZone(timeZoneText)) {
+      laycanTimeZone = timeZoneText;
+    } else if (timeZoneText) {
+      read.report(
+        "laycanTimeZone",
+        `Unknown time zone "${timeZoneText}"; using ${laycanTimeZone} for the load port.`,
+      );
+    }
+    const laycanParse = parseLaycan(laycanLabel, {
+      timeZone: laycanTimeZone,
+      referenceDate: options.referenceDate,
+    });
+    const laycanWindow = laycanParse.window;
+    if (laycanParse.reason) {
+      read.report("laycan", `${laycanParse.reason} Cargo will be excluded.`);
+    } else if (laycanParse.confidence !== "exact") {
+      read.report("laycan", laycanParse.notes.join(" "), undefined, "warning");
+    }
+
+    const restriction = getLoadPortRestriction(loadPortMatch.entry);
+    const draftText = read.text("loadPortMaxDraft");
+    let loadPortMaxDraftM = restriction.maxDraftM;
+    if (draftText) {
+      const draft = toNumber(draftText, Number.NaN);
+      if (Number.isFinite(draft) && draft > 0) {
+        loadPortMaxDraftM = draft;
+      } else {
+        read.report(
+          "loadPortMaxDraft",
+          `Unreadable draft "${draftText}"; using ${loadPortMaxDraftM ?? "no"} m limit for the load port.`,
+        );
+      }
+    }
+    const zoneText = read.text("loadLineZone").toLowerCase();
+    let loadLineZone = getLoadLineZone(restriction, laycanWindow?.start ?? null);
+    if (zoneText === "tropical" || zoneText === "summer" || zoneText === "winter") {
+      loadLineZone = zoneText;
+    } else if (zoneText) {
+      read.report(
+        "loadLineZone",
+        `Unknown load-line zone "${zoneText}"; using ${loadLineZone} for the load port.`,
+      );
+    }
+
+    // Alternatives come from the option columns, else from the port text itself
+    // ("other Chinese ports allowed on same TCE basis").
+    const baseLoadPort = loadPort || loadPortRaw || "UNKNOWN";
+    const baseDischargePort = dischargePort || dischargePortRaw || "UNKNOWN";
+    const readOptionPorts = (
+      key: "loadPortOptions" | "dischargePortOptions",
+      basePort: string,
+      portText: string,
+    ) => {
+      const listed = read
+        .text(key)
+        .split(";")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      const alternatives = listed.length
+        ? listed.flatMap((item) => {
+            const match = resolvePort(item, portMaster, ports);
+            reportPortMatch(read, key, match);
+            return match.port ? [match.port] : [];
+          })
+        : parseAlternativePorts(portText, basePort, portMaster);
+      return [basePort, ...alternatives.filter((port) => port !== basePort)].filter(
+        (port, index, list) => list.indexOf(port) === index,
+      );
+    };
+    const loadOptions = readOptionPorts("loadPortOptions", baseLoadPort, loadPortRaw);
+    const dischargeOptions = readOptionPorts(
+      "dischargePortOptions",
+      baseDischargePort,
+      dischargePortRaw,
+    );
+    const ruleText = read.text("portOptionRule");
+    let portOptionRule = parsePortOptionRule(ruleText);
+    if (ruleText && !portOptionRule) {
+      read.report("portOptionRule", `Unreadable port option rule "${ruleText}"; using same rate.`);
+    }
+    portOptionRule =
+      portOptionRule ?? inferPortOptionRule(`${loadPortRaw} ${dischargePortRaw}`);
+    const loadPortLimits: CargoOption["loadPortLimits"] = {
+      [baseLoadPort]: { maxDraftM: loadPortMaxDraftM, zone: loadLineZone },
+    };
+    for (const port of loadOptions.slice(1)) {
+      const portRestriction = getLoadPortRestriction(
+        portMaster.find((item) => item.name === port),
+      );
+      loadPortLimits[port] = {
+        maxDraftM: portRestriction.maxDraftM,
+        zone: getLoadLineZone(portRestriction, laycanWindow?.start ?? null),
+      };
+    }
+
+    return {
+      id,
+      name,
+      source,
+      customer: read.text("customer"),
+      raw: row,
+      quantityRange,
+      loadPort: baseLoadPort,
+      dischargePort: baseDischargePort,
+      loadPortMatch,
+      dischargePortMatch,
+      portCosts,
+      laycanLabel,
+      laycanWindow,
+      laycanParse,
+      loadPortMaxDraftM,
+      loadLineZone,
+      portOptions: { load: loadOptions, discharge: dischargeOptions, rule: portOptionRule },
+      loadPortLimits,
+      freightRateSource,
+      freightRateQuote:
+        freightRateSource === "rate_table" || freightRateSource === "rate_table_illustrative"
+          ? freightRateQuote
+          : null,
+      data: {
+        ...defaults,
+        cargoQty: baseQty,
+        stowFactor,
+        freightRate,
+        loadRate,
+        dischargeRate,
+        loadportTT,
+        disportTT,
+        portIdleDays: defaults.portIdleDays,
+        addressComsPct: commissionIsBroker ? 0 : commissionPct,
+        brokerComsPct: commissionIsBroker ? commissionPct : 0,
+        freightTerms: {
+          // A request override is a per-tonne rate, so it replaces any contract lumpsum.
+          lumpsum: freightRateSource === "contract" ? lumpsum : null,
+          tiers: parseFreightTiers(quantityText),
+          minimumQty: quantityRange?.min ?? 0,
+        },
+        laytime: {
+          loadBasis: parseLaytimeBasis(read.text("loadingTerms")),
+          dischargeBasis: parseLaytimeBasis(read.text("dischargeTerms")),
+          reversible:
+            parseReversible(read.text("loadingTerms")) || parseReversible(read.text("dischargeTerms")),
+          demurrageRate: readOptionalRate("demurrageRate"),
+          despatchRate: readOptionalRate("despatchRate"),
+        },
+      },
+    };
+  });
+};
+
+export const parseBusinessData = (
+  texts: Record<BusinessDataFile, string>,
+  options: LoadOptions = {},
+): BusinessData => {
+  const validation = emptyValidationReport();
+  const distances = parseDistanceCsv(texts[businessDataFiles.portDistances]);
+  const portMaster = parsePortMaster(
+    parseCsvTable(texts[businessDataFiles.portMaster]),
+    businessDataFiles.portMaster,
+    validation,
+  );
+  const coordinates: PortCoordinates = {};
+  for (const entry of portMaster) {
+    if (entry.lat !== null && entry.lon !== null) {
+      coordinates[entry.name] = { lat: entry.lat, lon: entry.lon };
+    }
+  }
+  const distanceEstimator = calibrateDistanceEstimator(distances.distanceMap, coordinates);
+
+  const speedTables = parseSpeedTables(
+    parseCsvTable(texts[businessDataFiles.speedConsumption]),
+    businessDataFiles.speedConsumption,
+    validation,
+  );
+  const capesizeTable = parseCsvTable(texts[businessDataFiles.capesizeVessels]);
+  const marketVesselTable = parseCsvTable(texts[businessDataFiles.marketVessels]);
+  const vessels = [
+    ...parseVessels(
+      capesizeTable,
+      "capesize",
+      businessDataFiles.capesizeVessels,
+      0,
+      distances.ports,
+      portMaster,
+      options,
+      speedTables,
+      validation,
+    ),
+    ...parseVessels(
+      marketVesselTable,
+      "market",
+      businessDataFiles.marketVessels,
+      capesizeTable.rows.length,
+      distances.ports,
+      portMaster,
+      options,
+      speedTables,
+      validation,
+    ),
+  ];
+
+  const freightRates = parseFreightRates(
+    parseCsvTable(texts[businessDataFiles.marketFreightRates]),
+    businessDataFiles.marketFreightRates,
+    distances.ports,
+    portMaster,
+    validation,
+  );
+
+  const bunkerPorts = parseBunkerPorts(
+    parseCsvTable(texts[businessDataFiles.bunkerPorts]),
+    businessDataFiles.bunkerPorts,
+    distances.ports,
+    portMaster,
+    validation,
+  );
+
+  const seaRoutes: SeaRoutes = {
+    chokepoints: parseChokepoints(
+      parseCsvTable(texts[businessDataFiles.chokepoints]),
+      businessDataFiles.chokepoints,
+      validation,
+    ),
+    rules: parseSeaRouteRules(
+      parseCsvTable(texts[businessDataFiles.seaRoutes]),
+      businessDataFiles.seaRoutes,
+      validation,
+    ),
+    portRegions: Object.fromEntries(
+      portMaster.filter((entry) => entry.region).map((entry) => [entry.name, entry.region]),
+    ),
+  };
+
+  const committedTable = parseCsvTable(texts[businessDataFiles.committedCargos]);
+  const marketCargoTable = parseCsvTable(texts[businessDataFiles.marketCargos]);
+  const cargos = [
+    ...parseCargos(
+      committedTable,
+      "committed",
+      businessDataFiles.committedCargos,
+      0,
+      distances.ports,
+      portMaster,
+      freightRates,
+      options,
+      validation,
+    ),
+    ...parseCargos(
+      marketCargoTable,
+      "market",
+      businessDataFiles.marketCargos,
+      committedTable.rows.length,
+      distances.ports,
+      portMaster,
+      freightRates,
+      options,
+      validation,
+    ),
+  ];
+
+  return {
+    vessels,
+    cargos,
+    distances,
+    portMaster,
+    distanceEstimator,
+    committedCount: committedTable.rows.length,
+    marketCount: marketCargoTable.rows.length,
+    freightRates,
+    bunkerPorts,
+    seaRoutes,
+    validation: summarizeReport(validation),
+  };
+};
+
+// `readText` receives a path relative to `public/business_data`, so the same loader
+// works from API routes (fs) and from client pages (fetch).
+export const loadBusinessData = async (
+  readText: (file: BusinessDataFile) => Promise<string>,
+  options: LoadOptions = {},
+): Promise<BusinessData> => {
+  const files = Object.values(businessDataFiles);
+  const contents = await Promise.all(files.map((file) => readText(file)));
+  const texts = Object.fromEntries(
+    files.map((file, index) => [file, contents[index]]),
+  ) as Record<BusinessDataFile, string>;
+  return parseBusinessData(texts, options);
+};
@@ -0,0 +1,452 @@
+export type ColumnUnit =
+  | "text"
+  | "date"
+  | "MT"
+  | "kn"
+  | "MT/day"
+  | "USD/day"
+  | "USD/MT"
+  | "USD"
+  | "nm"
+  | "m"
+  | "MT/cm"
+  | "m3"
+  | "m3/MT"
+  | "days"
+  | "deg"
+  | "ratio"
+  | "%";
+
+export type ColumnSpec = {
+  column: string;
+  aliases?: string[];
+  required: boolean;
+  unit: ColumnUnit;
+  label: string;
+};
+
+export type TableSchema<K extends string> = Record<K, ColumnSpec>;
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationIssue = {
+  file: string;
+  // 1-based line number in the CSV (header is line 1); 0 for header-level issues.
+  row: number;
+  record: string;
+  column: string;
+  unit: ColumnUnit;
+  severity: ValidationSeverity;
+  message: string;
+  fallback?: number | string;
+};
+
+export type HeaderMatch = {
+  file: string;
+  column: string;
+  matched: string | null;
+  status: "canonical" | "alias" | "missing";
+  required: boolean;
+};
+
+export type ValidationReport = {
+  issues: ValidationIssue[];
+  headers: HeaderMatch[];
+  unknownColumns: Array<{ file: string; column: string }>;
+  summary: { errors: number; warnings: number; rowsWithFallbacks: number };
+};
+
+export const vesselSchema = {
+  name: { column: "vessel_name", required: true, unit: "text", label: "Vessel name" },
+  dwt: { column: "dwt_mt", required: true, unit: "MT", label: "DWT" },
+  hireRate: { column: "hire_rate_usd_day", required: false, unit: "USD/day", label: "Hire rate" },
+  warrantedLadenSpeed: {
+    column: "warranted_speed_laden_kn",
+    required: true,
+    unit: "kn",
+    label: "Warranted laden speed",
+  },
+  warrantedLadenIfo: {
+    column: "warranted_speed_laden_vlsfo_mt",
+    aliases: ["warranted_speed_laden_vlsf_mt"],
+    required: true,
+    unit: "MT/day",
+    label: "Warranted laden VLSFO",
+  },
+  warrantedLadenMdo: {
+    column: "warranted_speed_laden_mgo_mt",
+    required: true,
+    unit: "MT/day",
+    label: "Warranted laden MGO",
+  },
+  warrantedBallastSpeed: {
+    column: "warranted_speed_ballast_kn",
+    required: true,
+    unit: "kn",
+    label: "Warranted ballast speed",
+  },
+  warrantedBallastIfo: {
+    column: "warranted_speed_ballast_vlsfo_mt",
+    aliases: ["warranted_speed_ballast_vlsf_mt"],
+    required: true,
+    unit: "MT/day",
+    label: "Warranted ballast VLSFO",
+  },
+  warrantedBallastMdo: {
+    column: "warranted_speed_ballast_mgo_mt",
+    required: true,
+    unit: "MT/day",
+    label: "Warranted ballast MGO",
+  },
+  ecoLadenSpeed: {
+    column: "economical_speed_laden_kn",
+    required: true,
+    unit: "kn",
+    label: "Economical laden speed",
+  },
+  ecoLadenIfo: {
+    column: "economical_speed_laden_vlsfo_mt",
+    aliases: ["economical_speed_laden_vlsf_mt"],
+    required: true,
+    unit: "MT/day",
+    label: "Economical laden VLSFO",
+  },
+  ecoLadenMdo: {
+    column: "economical_speed_laden_mgo_mt",
+    required: true,
+    unit: "MT/day",
+    label: "Economical laden MGO",
+  },
+  ecoBallastSpeed: {
+    column: "economical_speed_ballast_kn",
+    required: true,
+    unit: "kn",
+    label: "Economical ballast speed",
+  },
+  ecoBallastIfo: {
+    column: "economical_speed_ballast_vlsfo_mt",
+    aliases: ["economical_speed_ballast_vlsf_mt"],
+    required: true,
+    unit: "MT/day",
+    label: "Economical ballast VLSFO",
+  },
+  ecoBallastMdo: {
+    column: "economical_speed_ballast_mgo_mt",
+    required: true,
+    unit: "MT/day",
+    label: "Economical ballast MGO",
+  },
+  portIdleIfo: {
+    column: "port_consumption_idle_vlsfo_mt_day",
+    aliases: ["port_consumption_idle_vlsf_mt_day"],
+    required: true,
+    unit: "MT/day",
+    label: "Port idle VLSFO",
+  },
+  portWorkingIfo: {
+    column: "port_consumption_working_vlsfo_mt_day",
+    aliases: ["port_consumption_working_vlsf_mt_day"],
+    required: true,
+    unit: "MT/day",
+    label: "Port working VLSFO",
+  },
+  positionStatus: {
+    column: "position_status",
+    required: true,
+    unit: "text",
+    label: "Position / status",
+  },
+  etdDate: { column: "etd_date", required: false, unit: "date", label: "ETD" },
+  robIfo: {
+    column: "bunker_remaining_vlsfo_mt",
+    aliases: ["bunker_remaining_vlsf_mt"],
+    required: false,
+    unit: "MT",
+    label: "VLSFO remaining on board",
+  },
+  robMdo: {
+    column: "bunker_remaining_mgo_mt",
+    required: false,
+    unit: "MT",
+    label: "MGO remaining on board",
+  },
+  tankIfo: {
+    column: "bunker_capacity_vlsfo_mt",
+    aliases: ["bunker_capacity_vlsf_mt"],
+    required: false,
+    unit: "MT",
+    label: "VLSFO tank capacity",
+  },
+  tankMdo: {
+    column: "bunker_capacity_mgo_mt",
+    required: false,
+    unit: "MT",
+    label: "MGO tank capacity",
+  },
+  grainCapacity: {
+    column: "grain_capacity_m3",
+    aliases: ["grain_capacity"],
+    required: false,
+    unit: "m3",
+    label: "Grain capacity",
+  },
+  summerDraft: { column: "summer_draft_m", required: false, unit: "m", label: "Summer draft" },
+  tpc: { column: "tpc_mt_cm", aliases: ["tpc"], required: false, unit: "MT/cm", label: "TPC" },
+  constant: { column: "constant_mt", required: false, unit: "MT", label: "Constant" },
+  freshWater: { column: "fresh_water_mt", required: false, unit: "MT", label: "Fresh water" },
+  minBallastSpeed: {
+    column: "min_speed_ballast_kn",
+    required: false,
+    unit: "kn",
+    label: "Minimum ballast speed",
+  },
+  maxBallastSpeed: {
+    column: "max_speed_ballast_kn",
+    required: false,
+    unit: "kn",
+    label: "Maximum ballast speed",
+  },
+  minLadenSpeed: {
+    column: "min_speed_laden_kn",
+    required: false,
+    unit: "kn",
+    label: "Minimum laden speed",
+  },
+  maxLadenSpeed: {
+    column: "max_speed_laden_kn",
+    required: false,
+    unit: "kn",
+    label: "Maximum laden speed",
+  },
+} satisfies TableSchema<string>;
+
+export const speedTableSchema = {
+  vesselName: { column: "vessel_name", required: true, unit: "text", label: "Vessel name" },
+  condition: { column: "condition", required: true, unit: "text", label: "Ballast / laden" },
+  speed: { column: "speed_kn", required: true, unit: "kn", label: "Speed" },
+  ifo: {
+    column: "vlsfo_mt_day",
+    aliases: ["vlsf_mt_day"],
+    required: true,
+    unit: "MT/day",
+    label: "VLSFO",
+  },
+  mdo: { column: "mgo_mt_day", required: true, unit: "MT/day", label: "MGO" },
+} satisfies TableSchema<string>;
+
+export const cargoSchema = {
+  route: { column: "route", required: false, unit: "text", label: "Route" },
+  customer: { column: "customer", required: false, unit: "text", label: "Customer" },
+  commodity: { column: "commodity", required: false, unit: "text", label: "Commodity" },
+  quantity: { column: "quantity", required: true, unit: "MT", label: "Quantity" },
+  stowFactor: {
+    column: "stow_factor_m3_mt",
+    aliases: ["stow_factor"],
+    required: false,
+    unit: "m3/MT",
+    label: "Stowage factor",
+  },
+  laycan: { column: "laycan", required: true, unit: "date", label: "Laycan" },
+  laycanTimeZone: {
+    column: "laycan_timezone",
+    aliases: ["load_port_timezone"],
+    required: false,
+    unit: "text",
+    label: "Laycan time zone",
+  },
+  freightRate: { column: "freight_rate", required: false, unit: "USD/MT", label: "Freight rate" },
+  loadPort: { column: "load_port", required: true, unit: "text", label: "Load port" },
+  loadPortMaxDraft: {
+    column: "load_port_max_draft_m",
+    required: false,
+    unit: "m",
+    label: "Load port max draft",
+  },
+  loadLineZone: {
+    column: "load_line_zone",
+    required: false,
+    unit: "text",
+    label: "Load-line zone",
+  },
+  loadPortOptions: {
+    column: "load_port_options",
+    required: false,
+    unit: "text",
+    label: "Alternative load ports",
+  },
+  dischargePortOptions: {
+    column: "discharge_port_options",
+    required: false,
+    unit: "text",
+    label: "Alternative discharge ports",
+  },
+  portOptionRule: {
+    column: "port_option_rule",
+    required: false,
+    unit: "text",
+    label: "Port option freight rule",
+  },
+  loadingTerms: { column: "loading_terms", required: false, unit: "MT/day", label: "Loading terms" },
+  dischargePort: {
+    column: "discharge_port",
+    required: true,
+    unit: "text",
+    label: "Discharge port",
+  },
+  dischargeTerms: {
+    column: "discharge_terms",
+    required: false,
+    unit: "MT/day",
+    label: "Discharge terms",
+  },
+  portCost: { column: "port_cost", required: false, unit: "USD", label: "Port cost" },
+  commission: { column: "commission", required: false, unit: "%", label: "Commission" },
+  demurrageRate: {
+    column: "demurrage_usd_day",
+    required: false,
+    unit: "USD/day",
+    label: "Demurrage rate",
+  },
+  despatchRate: {
+    column: "despatch_usd_day",
+    required: false,
+    unit: "USD/day",
+    label: "Despatch rate",
+  },
+} satisfies TableSchema<string>;
+
+export const freightRateSchema = {
+  loadPort: { column: "load_port", required: true, unit: "text", label: "Load port" },
+  dischargePort: {
+    column: "discharge_port",
+    required: true,
+    unit: "text",
+    label: "Discharge port",
+  },
+  freightRate: { column: "freight_rate", required: true, unit: "USD/MT", label: "Freight rate" },
+  source: { column: "source", required: false, unit: "text", label: "Source" },
+  asOf: { column: "as_of", required: false, unit: "date", label: "As of" },
+  // "yes" for made-up example rates rather than an assessment or fixture.
+  illustrative: {
+    column: "illustrative",
+    required: false,
+    unit: "text",
+    label: "Illustrative rate",
+  },
+} satisfies TableSchema<string>;
+
+export const bunkerPortSchema = {
+  port: { column: "port", required: true, unit: "text", label: "Port" },
+  ifoPrice: { column: "vlsfo_usd_mt", required: false, unit: "USD/MT", label: "VLSFO price" },
+  mdoPrice: { column: "mgo_usd_mt", required: false, unit: "USD/MT", label: "MGO price" },
+  portCost: { column: "port_cost_usd", required: false, unit: "USD", label: "Bunker call cost" },
+  stemDays: { column: "stem_days", required: false, unit: "days", label: "Time alongside" },
+} satisfies TableSchema<string>;
+
+export const portMasterSchema = {
+  name: { column: "port_name", required: true, unit: "text", label: "Port name" },
+  country: { column: "country", required: false, unit: "text", label: "Country" },
+  unlocode: {
+    column: "unlocode",
+    aliases: ["locode"],
+    required: false,
+    unit: "text",
+    label: "UN/LOCODE",
+  },
+  lat: { column: "latitude", aliases: ["lat"], required: false, unit: "deg", label: "Latitude" },
+  lon: { column: "longitude", aliases: ["lon"], required: false, unit: "deg", label: "Longitude" },
+  aliases: { column: "aliases", required: false, unit: "text", label: "Aliases" },
+  timeZone: { column: "time_zone", required: false, unit: "text", label: "Time zone" },
+  maxDraftM: { column: "max_draft_m", required: false, unit: "m", label: "Max draft" },
+  loadLineZone: {
+    column: "load_line_zone",
+    required: false,
+    unit: "text",
+    label: "Load-line zone",
+  },
+  zoneSeasons: { column: "zone_seasons", required: false, unit: "text", label: "Seasonal zones" },
+  region: { column: "sea_region", required: false, unit: "text", label: "Sea region" },
+} satisfies TableSchema<string>;
+
+export const chokepointSchema = {
+  chokepoint: { column: "chokepoint", required: true, unit: "text", label: "Chokepoint" },
+  transitDays: { column: "transit_days", required: true, unit: "days", label: "Transit time" },
+  ballastDues: { column: "ballast_dues_usd", required: true, unit: "USD", label: "Ballast dues" },
+  ladenDues: { column: "laden_dues_usd", required: true, unit: "USD", label: "Laden dues" },
+} satisfies TableSchema<string>;
+
+export const seaRouteSchema = {
+  fromRegion: { column: "from_region", required: true, unit: "text", label: "From region" },
+  toRegion: { column: "to_region", required: true, unit: "text", label: "To region" },
+  via: { column: "via", required: true, unit: "text", label: "Chokepoints" },
+  factor: { column: "distance_factor", required: true, unit: "ratio", label: "Distance factor" },
+  tableRoute: { column: "table_route", required: true, unit: "text", label: "Table route" },
+} satisfies TableSchema<string>;
+
+export const emptyValidationReport = (): ValidationReport => ({
+  issues: [],
+  headers: [],
+  unknownColumns: [],
+  summary: { errors: 0, warnings: 0, rowsWithFallbacks: 0 },
+});
+
+// Maps each schema key to the header actually present in the file, preferring the
+// canonical spelling over aliases, and records the match in the report.
+export const resolveColumns = <K extends string>(
+  file: string,
+  headers: string[],
+  schema: TableSchema<K>,
+  report: ValidationReport,
+): Record<K, string | null> => {
+  const present = new Set(headers);
+  const known = new Set<string>();
+  const resolved = {} as Record<K, string | null>;
+
+  for (const key of Object.keys(schema) as K[]) {
+    const spec = schema[key];
+    const candidates = [spec.column, ...(spec.aliases ?? [])];
+    candidates.forEach((candidate) => known.add(candidate));
+    const matched = candidates.find((candidate) => present.has(candidate)) ?? null;
+    resolved[key] = matched;
+    report.headers.push({
+      file,
+      column: spec.column,
+      matched,
+      status: matched === null ? "missing" : matched === spec.column ? "canonical" : "alias",
+      required: spec.required,
+    });
+    if (matched === null && spec.required) {
+      report.issues.push({
+        file,
+        row: 0,
+        record: "(header)",
+        column: spec.column,
+        unit: spec.unit,
+        severity: "error",
+        message: `Required column "${spec.column}" is missing.`,
+      });
+    }
+  }
+
+  for (const header of headers) {
+    if (header && !known.has(header)) report.unknownColumns.push({ file, column: header });
+  }
+
+  return resolved;
+};
+
+export const summarizeReport = (report: ValidationReport): ValidationReport => {
+  const rowKeys = new Set(
+    report.issues
+      .filter((issue) => issue.row > 0 && issue.fallback !== undefined)
+      .map((issue) => `${issue.file}:${issue.row}`),
+  );
+  return {
+    ...report,
+    summary: {
+      errors: report.issues.filter((issue) => issue.severity === "error").length,
+      warnings: report.issues.filter((issue) => issue.severity === "warning").length,
+      rowsWithFallbacks: rowKeys.size,
+    },
+  };
+};
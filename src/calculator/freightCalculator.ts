@@ -1,4 +1,44 @@
-import { getEffectiveProfile, type SpeedBlend } from "./speed";
+import { defaultFreightTerms, getFreightGross, type FreightTerms } from "./freightTerms";
+import {
+  getPortLaytime,
+  getWorkingDays,
+  settleLaytime,
+  type LaytimeSettlement,
+  type LaytimeTerms,
+} from "./laytime";
+import {
+  getEffectiveProfile,
+  type ConsumptionModel,
+  type ConsumptionTable,
+  type SpeedBlend,
+} from "./speed";
+
+// "market": every tonne burned is priced at ifoPrice/mdoPrice.
+// "rob_book": bunkers remaining on board are priced at their book (last purchase)
+// price and only the tonnes that must be stemmed are priced at market.
+export type BunkerCosting = "market" | "rob_book";
+
+// A bunker call on the ballast or laden leg. `position` is how far along the leg
+// (0-1) the call happens; `deviationNm` is the extra steaming versus the direct leg.
+export type BunkerStop = {
+  port: string;
+  leg: "ballast" | "laden";
+  position: number;
+  deviationNm: number;
+  ifoPrice: number;
+  mdoPrice: number;
+  portCost: number;
+  stemDays: number;
+};
+
+export type BunkerStopResult = {
+  port: string;
+  leg: "ballast" | "laden";
+  deviationNm: number;
+  ifoQty: number;
+  mdoQty: number;
+  cost: number;
+};
 
 export type FreightInputs = {
   vessel: {
@@ -26,6 +66,12 @@ export type FreightInputs = {
     };
     dailyHire: number;
     adComsPct: number;
+    rob: { ifo: number; mdo: number };
+    tankCapacity: { ifo: number; mdo: number };
+    // Used when options.consumptionModel is "table".
+    consumptionTable?: ConsumptionTable;
+    // Operating speed limits per leg, knots, where the particulars give them.
+    speedRange?: Partial<Record<"ballast" | "laden", { min: number; max: number }>>;
   };
   cargo: {
     cargoQty: number;
@@ -39,6 +85,8 @@ export type FreightInputs = {
     disportTT: number;
     portIdleDays: number;
     ballastBonus: number;
+    laytime: LaytimeTerms;
+    freightTerms: FreightTerms;
   };
   distances: {
     ballastNm: number;
@@ -47,6 +95,8 @@ export type FreightInputs = {
   costs: {
     ifoPrice: number;
     mdoPrice: number;
+    robIfoPrice: number;
+    robMdoPrice: number;
     cev: number;
     ilhoc: number;
     bunkerDa: number;
@@ -57,20 +107,36 @@ export type FreightInputs = {
   options: {
     bunkerDays: number;
     speedBlend: SpeedBlend;
+    bunkerCosting: BunkerCosting;
+    consumptionModel: ConsumptionModel;
+    // When set (even empty), replaces the flat bunkerDays/bunkerDa with these calls.
+    bunkerStops?: BunkerStop[];
   };
+  // Canal transits on the chosen route variants (see routeVariants); idle burn while in transit.
+  canals?: { ballastDays: number; ladenDays: number; dues: number };
 };
 
 export type FreightOutputs = {
   loadedQty: number;
   ballastDays: number;
+  // Departure to arrival at the load port, including a ballast-leg bunker call.
+  loadportArrivalDays: number;
   ladenDays: number;
   steamingDays: number;
   loadportDays: number;
   disportDays: number;
   totalDuration: number;
   freightGross: number;
+  // Included in freightGross.
+  deadfreight: number;
+  // Tonnes loaded above the first reduced-rate tier.
+  overageQty: number;
+  effectiveFreightRate: number;
   freightNet: number;
   freightCommissions: number;
+  laytime: LaytimeSettlement;
+  demurrage: number;
+  despatch: number;
   revenueNet: number;
   hireGross: number;
   hireNet: number;
@@ -81,7 +147,28 @@ export type FreightOutputs = {
   mdoInPort: number;
   totalIfo: number;
   totalMdo: number;
+  robIfoUsed: number;
+  robMdoUsed: number;
+  ifoToPurchase: number;
+  mdoToPurchase: number;
+  robBunkerCost: number;
+  purchasedBunkerCost: number;
+  // False when the ROB does not reach the first ballast stem (or the load port without one):
+  // sea passage, deviation to the bunker port and canal transit all burn from it.
+  robCoversBallast: boolean;
+  // Fuel aboard when sailing from the load port; it takes deadweight from the cargo.
+  bunkersAtLoadport: { ifo: number; mdo: number };
+  // Fuel aboard on completion: ROB plus stems and market purchases less burn, within tanks.
+  robAtCompletion: { ifo: number; mdo: number };
+  bunkerStops: BunkerStopResult[];
+  bunkerDeviationNm: number;
+  bunkerDeviationDays: number;
+  bunkerPortCost: number;
+  // False when ROB plus the planned stems cannot cover the voyage within tank capacity.
+  bunkerPlanFeasible: boolean;
   bunkerExpense: number;
+  canalDays: number;
+  canalDues: number;
   portDisbursements: number;
   operatingExpenses: number;
   miscExpense: number;
@@ -93,58 +180,253 @@ export type FreightOutputs = {
 
 const daysAtSea = (nm: number, speed: number) => (speed > 0 ? nm / speed / 24 : 0);
 
+// Splits the fuel to buy across the stops in voyage order. `segments[i]` is the burn
+// before stop i (the last entry is the burn after the final stop). With two stops
+// the cheaper one takes as much as the tank and the need-to-reach-next-stop allow.
+const allocateStems = (rob: number, capacity: number, segments: number[], prices: number[]) => {
+  const eps = 1e-6;
+  const total = segments.reduce((sum, value) => sum + value, 0);
+  const toBuy = Math.max(0, total - rob);
+  const qty = prices.map(() => 0);
+  if (prices.length === 0) {
+    return { qty, shortfall: toBuy, feasible: toBuy <= eps };
+  }
+  const reachesFirst = rob + eps >= segments[0];
+  const onBoardAtFirst = Math.max(rob - segments[0], 0);
+  if (prices.length === 1) {
+    qty[0] = Math.min(toBuy, Math.max(0, capacity - onBoardAtFirst));
+    const shortfall = toBuy - qty[0];
+    return { qty, shortfall, feasible: reachesFirst && shortfall <= eps };
+  }
+  const lo = Math.max(0, segments[1] - onBoardAtFirst);
+  const hi = Math.min(toBuy, Math.max(0, capacity - onBoardAtFirst));
+  qty[0] = Math.min(prices[0] <= prices[1] ? hi : lo, hi);
+  const onBoardAtSecond = Math.max(onBoardAtFirst + qty[0] - segments[1], 0);
+  qty[1] = Math.min(toBuy - qty[0], Math.max(0, capacity - onBoardAtSecond));
+  const shortfall = toBuy - qty[0] - qty[1];
+  return { qty, shortfall, feasible: reachesFirst && lo <= hi + eps && shortfall <= eps };
+};
+
 export const calculateFreight = (inputs: FreightInputs): FreightOutputs => {
   const { vessel, cargo, distances, costs, options } = inputs;
+  const ballastCanalDays = inputs.canals?.ballastDays ?? 0;
+  const ladenCanalDays = inputs.canals?.ladenDays ?? 0;
+  const canalDays = ballastCanalDays + ladenCanalDays;
+  const canalDues = inputs.canals?.dues ?? 0;
   const effectiveProfile = getEffectiveProfile(
     { speed: vessel.speed, consumption: vessel.consumption },
     { speed: vessel.speedWarranted, consumption: vessel.consumptionWarranted },
     options.speedBlend,
+    { model: options.consumptionModel, table: vessel.consumptionTable },
   );
 
+  const ballastStop = options.bunkerStops?.find((stop) => stop.leg === "ballast");
+  const ladenStop = options.bunkerStops?.find((stop) => stop.leg === "laden");
+  const stops = [ballastStop, ladenStop].filter((stop): stop is BunkerStop => Boolean(stop));
+
   const ballastDays = daysAtSea(distances.ballastNm, effectiveProfile.speed.ballast);
   const ladenDays = daysAtSea(distances.ladenNm, effectiveProfile.speed.laden);
-  const steamingDays = ballastDays + ladenDays;
+  const ballastDeviationDays = daysAtSea(
+    ballastStop?.deviationNm ?? 0,
+    effectiveProfile.speed.ballast,
+  );
+  const ladenDeviationDays = daysAtSea(ladenStop?.deviationNm ?? 0, effectiveProfile.speed.laden);
+  const stemDays = stops.reduce((sum, stop) => sum + stop.stemDays, 0);
+  const bunkerDeviationNm = stops.reduce((sum, stop) => sum + stop.deviationNm, 0);
+  const bunkerDeviationDays = ballastDeviationDays + ladenDeviationDays + stemDays;
+  const steamingDays = ballastDays + ladenDays + ballastDeviationDays + ladenDeviationDays;
+  const loadportArrivalDays =
+    ballastDays + ballastDeviationDays + (ballastStop?.stemDays ?? 0) + ballastCanalDays;
 
-  const loadportWorkingDays = cargo.loadRate > 0 ? cargo.cargoQty / cargo.loadRate : 0;
-  const disportWorkingDays = cargo.dischargeRate > 0 ? cargo.cargoQty / cargo.dischargeRate : 0;
+  const loadportWorkingDays = getWorkingDays(
+    cargo.cargoQty,
+    cargo.loadRate,
+    cargo.laytime.loadBasis,
+  );
+  const disportWorkingDays = getWorkingDays(
+    cargo.cargoQty,
+    cargo.dischargeRate,
+    cargo.laytime.dischargeBasis,
+  );
   const loadportDays = loadportWorkingDays + cargo.loadportTT + cargo.portIdleDays;
   const disportDays = disportWorkingDays + cargo.disportTT;
 
-  const totalDuration =
-    steamingDays + options.bunkerDays + loadportDays + disportDays;
+  const bunkerCallDays = options.bunkerStops ? stemDays : options.bunkerDays;
+  const totalDuration = steamingDays + bunkerCallDays + canalDays + loadportDays + disportDays;
 
   const loadedQty = Math.min(cargo.cargoQty, vessel.dwt);
 
+  // Fuel burned per voyage phase, in order, so stems can be placed between them.
+  const burn = (fuel: "ifo" | "mdo") => {
+    const ballastRate = effectiveProfile.consumption.ballast[fuel];
+    const ladenRate = effectiveProfile.consumption.laden[fuel];
+    const working = vessel.portConsumption.working[fuel];
+    const idle = vessel.portConsumption.idle[fuel];
+    return {
+      ballastSea: ballastDays * ballastRate,
+      ballastDeviation:
+        ballastDeviationDays * ballastRate + ((ballastStop?.stemDays ?? 0) + ballastCanalDays) * idle,
+      loadport: loadportWorkingDays * working + cargo.portIdleDays * idle,
+      ladenSea: ladenDays * ladenRate,
+      ladenDeviation:
+        ladenDeviationDays * ladenRate + ((ladenStop?.stemDays ?? 0) + ladenCanalDays) * idle,
+      disport: disportWorkingDays * working,
+    };
+  };
+  const ifoBurn = burn("ifo");
+  const mdoBurn = burn("mdo");
+
   const ifoAtSea =
-    ballastDays * effectiveProfile.consumption.ballast.ifo +
-    ladenDays * effectiveProfile.consumption.laden.ifo;
+    ifoBurn.ballastSea +
+    ifoBurn.ladenSea +
+    ballastDeviationDays * effectiveProfile.consumption.ballast.ifo +
+    ladenDeviationDays * effectiveProfile.consumption.laden.ifo;
   const mdoAtSea =
-    ballastDays * effectiveProfile.consumption.ballast.mdo +
-    ladenDays * effectiveProfile.consumption.laden.mdo;
+    mdoBurn.ballastSea +
+    mdoBurn.ladenSea +
+    ballastDeviationDays * effectiveProfile.consumption.ballast.mdo +
+    ladenDeviationDays * effectiveProfile.consumption.laden.mdo;
 
-  const portWorkingDays = loadportWorkingDays + disportWorkingDays;
   const ifoInPort =
-    portWorkingDays * vessel.portConsumption.working.ifo +
-    cargo.portIdleDays * vessel.portConsumption.idle.ifo;
+    ifoBurn.loadport + ifoBurn.disport + (stemDays + canalDays) * vessel.portConsumption.idle.ifo;
   const mdoInPort =
-    portWorkingDays * vessel.portConsumption.working.mdo +
-    cargo.portIdleDays * vessel.portConsumption.idle.mdo;
+    mdoBurn.loadport + mdoBurn.disport + (stemDays + canalDays) * vessel.portConsumption.idle.mdo;
 
   const totalIfo = ifoAtSea + ifoInPort;
   const totalMdo = mdoAtSea + mdoInPort;
-  const bunkerExpense = totalIfo * costs.ifoPrice + totalMdo * costs.mdoPrice;
+
+  const robIfoUsed = Math.min(totalIfo, Math.max(vessel.rob.ifo, 0));
+  const robMdoUsed = Math.min(totalMdo, Math.max(vessel.rob.mdo, 0));
+  const ifoToPurchase = totalIfo - robIfoUsed;
+  const mdoToPurchase = totalMdo - robMdoUsed;
+  const robIfoPrice = options.bunkerCosting === "rob_book" ? costs.robIfoPrice : costs.ifoPrice;
+  const robMdoPrice = options.bunkerCosting === "rob_book" ? costs.robMdoPrice : costs.mdoPrice;
+  const robBunkerCost = robIfoUsed * robIfoPrice + robMdoUsed * robMdoPrice;
+
+  const segmentsFor = (phases: ReturnType<typeof burn>) => {
+    const segments: number[] = [];
+    let running = 0;
+    if (ballastStop) {
+      running += ballastStop.position * phases.ballastSea + phases.ballastDeviation;
+      segments.push(running);
+      running = (1 - ballastStop.position) * phases.ballastSea;
+    } else {
+      running += phases.ballastSea;
+    }
+    running += phases.loadport;
+    if (ladenStop) {
+      running += ladenStop.position * phases.ladenSea + phases.ladenDeviation;
+      segments.push(running);
+      running = (1 - ladenStop.position) * phases.ladenSea;
+    } else {
+      running += phases.ladenSea;
+    }
+    segments.push(running + phases.disport);
+    return segments;
+  };
+  const ifoStems = allocateStems(
+    vessel.rob.ifo,
+    vessel.tankCapacity.ifo,
+    segmentsFor(ifoBurn),
+    stops.map((stop) => stop.ifoPrice),
+  );
+  const mdoStems = allocateStems(
+    vessel.rob.mdo,
+    vessel.tankCapacity.mdo,
+    segmentsFor(mdoBurn),
+    stops.map((stop) => stop.mdoPrice),
+  );
+  // Whatever is left after the ballast stem, or at least enough to reach the next stem
+  // (bought at market price when the plan falls short).
+  const onBoardAtLoadport = (phases: ReturnType<typeof burn>, rob: number, ballastStem: number) =>
+    Math.max(
+      rob + ballastStem - phases.ballastSea - phases.ballastDeviation - phases.loadport,
+      ladenStop
+        ? ladenStop.position * phases.ladenSea + phases.ladenDeviation
+        : phases.ladenSea + phases.disport,
+      0,
+    );
+  const bunkersAtLoadport = {
+    ifo: onBoardAtLoadport(ifoBurn, vessel.rob.ifo, ballastStop ? ifoStems.qty[0] : 0),
+    mdo: onBoardAtLoadport(mdoBurn, vessel.rob.mdo, ballastStop ? mdoStems.qty[0] : 0),
+  };
+  const bunkerStops: BunkerStopResult[] = stops.map((stop, index) => ({
+    port: stop.port,
+    leg: stop.leg,
+    deviationNm: stop.deviationNm,
+    ifoQty: ifoStems.qty[index],
+    mdoQty: mdoStems.qty[index],
+    cost: ifoStems.qty[index] * stop.ifoPrice + mdoStems.qty[index] * stop.mdoPrice,
+  }));
+  // Without a plan every purchased tonne is priced at market; with one, anything the
+  // stems cannot cover is still bought at market and the plan is flagged.
+  const purchasedBunkerCost = options.bunkerStops
+    ? bunkerStops.reduce((sum, stop) => sum + stop.cost, 0) +
+      ifoStems.shortfall * costs.ifoPrice +
+      mdoStems.shortfall * costs.mdoPrice
+    : ifoToPurchase * costs.ifoPrice + mdoToPurchase * costs.mdoPrice;
+  const purchased = (stems: ReturnType<typeof allocateStems>, toPurchase: number) =>
+    options.bunkerStops
+      ? stems.qty.reduce((sum, qty) => sum + qty, 0) + Math.max(stems.shortfall, 0)
+      : toPurchase;
+  const robAtCompletion = {
+    ifo: Math.min(
+      Math.max(vessel.rob.ifo + purchased(ifoStems, ifoToPurchase) - totalIfo, 0),
+      vessel.tankCapacity.ifo,
+    ),
+    mdo: Math.min(
+      Math.max(vessel.rob.mdo + purchased(mdoStems, mdoToPurchase) - totalMdo, 0),
+      vessel.tankCapacity.mdo,
+    ),
+  };
+  const bunkerPlanFeasible = options.bunkerStops ? ifoStems.feasible && mdoStems.feasible : true;
+  const bunkerPortCost = options.bunkerStops
+    ? stops.reduce((sum, stop) => sum + stop.portCost, 0)
+    : costs.bunkerDa;
+  const bunkerExpense = robBunkerCost + purchasedBunkerCost;
+  // Canal transits are taken to come before the stem; time alongside the stem does not count.
+  const burnBeforeStem = (fuel: "ifo" | "mdo", phases: ReturnType<typeof burn>) =>
+    (ballastStop ? ballastStop.position : 1) * phases.ballastSea +
+    ballastDeviationDays * effectiveProfile.consumption.ballast[fuel] +
+    ballastCanalDays * vessel.portConsumption.idle[fuel];
+  const robCoversBallast =
+    burnBeforeStem("ifo", ifoBurn) <= vessel.rob.ifo &&
+    burnBeforeStem("mdo", mdoBurn) <= vessel.rob.mdo;
 
   const hireGross = vessel.dailyHire * totalDuration;
   const hireCommissions = hireGross * vessel.adComsPct;
   const hireNet = hireGross - hireCommissions;
 
-  const freightGross = loadedQty * cargo.freightRate;
+  const { freightGross, deadfreight, overageQty } = getFreightGross(
+    cargo.freightTerms,
+    loadedQty,
+    cargo.freightRate,
+  );
+  const effectiveFreightRate = loadedQty > 0 ? freightGross / loadedQty : 0;
   const freightCommissions = freightGross * (cargo.addressComsPct + cargo.brokerComsPct);
   const freightNet = freightGross - freightCommissions;
-  const revenueNet = freightNet + cargo.ballastBonus;
+  // Load-port idle days (including any port delay) count against laytime at the load port.
+  const laytime = settleLaytime(
+    getPortLaytime({
+      qty: cargo.cargoQty,
+      rate: cargo.loadRate,
+      basis: cargo.laytime.loadBasis,
+      workingDays: loadportWorkingDays,
+      delayDays: cargo.portIdleDays,
+    }),
+    getPortLaytime({
+      qty: cargo.cargoQty,
+      rate: cargo.dischargeRate,
+      basis: cargo.laytime.dischargeBasis,
+      workingDays: disportWorkingDays,
+      delayDays: 0,
+    }),
+    cargo.laytime,
+  );
+  const revenueNet = freightNet + cargo.ballastBonus + laytime.demurrage - laytime.despatch;
 
   const portDisbursements = costs.portDisbLoad + costs.portDisbDis;
-  const operatingExpenses = costs.cev + costs.ilhoc + costs.bunkerDa;
+  const operatingExpenses = costs.cev + costs.ilhoc + bunkerPortCost + canalDues;
   const miscExpense = costs.miscExpense;
   const miscExpenseTotal = operatingExpenses + portDisbursements + miscExpense;
   const totalExpenses = hireNet + bunkerExpense + miscExpenseTotal;
@@ -155,14 +437,21 @@ export const calculateFreight = (inputs: FreightInputs): FreightOutputs => {
   return {
     loadedQty,
     ballastDays,
+    loadportArrivalDays,
     ladenDays,
     steamingDays,
     loadportDays,
     disportDays,
     totalDuration,
     freightGross,
+    deadfreight,
+    overageQty,
+    effectiveFreightRate,
     freightNet,
     freightCommissions,
+    laytime,
+    demurrage: laytime.demurrage,
+    despatch: laytime.despatch,
     revenueNet,
     hireGross,
     hireNet,
@@ -173,7 +462,23 @@ export const calculateFreight = (inputs: FreightInputs): FreightOutputs => {
     mdoInPort,
     totalIfo,
     totalMdo,
+    robIfoUsed,
+    robMdoUsed,
+    ifoToPurchase,
+    mdoToPurchase,
+    robBunkerCost,
+    purchasedBunkerCost,
+    robCoversBallast,
+    bunkersAtLoadport,
+    robAtCompletion,
+    bunkerStops,
+    bunkerDeviationNm,
+    bunkerDeviationDays,
+    bunkerPortCost,
+    bunkerPlanFeasible,
     bunkerExpense,
+    canalDays,
+    canalDues,
     portDisbursements,
     operatingExpenses,
     miscExpense,
@@ -184,6 +489,25 @@ export const calculateFreight = (inputs: FreightInputs): FreightOutputs => {
   };
 };
 
+// Expenses do not depend on the freight rate and gross freight is affine in it, so
+// the zero-profit rate has a closed form. `extraCost` covers costs outside the voyage
+// estimate (e.g. laycan waiting); a vessel left idle earns 0, so this is the
+// minimum $/MT at which taking the cargo beats not fixing it.
+export const solveBreakEvenFreightRate = (
+  inputs: FreightInputs,
+  outputs: FreightOutputs = calculateFreight(inputs),
+  extraCost = 0,
+) => {
+  const netShare = 1 - inputs.cargo.addressComsPct - inputs.cargo.brokerComsPct;
+  const fixedFreight = getFreightGross(inputs.cargo.freightTerms, outputs.loadedQty, 0).freightGross;
+  const perRate =
+    getFreightGross(inputs.cargo.freightTerms, outputs.loadedQty, 1).freightGross - fixedFreight;
+  if (perRate * netShare <= 0) return Number.POSITIVE_INFINITY;
+  const otherRevenue =
+    inputs.cargo.ballastBonus + outputs.demurrage - outputs.despatch + fixedFreight * netShare;
+  return (outputs.totalExpenses + extraCost - otherRevenue) / (perRate * netShare);
+};
+
 export const exampleInputs: FreightInputs = {
   vessel: {
     dwt: 62000,
@@ -204,6 +528,8 @@ export const exampleInputs: FreightInputs = {
     },
     dailyHire: 12000,
     adComsPct: 0,
+    rob: { ifo: 0, mdo: 0 },
+    tankCapacity: { ifo: 3800, mdo: 350 },
   },
   cargo: {
     cargoQty: 60500,
@@ -217,6 +543,14 @@ export const exampleInputs: FreightInputs = {
     disportTT: 0.5,
     portIdleDays: 0.5,
     ballastBonus: 0,
+    laytime: {
+      loadBasis: "SHINC",
+      dischargeBasis: "SHINC",
+      reversible: false,
+      demurrageRate: null,
+      despatchRate: null,
+    },
+    freightTerms: defaultFreightTerms,
   },
   distances: {
     ballastNm: 3000,
@@ -225,6 +559,8 @@ export const exampleInputs: FreightInputs = {
   costs: {
     ifoPrice: 440,
     mdoPrice: 850,
+    robIfoPrice: 440,
+    robMdoPrice: 850,
     cev: 1500,
     ilhoc: 5000,
     bunkerDa: 1500,
@@ -235,5 +571,7 @@ export const exampleInputs: FreightInputs = {
   options: {
     bunkerDays: 1,
     speedBlend: { ballast: 0.5, laden: 0.75 },
+    bunkerCosting: "market",
+    consumptionModel: "linear",
   },
 };
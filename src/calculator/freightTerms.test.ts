@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { calculateFreight, exampleInputs } from "./freightCalculator";
+import {
+  defaultFreightTerms,
+  getDeadfreightLift,
+  getFreightGross,
+  type FreightTerms,
+} from "./freightTerms";
+
+const minimumTerms: FreightTerms = { ...defaultFreightTerms, minimumQty: 170000 };
+
+describe("deadfreight", () => {
+  it("charges the shortfall below the minimum at the freight rate", () => {
+    const gross = getFreightGross(minimumTerms, 160000, 10);
+    expect(gross.deadfreight).toBeCloseTo(100000, 6);
+    expect(gross.freightGross).toBeCloseTo(1700000, 6);
+  });
+
+  it("charges nothing once the minimum is lifted", () => {
+    expect(getFreightGross(minimumTerms, 170000, 10).deadfreight).toBe(0);
+    expect(getFreightGross(minimumTerms, 175000, 10).freightGross).toBeCloseTo(1750000, 6);
+  });
+
+  it("prices the shortfall at the tier rate it falls in", () => {
+    const terms: FreightTerms = {
+      ...minimumTerms,
+      tiers: [{ aboveQty: 165000, rateFactor: 0.5, label: "half freight above 165,000 MT" }],
+    };
+    // 5,000 MT short at full rate and 5,000 MT at half rate.
+    expect(getFreightGross(terms, 160000, 10).deadfreight).toBeCloseTo(75000, 6);
+  });
+
+  it("earns no deadfreight on a lumpsum", () => {
+    const gross = getFreightGross({ ...minimumTerms, lumpsum: 4_000_000 }, 100000, 10);
+    expect(gross.deadfreight).toBe(0);
+    expect(gross.freightGross).toBe(4_000_000);
+  });
+
+  it("loads full only when the vessel cannot lift the minimum", () => {
+    expect(getDeadfreightLift(minimumTerms, 165000)).toBe(165000);
+    expect(getDeadfreightLift(minimumTerms, 180000)).toBeNull();
+    expect(getDeadfreightLift(defaultFreightTerms, 165000)).toBeNull();
+    expect(getDeadfreightLift({ ...minimumTerms, lumpsum: 4_000_000 }, 165000)).toBeNull();
+  });
+
+  it("adds deadfreight to voyage revenue when the vessel is short of the minimum", () => {
+    const { cargo } = exampleInputs;
+    const base = calculateFreight(exampleInputs);
+    const short = calculateFreight({
+      ...exampleInputs,
+      cargo: { ...cargo, freightTerms: { ...defaultFreightTerms, minimumQty: 62500 } },
+    });
+    expect(short.deadfreight).toBeCloseTo(2000 * cargo.freightRate, 6);
+    expect(short.freightGross - base.freightGross).toBeCloseTo(short.deadfreight, 6);
+    expect(short.loadedQty).toBe(base.loadedQty);
+  });
+});
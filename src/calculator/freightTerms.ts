@@ -0,0 +1,105 @@
+export type FreightTier = {
+  // Applies to the tonnes loaded above this quantity.
+  aboveQty: number;
+  // Multiplier on the base freight rate, e.g. 0.5 for "half freight".
+  rateFactor: number;
+  label: string;
+};
+
+export type FreightTerms = {
+  // When set, freight is this amount regardless of quantity and rate.
+  lumpsum: number | null;
+  tiers: FreightTier[];
+  // Deadfreight is earned on any shortfall below this quantity (0 = none).
+  minimumQty: number;
+};
+
+export type FreightGross = {
+  freightGross: number;
+  deadfreight: number;
+  overageQty: number;
+};
+
+export const defaultFreightTerms: FreightTerms = { lumpsum: null, tiers: [], minimumQty: 0 };
+
+const toAmount = (value: string) => Number.parseFloat(value.replace(/,/g, ""));
+
+// Freight on `loadedQty` at `rate`, with each tier repricing the tonnes above its
+// threshold. Gross is affine in `rate`, which the break-even solver relies on.
+export const getFreightGross = (
+  terms: FreightTerms,
+  loadedQty: number,
+  rate: number,
+): FreightGross => {
+  if (terms.lumpsum !== null) {
+    return { freightGross: terms.lumpsum, deadfreight: 0, overageQty: 0 };
+  }
+  const tiers = [...terms.tiers].sort((a, b) => a.aboveQty - b.aboveQty);
+  const tiered = (qty: number) => {
+    let freight = 0;
+    let previousQty = 0;
+    let factor = 1;
+    for (const tier of tiers) {
+      if (qty <= tier.aboveQty) break;
+      freight += (tier.aboveQty - previousQty) * rate * factor;
+      previousQty = tier.aboveQty;
+      factor = tier.rateFactor;
+    }
+    return freight + (qty - previousQty) * rate * factor;
+  };
+  const freight = tiered(loadedQty);
+  const deadfreight = loadedQty < terms.minimumQty ? tiered(terms.minimumQty) - freight : 0;
+  const overageQty = tiers.length ? Math.max(loadedQty - tiers[0].aboveQty, 0) : 0;
+  return { freightGross: freight + deadfreight, deadfreight, overageQty };
+};
+
+// "half freight applies to any cargo loaded in excess of 176,000 MT",
+// "75% freight on quantity above 170,000 MT".
+export const parseFreightTiers = (value: string | undefined | null): FreightTier[] => {
+  if (!value) return [];
+  const pattern =
+    /(half|\d+(?:\.\d+)?\s*%)\s*(?:of\s+)?freight[^\d]*?(?:in excess of|above|over|exceeding)\s*([\d,.]+)\s*MT/gi;
+  return Array.from(value.matchAll(pattern)).flatMap((match) => {
+    const rateFactor =
+      match[1].toLowerCase() === "half" ? 0.5 : Number.parseFloat(match[1]) / 100;
+    const aboveQty = toAmount(match[2]);
+    if (!Number.isFinite(rateFactor) || !Number.isFinite(aboveQty)) return [];
+    return [{ aboveQty, rateFactor, label: match[0].trim() }];
+  });
+};
+
+// "USD 4.2M lumpsum", "lump sum $3,950,000".
+export const parseLumpsum = (value: string | undefined | null): number | null => {
+  if (!value || !/lump\s*-?\s*sum/i.test(value)) return null;
+  const match = value.match(/([\d,.]+)\s*([KM])?/i);
+  if (!match) return null;
+  const base = toAmount(match[1]);
+  const multiplier =
+    match[2]?.toUpperCase() === "M" ? 1_000_000 : match[2]?.toUpperCase() === "K" ? 1_000 : 1;
+  return Number.isFinite(base) ? base * multiplier : null;
+};
+
+// A vessel that cannot lift the contract minimum loads full and pays deadfreight on the
+// shortfall; returns that full lift, or null when the minimum fits or no deadfreight applies.
+export const getDeadfreightLift = (terms: FreightTerms, capacityQty: number) =>
+  terms.lumpsum === null &&
+  terms.minimumQty > 0 &&
+  capacityQty > 0 &&
+  capacityQty < terms.minimumQty
+    ? capacityQty
+    : null;
+
+// Quantities worth evaluating beyond the regular grid: tier thresholds and the DWT cap
+// inside the contract range, where the best lift usually sits once rates step down.
+export const getQuantityBreakpoints = (
+  terms: FreightTerms,
+  range: { min: number; max: number } | null,
+  dwt: number,
+) => {
+  if (!range) return [];
+  const min = Math.min(range.min, range.max);
+  const max = Math.max(range.min, range.max);
+  return [...terms.tiers.map((tier) => tier.aboveQty), dwt].filter(
+    (qty) => Number.isFinite(qty) && qty >= min && qty <= max,
+  );
+};
@@ -1,18 +1,104 @@
+// Load-port local: 00:00 on the first day to the end of the cancelling day.
 export type LaycanWindow = {
   start: Date;
   end: Date;
+  timeZone: string;
 };
 
 export type LaycanStatus = "infeasible" | "early" | "feasible";
 
+// Ballast speed against economical: raised to make cancelling, or lowered to wait less.
+export type LaycanStrategy = "speed_up" | "slow_steam" | "as_planned";
+
 export type LaycanEvaluation = {
   status: LaycanStatus;
   eta: Date;
   waitingDays: number;
   ballastDays: number;
+  // ETA to laycan opening (positive = early) and to cancelling (negative = late), in hours.
+  hoursToOpening: number;
+  hoursToCancelling: number;
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const fixedOffsetPattern = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+// Local minus UTC minutes for an IANA zone or a fixed offset ("UTC+8", "+05:30").
+export const getTimeZoneOffsetMinutes = (timeZone: string, instant: Date) => {
+  const zone = timeZone.trim();
+  if (!zone || /^(UTC|GMT|Z)$/i.test(zone)) return 0;
+  const fixed = zone.match(fixedOffsetPattern);
+  if (fixed) {
+    const minutes = Number.parseInt(fixed[2], 10) * 60 + Number.parseInt(fixed[3] ?? "0", 10);
+    return fixed[1] === "-" ? -minutes : minutes;
+  }
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number.parseInt(parts.find((item) => item.type === type)?.value ?? "0", 10);
+  const local = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return Math.round((local - instant.getTime()) / MS_PER_MINUTE);
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getTimeZoneOffsetMinutes(timeZone, new Date(0));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The instant at a local wall-clock time; the second offset lookup settles DST changes.
+export const makeZonedDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  timeZone = "UTC",
+) => {
+  const wall = Date.UTC(year, month, day, hours, minutes);
+  if (Number.isNaN(wall)) return undefined;
+  const guess = wall - getTimeZoneOffsetMinutes(timeZone, new Date(wall)) * MS_PER_MINUTE;
+  const date = new Date(
+    wall - getTimeZoneOffsetMinutes(timeZone, new Date(guess)) * MS_PER_MINUTE,
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date;
 };
 
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// "11 Mar 2026 14:00 Australia/Perth"
+export const formatZonedDateTime = (date: Date | null | undefined, timeZone = "UTC") => {
+  if (!date || Number.isNaN(date.getTime())) return "--";
+  const local = new Date(date.getTime() + getTimeZoneOffsetMinutes(timeZone, date) * MS_PER_MINUTE);
+  const label = local.toLocaleString("en-GB", {
+    timeZone: "UTC",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  return `${label.replace(",", "")} ${timeZone}`;
+};
 
 const monthIndex = (value: string) => {
   const normalized = value.trim().toLowerCase();
@@ -45,81 +131,202 @@ const monthIndex = (value: string) => {
   return months[normalized];
 };
 
-const makeUtcDate = (day: number, month: string, year: number) => {
-  const index = monthIndex(month);
-  if (index === undefined) return undefined;
-  const date = new Date(Date.UTC(year, index, day));
-  return Number.isNaN(date.getTime()) ? undefined : date;
+export type LaycanConfidence = "exact" | "approximate" | "relative" | "none";
+
+export type LaycanParseResult = {
+  window: LaycanWindow | null;
+  confidence: LaycanConfidence;
+  // How loose text was read, e.g. "end March" as 21-31 March.
+  notes: string[];
+  // Why no window could be read; null when parsing succeeded.
+  reason: string | null;
 };
 
-export const parseLaycanRange = (value: string | undefined | null): LaycanWindow | null => {
-  if (!value) return null;
-  const cleaned = value
+type MonthPart = "early" | "mid" | "end" | "firstHalf" | "secondHalf";
+
+// Day spans for month-part tokens; a null `to` runs to the last day of the month.
+const monthParts: Record<MonthPart, { from: number; to: number | null }> = {
+  early: { from: 1, to: 10 },
+  mid: { from: 11, to: 20 },
+  end: { from: 21, to: null },
+  firstHalf: { from: 1, to: 15 },
+  secondHalf: { from: 16, to: null },
+};
+
+const partTokens: Record<string, MonthPart> = {
+  early: "early",
+  beginning: "early",
+  mid: "mid",
+  middle: "mid",
+  end: "end",
+  late: "end",
+  "1h": "firstHalf",
+  "2h": "secondHalf",
+};
+
+// Relative windows open on the reference date and run for this many days.
+const relativeWindowDays: Record<string, number> = { spot: 5, prompt: 14 };
+
+const monthLabels = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+type LaycanPoint = { day?: number; month?: number; year?: number; part?: MonthPart };
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const getLocalDateParts = (date: Date, timeZone: string) => {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMinutes(timeZone, date) * MS_PER_MINUTE);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+};
+
+const normalizeLaycanText = (value: string) =>
+  value
+    .toLowerCase()
     .replace(/[\u2013\u2014]/g, "-")
+    .replace(/\blaycan\b|[,.]/g, " ")
+    .replace(/\b(\d{1,2})(?:st|nd|rd|th)\b/g, "$1")
+    .replace(/\bfirst half\b/g, "1h")
+    .replace(/\bsecond half\b/g, "2h")
+    .replace(/\b(early|mid|end|late)-(?=[a-z])/g, "$1 ")
+    .replace(/\s+(?:to|until|till)\s+/g, " - ")
     .replace(/\s+/g, " ")
     .trim();
 
-  const dayRangeSameMonth = cleaned.match(
-    /(\d{1,2})\s*-\s*(\d{1,2})\s*([A-Za-z]+)\s*(\d{4})/,
-  );
-  if (dayRangeSameMonth) {
-    const start = makeUtcDate(
-      Number.parseInt(dayRangeSameMonth[1], 10),
-      dayRangeSameMonth[3],
-      Number.parseInt(dayRangeSameMonth[4], 10),
-    );
-    const end = makeUtcDate(
-      Number.parseInt(dayRangeSameMonth[2], 10),
-      dayRangeSameMonth[3],
-      Number.parseInt(dayRangeSameMonth[4], 10),
-    );
-    if (start && end) return { start, end };
+// One side of a range: "28 mar", "march 7", "11 april 2026", "end march", "1h apr".
+const parsePoint = (text: string): LaycanPoint | string => {
+  const point: LaycanPoint = {};
+  for (const token of text.split(" ").filter(Boolean)) {
+    if (token === "of") continue;
+    if (/^\d{4}$/.test(token) && point.year === undefined) {
+      point.year = Number.parseInt(token, 10);
+    } else if (/^\d{1,2}$/.test(token) && point.day === undefined) {
+      point.day = Number.parseInt(token, 10);
+    } else if (monthIndex(token) !== undefined && point.month === undefined) {
+      point.month = monthIndex(token);
+    } else if (partTokens[token] && point.part === undefined) {
+      point.part = partTokens[token];
+    } else {
+      return `unexpected "${token}"`;
+    }
   }
+  if (point.day !== undefined && point.part) return `both a day and a month part in "${text}"`;
+  return point;
+};
 
-  const monthFirstRange = cleaned.match(
-    /([A-Za-z]+)\s*(\d{1,2})\s*-\s*(\d{1,2})\s*(\d{4})/,
-  );
-  if (monthFirstRange) {
-    const start = makeUtcDate(
-      Number.parseInt(monthFirstRange[2], 10),
-      monthFirstRange[1],
-      Number.parseInt(monthFirstRange[4], 10),
-    );
-    const end = makeUtcDate(
-      Number.parseInt(monthFirstRange[3], 10),
-      monthFirstRange[1],
-      Number.parseInt(monthFirstRange[4], 10),
-    );
-    if (start && end) return { start, end };
+// "7-11 March 2026", "28 Mar - 3 Apr", "end-March", "1H April", "spot". A missing year
+// comes from `referenceDate`, rolling over for months more than six months behind it.
+export const parseLaycan = (
+  value: string | undefined | null,
+  options: { timeZone?: string; referenceDate?: Date } = {},
+): LaycanParseResult => {
+  const timeZone = options.timeZone ?? "UTC";
+  const fail = (reason: string): LaycanParseResult => ({
+    window: null,
+    confidence: "none",
+    notes: [],
+    reason,
+  });
+  if (!value || !value.trim()) return fail("No laycan given.");
+  const text = normalizeLaycanText(value);
+  if (/^(tbn|tba|tbc|to be nominated|open)$/.test(text)) {
+    return fail(`Laycan "${value.trim()}" is still to be nominated.`);
   }
 
-  const twoDates = cleaned.match(
-    /(\d{1,2})\s*([A-Za-z]+)\s*(\d{4})\s*-\s*(\d{1,2})\s*([A-Za-z]+)\s*(\d{4})/,
-  );
-  if (twoDates) {
-    const start = makeUtcDate(
-      Number.parseInt(twoDates[1], 10),
-      twoDates[2],
-      Number.parseInt(twoDates[3], 10),
+  const reference = getLocalDateParts(options.referenceDate ?? new Date(), timeZone);
+  const relativeDays = relativeWindowDays[text];
+  if (relativeDays !== undefined) {
+    const start = makeZonedDate(reference.year, reference.month, reference.day, 0, 0, timeZone);
+    const next = makeZonedDate(
+      reference.year,
+      reference.month,
+      reference.day + relativeDays + 1,
+      0,
+      0,
+      timeZone,
     );
-    const end = makeUtcDate(
-      Number.parseInt(twoDates[4], 10),
-      twoDates[5],
-      Number.parseInt(twoDates[6], 10),
+    if (!start || !next) return fail(`Unreadable laycan "${value.trim()}".`);
+    return {
+      window: { start, end: new Date(next.getTime() - 1), timeZone },
+      confidence: "relative",
+      notes: [
+        `"${text}" read as ${relativeDays} days from ${reference.day} ${monthLabels[reference.month]} ${reference.year}.`,
+      ],
+      reason: null,
+    };
+  }
+
+  const sides = text.split(/\s*-\s*/);
+  if (sides.length > 2) return fail(`Laycan "${value.trim()}" has more than one range.`);
+  const parsed = sides.map(parsePoint);
+  const problem = parsed.find((item): item is string => typeof item === "string");
+  if (problem !== undefined) return fail(`Unreadable laycan "${value.trim()}": ${problem}.`);
+  const [first, last = { ...(parsed[0] as LaycanPoint) }] = parsed as LaycanPoint[];
+
+  first.month ??= last.month;
+  last.month ??= first.month;
+  if (first.month === undefined || last.month === undefined) {
+    return fail(`Laycan "${value.trim()}" has no month.`);
+  }
+
+  const notes: string[] = [];
+  if (first.year === undefined && last.year !== undefined) {
+    first.year = first.month > last.month ? last.year - 1 : last.year;
+  } else if (last.year === undefined && first.year !== undefined) {
+    last.year = last.month < first.month ? first.year + 1 : first.year;
+  } else if (first.year === undefined || last.year === undefined) {
+    const year = first.month < reference.month - 6 ? reference.year + 1 : reference.year;
+    first.year = year;
+    last.year = last.month < first.month ? year + 1 : year;
+    notes.push(`Year ${year} assumed from the reference date.`);
+  }
+
+  const startDay = first.day ?? (first.part ? monthParts[first.part].from : 1);
+  const lastDayOfMonth = daysInMonth(last.year, last.month);
+  const endDay = last.day ?? (last.part ? monthParts[last.part].to : null) ?? lastDayOfMonth;
+  if (startDay < 1 || startDay > daysInMonth(first.year, first.month) || endDay > lastDayOfMonth) {
+    return fail(`Laycan "${value.trim()}" names a day outside its month.`);
+  }
+  if (first.day === undefined || last.day === undefined) {
+    notes.push(
+      `"${value.trim()}" read as ${startDay} ${monthLabels[first.month]} - ${endDay} ${monthLabels[last.month]} ${last.year}.`,
     );
-    if (start && end) return { start, end };
   }
 
-  return null;
+  const start = makeZonedDate(first.year, first.month, startDay, 0, 0, timeZone);
+  const next = makeZonedDate(last.year, last.month, endDay + 1, 0, 0, timeZone);
+  if (!start || !next) return fail(`Unreadable laycan "${value.trim()}".`);
+  const end = new Date(next.getTime() - 1);
+  if (end.getTime() < start.getTime()) {
+    return fail(`Laycan "${value.trim()}" closes before it opens.`);
+  }
+
+  return {
+    window: { start, end, timeZone },
+    confidence: first.day !== undefined && last.day !== undefined ? "exact" : "approximate",
+    notes,
+    reason: null,
+  };
 };
 
 export const calculateBallastDays = (nm: number, speed: number) =>
   speed > 0 ? nm / speed / 24 : 0;
 
-export const parseDateInput = (value: string | undefined | null) => {
+// "2026-03-01", "2026-03-01 14:30" or "2026-03-01T14:30+08:00"; local to `timeZone` otherwise.
+export const parseDateInput = (value: string | undefined | null, timeZone = "UTC") => {
   if (!value) return null;
-  const date = new Date(`${value}T00:00:00Z`);
-  return Number.isNaN(date.getTime()) ? null : date;
+  const match = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+  const date = makeZonedDate(
+    Number.parseInt(match[1], 10),
+    Number.parseInt(match[2], 10) - 1,
+    Number.parseInt(match[3], 10),
+    Number.parseInt(match[4] ?? "0", 10),
+    Number.parseInt(match[5] ?? "0", 10),
+    match[6] ?? timeZone,
+  );
+  return date ?? null;
 };
 
 export const addDaysUtc = (date: Date, days: number) =>
@@ -127,23 +334,70 @@ export const addDaysUtc = (date: Date, days: number) =>
 
 const diffDays = (later: Date, earlier: Date) => (later.getTime() - earlier.getTime()) / MS_PER_DAY;
 
+// `ballastDays`, when given, replaces nm/speed (e.g. a blended speed plus a bunker call).
 export const evaluateLaycan = (params: {
   departureDate: Date;
   ballastNm: number;
   ballastSpeed: number;
   laycan: LaycanWindow;
+  ballastDays?: number;
 }): LaycanEvaluation => {
-  const ballastDays = calculateBallastDays(params.ballastNm, params.ballastSpeed);
+  const ballastDays =
+    params.ballastDays ?? calculateBallastDays(params.ballastNm, params.ballastSpeed);
   const eta = addDaysUtc(params.departureDate, ballastDays);
+  const margins = {
+    hoursToOpening: diffDays(params.laycan.start, eta) * 24,
+    hoursToCancelling: diffDays(params.laycan.end, eta) * 24,
+  };
 
   if (eta.getTime() > params.laycan.end.getTime()) {
-    return { status: "infeasible", eta, waitingDays: 0, ballastDays };
+    return { status: "infeasible", eta, waitingDays: 0, ballastDays, ...margins };
   }
 
   if (eta.getTime() < params.laycan.start.getTime()) {
     const waitingDays = diffDays(params.laycan.start, eta);
-    return { status: "early", eta, waitingDays, ballastDays };
+    return { status: "early", eta, waitingDays, ballastDays, ...margins };
   }
 
-  return { status: "feasible", eta, waitingDays: 0, ballastDays };
+  return { status: "feasible", eta, waitingDays: 0, ballastDays, ...margins };
+};
+
+// Slowest ballast speed (knots) arriving by cancelling; Infinity when no time is left.
+export const getRequiredBallastSpeed = (params: {
+  departureDate: Date;
+  ballastNm: number;
+  laycan: LaycanWindow;
+  stopDays?: number;
+}) => {
+  if (params.ballastNm <= 0) return 0;
+  const hours = (diffDays(params.laycan.end, params.departureDate) - (params.stopDays ?? 0)) * 24;
+  return hours > 0 ? params.ballastNm / hours : Number.POSITIVE_INFINITY;
+};
+
+export const getLaycanStrategy = (params: {
+  ballastSpeed: number;
+  economicalSpeed: number;
+  requiredSpeed: number;
+  // Waiting days had the vessel sailed at warranted speed.
+  warrantedWaitingDays: number;
+}): LaycanStrategy => {
+  if (params.requiredSpeed > params.economicalSpeed) return "speed_up";
+  if (params.warrantedWaitingDays > 0 && params.ballastSpeed < params.economicalSpeed - 1e-6) {
+    return "slow_steam";
+  }
+  return "as_planned";
+};
+
+// Hire and idle-port fuel while waiting at the load port for the laycan to open.
+export const getWaitingCost = (
+  evaluation: LaycanEvaluation | undefined,
+  dailyHire: number,
+  idleConsumption: { ifo: number; mdo: number },
+  prices: { ifo: number; mdo: number },
+) => {
+  if (evaluation?.status !== "early" || evaluation.waitingDays <= 0) return 0;
+  return (
+    evaluation.waitingDays *
+    (dailyHire + idleConsumption.ifo * prices.ifo + idleConsumption.mdo * prices.mdo)
+  );
 };
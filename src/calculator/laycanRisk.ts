@@ -0,0 +1,88 @@
+// "off" reports the miss probability only, "penalize" charges its expected cost and
+// "reject" drops pairs that cannot be sailed below `maxMissProbability`. Off by default so
+// the objective only changes for callers that opt in.
+export type LaycanRiskMode = "off" | "penalize" | "reject";
+
+export type LaycanRiskOptions = {
+  mode: LaycanRiskMode;
+  // One standard deviation of the departure time, hours.
+  etdStdHours: number;
+  // One standard deviation of the achieved ballast speed (weather, fouling), % of plan.
+  ballastSpeedStdPct: number;
+  maxMissProbability: number;
+  // Cost of a cancelled fixture on top of the lost voyage profit, USD.
+  missPenalty: number;
+};
+
+export const defaultLaycanRiskOptions: LaycanRiskOptions = {
+  mode: "off",
+  etdStdHours: 12,
+  ballastSpeedStdPct: 5,
+  maxMissProbability: 0.2,
+  missPenalty: 0,
+};
+
+// Abramowitz & Stegun 7.1.26; absolute error below 1.5e-7.
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Arrival is ETD plus passage time; both errors are treated as independent normals, and a
+// speed error of p% stretches the passage by about p%.
+export const getArrivalStdHours = (passageHours: number, options: LaycanRiskOptions) =>
+  Math.hypot(options.etdStdHours, (options.ballastSpeedStdPct / 100) * passageHours);
+
+// Probability that the vessel arrives after the cancelling date.
+export const getLaycanMissProbability = (
+  hoursToCancelling: number,
+  passageHours: number,
+  options: LaycanRiskOptions,
+) => {
+  const stdHours = getArrivalStdHours(passageHours, options);
+  if (stdHours <= 0) return hoursToCancelling < 0 ? 1 : 0;
+  return 1 - normalCdf(hoursToCancelling / stdHours);
+};
+
+// Expected loss from a miss: the voyage profit is forfeited and the penalty incurred.
+export const getLaycanRiskCost = (
+  missProbability: number,
+  voyageProfit: number,
+  options: LaycanRiskOptions,
+) =>
+  options.mode === "penalize"
+    ? missProbability * (Math.max(voyageProfit, 0) + options.missPenalty)
+    : 0;
+
+// Slowest ballast speed within [minSpeed, maxSpeed] whose miss probability stays at or
+// below the cap, or null when even `maxSpeed` is too risky. Faster sailing both widens the
+// margin and shortens the uncertain passage, so the probability falls with speed.
+export const getRiskLimitedBallastSpeed = (params: {
+  ballastNm: number;
+  // Departure to cancelling, less any time stopped on the way.
+  hoursAvailable: number;
+  minSpeed: number;
+  maxSpeed: number;
+  options: LaycanRiskOptions;
+}) => {
+  const { ballastNm, hoursAvailable, minSpeed, maxSpeed, options } = params;
+  const missAt = (speed: number) => {
+    const passageHours = speed > 0 ? ballastNm / speed : Number.POSITIVE_INFINITY;
+    return getLaycanMissProbability(hoursAvailable - passageHours, passageHours, options);
+  };
+  if (missAt(maxSpeed) > options.maxMissProbability) return null;
+  if (missAt(minSpeed) <= options.maxMissProbability) return minSpeed;
+  let low = minSpeed;
+  let high = maxSpeed;
+  while (high - low > 0.001) {
+    const mid = (low + high) / 2;
+    if (missAt(mid) > options.maxMissProbability) low = mid;
+    else high = mid;
+  }
+  return high;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { calculateFreight, exampleInputs } from "./freightCalculator";
+import { getPortLaytime, getWorkingDays, settleLaytime, type LaytimeTerms } from "./laytime";
+
+const terms: LaytimeTerms = {
+  loadBasis: "SHEX",
+  dischargeBasis: "SHEX",
+  reversible: false,
+  demurrageRate: 20000,
+  despatchRate: 10000,
+};
+
+// Both ports worked exactly at the charter rate, with `delayDays` lost at the load berth.
+const settleOnRate = (laytimeTerms: LaytimeTerms, delayDays = 0) => {
+  const port = (rate: number, basis: LaytimeTerms["loadBasis"], delay: number) =>
+    getPortLaytime({
+      qty: 150000,
+      rate,
+      basis,
+      workingDays: getWorkingDays(150000, rate, basis),
+      delayDays: delay,
+    });
+  return settleLaytime(
+    port(30000, laytimeTerms.loadBasis, delayDays),
+    port(25000, laytimeTerms.dischargeBasis, 0),
+    laytimeTerms,
+  );
+};
+
+describe("laytime", () => {
+  it("settles SHEX loading on rate at zero despatch and demurrage", () => {
+    const settlement = settleOnRate(terms);
+    expect(settlement.despatch).toBeCloseTo(0, 6);
+    expect(settlement.demurrage).toBeCloseTo(0, 6);
+  });
+
+  it("settles a SHEX voyage loaded and discharged on rate at zero", () => {
+    const outputs = calculateFreight({
+      ...exampleInputs,
+      cargo: { ...exampleInputs.cargo, portIdleDays: 0, laytime: terms },
+    });
+    expect(outputs.despatch).toBeCloseTo(0, 6);
+    expect(outputs.demurrage).toBeCloseTo(0, 6);
+  });
+
+  it("settles SHINC loading on rate at zero", () => {
+    const settlement = settleOnRate({ ...terms, loadBasis: "SHINC", dischargeBasis: "SHINC" });
+    expect(settlement.despatch).toBeCloseTo(0, 6);
+    expect(settlement.demurrage).toBeCloseTo(0, 6);
+  });
+
+  it("takes 7/6 as many calendar days to work a SHEX cargo", () => {
+    expect(getWorkingDays(60000, 10000, "SHEX")).toBeCloseTo(7, 9);
+    expect(getWorkingDays(60000, 10000, "SHINC")).toBeCloseTo(6, 9);
+  });
+
+  it("counts 6 of every 7 delay days under SHEX", () => {
+    const settlement = settleOnRate(terms, 7);
+    expect(settlement.demurrageDays).toBeCloseTo(6, 6);
+    expect(settlement.demurrage).toBeCloseTo(120000, 3);
+  });
+
+  it("pools reversible laytime across both ports", () => {
+    const load = { allowedDays: 5, usedDays: 7 };
+    const discharge = { allowedDays: 6, usedDays: 3 };
+    expect(settleLaytime(load, discharge, { ...terms, reversible: true }).despatchDays).toBe(1);
+    expect(settleLaytime(load, discharge, terms).demurrageDays).toBe(2);
+  });
+});
@@ -0,0 +1,100 @@
+export type LaytimeBasis = "SHINC" | "SHEX";
+
+export type LaytimeTerms = {
+  loadBasis: LaytimeBasis;
+  dischargeBasis: LaytimeBasis;
+  // Load and discharge laytime pooled into one allowance.
+  reversible: boolean;
+  // USD/day; null when the charter party gives no rate.
+  demurrageRate: number | null;
+  despatchRate: number | null;
+};
+
+export type PortLaytime = {
+  allowedDays: number;
+  usedDays: number;
+};
+
+export type LaytimeSettlement = {
+  load: PortLaytime;
+  discharge: PortLaytime;
+  demurrageDays: number;
+  despatchDays: number;
+  demurrage: number;
+  despatch: number;
+  // Rates the charter party lacks. Without a demurrage rate nothing is settled.
+  missingTerms: Array<"demurrage rate" | "despatch rate">;
+};
+
+// Without a calendar, SHEX counts 6 of every 7 days (Sundays/holidays excepted).
+const countedShare = (basis: LaytimeBasis) => (basis === "SHEX" ? 6 / 7 : 1);
+
+export const parseLaytimeBasis = (value: string | undefined | null): LaytimeBasis =>
+  value && /\bSHEX\b/i.test(value) ? "SHEX" : "SHINC";
+
+export const parseReversible = (value: string | undefined | null) =>
+  Boolean(value && /\breversible\b/i.test(value) && !/\bnon[- ]?reversible\b/i.test(value));
+
+// Calendar days alongside to handle `qty` at `rate` per laytime day. Under SHEX the
+// excepted days are not worked, so the same cargo takes 7/6 as many calendar days.
+export const getWorkingDays = (qty: number, rate: number, basis: LaytimeBasis) =>
+  rate > 0 ? qty / rate / countedShare(basis) : 0;
+
+// Turn time runs before laytime commences, so it is neither allowed nor used here.
+// Allowed laytime is in counted days; the calendar days worked (see getWorkingDays) and
+// delays at the berth count against it at the basis' share, so loading on rate settles
+// at zero.
+export const getPortLaytime = (params: {
+  qty: number;
+  rate: number;
+  basis: LaytimeBasis;
+  workingDays: number;
+  delayDays: number;
+}): PortLaytime => ({
+  allowedDays: params.rate > 0 ? params.qty / params.rate : 0,
+  usedDays: Math.max(params.workingDays + params.delayDays, 0) * countedShare(params.basis),
+});
+
+export const settleLaytime = (
+  load: PortLaytime,
+  discharge: PortLaytime,
+  terms: LaytimeTerms,
+): LaytimeSettlement => {
+  const missingTerms: LaytimeSettlement["missingTerms"] = [];
+  if (terms.demurrageRate === null) missingTerms.push("demurrage rate");
+  if (terms.despatchRate === null) missingTerms.push("despatch rate");
+  if (terms.demurrageRate === null) {
+    return {
+      load,
+      discharge,
+      demurrageDays: 0,
+      despatchDays: 0,
+      demurrage: 0,
+      despatch: 0,
+      missingTerms,
+    };
+  }
+  let demurrageDays = 0;
+  let despatchDays = 0;
+  if (terms.reversible) {
+    const balance =
+      load.usedDays + discharge.usedDays - (load.allowedDays + discharge.allowedDays);
+    demurrageDays = Math.max(balance, 0);
+    despatchDays = Math.max(-balance, 0);
+  } else {
+    for (const port of [load, discharge]) {
+      const balance = port.usedDays - port.allowedDays;
+      demurrageDays += Math.max(balance, 0);
+      despatchDays += Math.max(-balance, 0);
+    }
+  }
+  return {
+    load,
+    discharge,
+    demurrageDays,
+    despatchDays,
+    demurrage: demurrageDays * terms.demurrageRate,
+    despatch: despatchDays * (terms.despatchRate ?? 0),
+    missingTerms,
+  };
+};
@@ -0,0 +1,592 @@
+import {
+  calculateFreight,
+  exampleInputs,
+  solveBreakEvenFreightRate,
+  type BunkerCosting,
+  type BunkerStop,
+  type FreightInputs,
+  type FreightOutputs,
+} from "./freightCalculator";
+import { getDeadfreightLift, getQuantityBreakpoints } from "./freightTerms";
+import { getSpeedBounds, optimizeSpeed } from "./speedOptimizer";
+import type { ConsumptionModel } from "./speed";
+import { getBunkerCandidates, planBunkerStops } from "./bunkerPlanner";
+import {
+  calculateBallastDays,
+  evaluateLaycan,
+  getLaycanStrategy,
+  getRequiredBallastSpeed,
+  getWaitingCost,
+  parseDateInput,
+  type LaycanEvaluation,
+  type LaycanStrategy,
+} from "./laycan";
+import {
+  defaultLaycanRiskOptions,
+  getLaycanMissProbability,
+  getLaycanRiskCost,
+  getRiskLimitedBallastSpeed,
+  type LaycanRiskOptions,
+} from "./laycanRisk";
+import {
+  calculateMaxIntake,
+  getCargoFeasibility,
+  getQuantityRangeFeasibility,
+  type CargoFeasibility,
+  type IntakeResult,
+} from "./weight";
+import { getLegDistance, type DistanceSource } from "./portDistances";
+import {
+  filterRouteVariants,
+  getRouteVariants,
+  selectRouteVariants,
+  type Chokepoint,
+  type RouteVariant,
+} from "./routeVariants";
+import { getPortCombinations, withPortOption, type PortOptionRule } from "./portOptions";
+import type { PairRejection } from "./portfolioTrace";
+import type { BusinessData, CargoOption, VesselOption } from "./businessData";
+
+// Prices and options every pair of one run is evaluated with.
+export type PairPricing = {
+  bunkerPrices: { ifo: number; mdo: number };
+  robPrices: { ifo: number; mdo: number };
+  bunkerCosting: BunkerCosting;
+  consumptionModel: ConsumptionModel;
+  // Extra idle days at each port.
+  portDelayDays: number;
+  speedToleranceKn: number;
+  laycanRisk: LaycanRiskOptions;
+  avoidChokepoints: Chokepoint[];
+  // ETD for vessels whose own cannot be read, YYYY-MM-DD.
+  todayIso: string;
+};
+
+export const getDefaultPairPricing = (): PairPricing => ({
+  bunkerPrices: { ifo: exampleInputs.costs.ifoPrice, mdo: exampleInputs.costs.mdoPrice },
+  robPrices: { ifo: exampleInputs.costs.robIfoPrice, mdo: exampleInputs.costs.robMdoPrice },
+  bunkerCosting: exampleInputs.options.bunkerCosting,
+  consumptionModel: exampleInputs.options.consumptionModel,
+  portDelayDays: 0,
+  speedToleranceKn: 0.01,
+  laycanRisk: defaultLaycanRiskOptions,
+  avoidChokepoints: [],
+  todayIso: new Date().toISOString().slice(0, 10),
+});
+
+export type PairResult = ReturnType<typeof calculateFreight> & {
+  adjustedProfit: number;
+  waitingCost: number;
+  // Lowest $/MT over the searched quantities and speed blends at which adjustedProfit >= 0.
+  breakEvenRate: number;
+  laycanEvaluation?: LaycanEvaluation;
+  // Slowest ballast speed (kn) that makes the cancelling date.
+  requiredBallastSpeed: number;
+  laycanStrategy: LaycanStrategy;
+  // Chance of arriving after the cancelling date given ETD and speed uncertainty.
+  laycanMissProbability: number;
+  laycanRiskCost: number;
+  vessel: VesselOption;
+  cargo: CargoOption;
+  departureDate: Date;
+  ballastNm: number;
+  ladenNm: number;
+  cargoQty: number;
+  intake: IntakeResult;
+  // Weight (DWT or draft-limited intake) and cube check at the chosen quantity.
+  cargoFeasibility: CargoFeasibility;
+  speedBlend: { ballast: number; laden: number };
+  speedKnots: { ballast: number; laden: number };
+  distanceSource: { ballast: DistanceSource; laden: DistanceSource };
+  // Intermediate ports when a leg is routed rather than read straight from the table.
+  ballastVia: string[];
+  ladenVia: string[];
+  // Cheapest sailing option per leg among those not through an avoided chokepoint.
+  ballastRouteVariant: RouteVariant;
+  ladenRouteVariant: RouteVariant;
+  // Where and when the vessel opens for its next fixture.
+  openPort: string;
+  openDate: Date;
+  // Freight inputs of the chosen quantity and speeds.
+  inputs: FreightInputs;
+};
+
+export type PortOptionChoice = {
+  loadPort: string;
+  dischargePort: string;
+  isBase: boolean;
+  rule: PortOptionRule;
+  freightRate: number;
+  combinationsEvaluated: number;
+};
+
+// The best pair over every port combination the cargo allows.
+export type PortPairResult = PairResult & { portOption: PortOptionChoice };
+
+// Where pricing reports dropped pairs. Pairs with no feasible port combination carry the
+// first filter the base ports failed.
+export type PairReport = {
+  laycanRiskRejections: Array<{
+    vesselName: string;
+    cargoName: string;
+    missProbability: number;
+  }>;
+  routeExclusions: Array<{
+    vesselName: string;
+    cargoName: string;
+    leg: "ballast" | "laden";
+    blocked: string[];
+  }>;
+  pairRejections: Array<PairRejection & { vesselName: string; cargoName: string }>;
+  freightCalcs: number;
+};
+
+export const createPairReport = (): PairReport => ({
+  laycanRiskRejections: [],
+  routeExclusions: [],
+  pairRejections: [],
+  freightCalcs: 0,
+});
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+export const createPairEvaluator = (
+  data: Pick<BusinessData, "distances" | "distanceEstimator" | "bunkerPorts" | "seaRoutes">,
+  pricing: PairPricing,
+) => {
+  const { distances, distanceEstimator, bunkerPorts, seaRoutes } = data;
+  const {
+    bunkerPrices,
+    robPrices,
+    bunkerCosting,
+    consumptionModel,
+    portDelayDays,
+    speedToleranceKn,
+    laycanRisk,
+    avoidChokepoints,
+    todayIso,
+  } = pricing;
+
+  // Prices `cargo` at its own ports.
+  const computePairForPorts = (
+    vessel: VesselOption,
+    cargo: CargoOption,
+    report: PairReport,
+  ): PairResult | PairRejection => {
+    if (!Number.isFinite(cargo.data.freightRate) || cargo.data.freightRate <= 0) {
+      return {
+        reason: "freight_rate",
+        detail: `Freight rate ${formatNumber(cargo.data.freightRate || 0)}/MT is not positive.`,
+      };
+    }
+
+    const ballastLeg = getLegDistance(
+      distances.distanceMap,
+      vessel.currentPort,
+      cargo.loadPort,
+      distanceEstimator,
+    );
+    const ladenLeg = getLegDistance(
+      distances.distanceMap,
+      cargo.loadPort,
+      cargo.dischargePort,
+      distanceEstimator,
+    );
+    const laycanWindow = cargo.laycanWindow ?? null;
+    const departureDate =
+      parseDateInput(vessel.etdDate, vessel.etdTimeZone) ??
+      parseDateInput(todayIso, vessel.etdTimeZone);
+    if (!laycanWindow) {
+      return { reason: "laycan_window", detail: cargo.laycanParse.reason ?? "Unreadable laycan." };
+    }
+    if (!departureDate) {
+      return { reason: "laycan_window", detail: `Unreadable ETD "${vessel.etdDate}".` };
+    }
+
+    const routeOptions = {
+      ballast: getRouteVariants(
+        seaRoutes,
+        vessel.currentPort,
+        cargo.loadPort,
+        ballastLeg,
+        "ballast",
+      ),
+      laden: getRouteVariants(seaRoutes, cargo.loadPort, cargo.dischargePort, ladenLeg, "laden"),
+    };
+    for (const leg of ["ballast", "laden"] as const) {
+      if (filterRouteVariants(routeOptions[leg], avoidChokepoints).length === 0) {
+        const reported = report.routeExclusions.some(
+          (item) =>
+            item.vesselName === vessel.name && item.cargoName === cargo.name && item.leg === leg,
+        );
+        if (!reported) {
+          report.routeExclusions.push({
+            vesselName: vessel.name,
+            cargoName: cargo.name,
+            leg,
+            blocked: routeOptions[leg].map((variant) => variant.name),
+          });
+        }
+        return { reason: "route_blocked", detail: `Every ${leg} route is blocked.` };
+      }
+    }
+
+    const freightRate = cargo.data.freightRate;
+
+    type RouteLegs = { ballast: RouteVariant; laden: RouteVariant };
+    const makeInputs = (
+      cargoQty: number,
+      speedBlend: { ballast: number; laden: number },
+      legs: RouteLegs,
+      bunkerStops?: BunkerStop[],
+    ): FreightInputs => ({
+      vessel: vessel.data,
+      cargo: {
+        ...cargo.data,
+        cargoQty,
+        freightRate,
+        portIdleDays: cargo.data.portIdleDays + portDelayDays,
+      },
+      distances: { ballastNm: legs.ballast.distanceNm, ladenNm: legs.laden.distanceNm },
+      canals: {
+        ballastDays: legs.ballast.transitDays,
+        ladenDays: legs.laden.transitDays,
+        dues: legs.ballast.dues + legs.laden.dues,
+      },
+      costs: {
+        ...exampleInputs.costs,
+        ifoPrice: bunkerPrices.ifo,
+        mdoPrice: bunkerPrices.mdo,
+        robIfoPrice: robPrices.ifo,
+        robMdoPrice: robPrices.mdo,
+        portDisbLoad: cargo.portCosts.load,
+        portDisbDis: cargo.portCosts.discharge,
+      },
+      options: {
+        bunkerDays: exampleInputs.options.bunkerDays,
+        speedBlend,
+        bunkerCosting,
+        consumptionModel,
+        bunkerStops,
+      },
+    });
+
+    // The route is chosen once per pair on profit at the reference quantity and speed, as
+    // are the bunker ports below.
+    const referenceQty = Math.min(cargo.data.cargoQty, vessel.data.dwt);
+    const routeLegs = selectRouteVariants(
+      filterRouteVariants(routeOptions.ballast, avoidChokepoints),
+      filterRouteVariants(routeOptions.laden, avoidChokepoints),
+      (legs) =>
+        calculateFreight(makeInputs(referenceQty, exampleInputs.options.speedBlend, legs)).profit,
+    );
+    if (!routeLegs) {
+      return { reason: "route_blocked", detail: "No sailing option for both legs." };
+    }
+    const ballastNm = routeLegs.ballast.distanceNm;
+    const ladenNm = routeLegs.laden.distanceNm;
+    const { stops: bunkerStops } = planBunkerStops(
+      makeInputs(referenceQty, exampleInputs.options.speedBlend, routeLegs),
+      [
+        ...getBunkerCandidates(
+          bunkerPorts,
+          "ballast",
+          vessel.currentPort,
+          cargo.loadPort,
+          distances.distanceMap,
+          distanceEstimator,
+          bunkerPrices,
+        ),
+        ...getBunkerCandidates(
+          bunkerPorts,
+          "laden",
+          cargo.loadPort,
+          cargo.dischargePort,
+          distances.distanceMap,
+          distanceEstimator,
+          bunkerPrices,
+        ),
+      ],
+    );
+
+    // So is the intake cap: fuel aboard at the load port moves little with speed.
+    const intake = calculateMaxIntake({
+      dwt: vessel.data.dwt,
+      particulars: vessel.intake,
+      bunkersOnBoard: calculateFreight(
+        makeInputs(referenceQty, exampleInputs.options.speedBlend, routeLegs, bunkerStops),
+      ).bunkersAtLoadport,
+      zone: cargo.loadLineZone,
+      portMaxDraftM: cargo.loadPortMaxDraftM,
+    });
+    const capacityLimits = {
+      weightLimit: Math.min(vessel.data.dwt, intake.maxCargoQty),
+      stowFactor: cargo.data.stowFactor,
+      capacityM3: vessel.data.grainCapacity,
+      capacityEstimated: vessel.grainCapacityEstimated,
+    };
+
+    // ETA follows the searched ballast speed: the optimizer may speed up to make the
+    // cancelling date or slow steam rather than wait for the laycan to open.
+    const ballastStop = bunkerStops.find((stop) => stop.leg === "ballast");
+    const ballastPassageNm = ballastNm + (ballastStop?.deviationNm ?? 0);
+    // Bunker calls and canal transits both stop the clock on the ballast leg.
+    const ballastStopDays = (ballastStop?.stemDays ?? 0) + routeLegs.ballast.transitDays;
+    const requiredBallastSpeed = getRequiredBallastSpeed({
+      departureDate,
+      ballastNm: ballastPassageNm,
+      laycan: laycanWindow,
+      stopDays: ballastStopDays,
+    });
+    const fastestBallastSpeed = getSpeedBounds(vessel.data, "ballast", consumptionModel).max;
+    if (requiredBallastSpeed > fastestBallastSpeed) {
+      return {
+        reason: "laycan",
+        detail:
+          `Needs ${formatNumber(requiredBallastSpeed)} kn ballast to make the cancelling ` +
+          `date; fastest is ${formatNumber(fastestBallastSpeed)} kn.`,
+      };
+    }
+    const laycanAt = (outputs: FreightOutputs) =>
+      evaluateLaycan({
+        departureDate,
+        ballastNm,
+        ballastSpeed: vessel.data.speed.ballast,
+        laycan: laycanWindow,
+        ballastDays: outputs.loadportArrivalDays,
+      });
+    const waitingCostAt = (outputs: FreightOutputs) =>
+      getWaitingCost(
+        laycanAt(outputs),
+        vessel.data.dailyHire,
+        vessel.data.portConsumption.idle,
+        bunkerPrices,
+      );
+    const warrantedWaitingDays = evaluateLaycan({
+      departureDate,
+      ballastNm: ballastPassageNm,
+      ballastSpeed: vessel.data.speedWarranted.ballast,
+      laycan: laycanWindow,
+      ballastDays:
+        calculateBallastDays(ballastPassageNm, vessel.data.speedWarranted.ballast) +
+        ballastStopDays,
+    }).waitingDays;
+    const missProbabilityAt = (outputs: FreightOutputs) =>
+      getLaycanMissProbability(
+        laycanAt(outputs).hoursToCancelling,
+        outputs.loadportArrivalDays * 24,
+        laycanRisk,
+      );
+    // In reject mode the ballast leg is floored at the slowest speed that keeps the
+    // miss probability within the cap; pairs that cannot get there are dropped.
+    let minBallastKnots = requiredBallastSpeed;
+    if (laycanRisk.mode === "reject") {
+      const hoursAvailable =
+        (laycanWindow.end.getTime() - departureDate.getTime()) / 3_600_000 -
+        ballastStopDays * 24;
+      const riskLimitedSpeed = getRiskLimitedBallastSpeed({
+        ballastNm: ballastPassageNm,
+        hoursAvailable,
+        minSpeed: requiredBallastSpeed,
+        maxSpeed: fastestBallastSpeed,
+        options: laycanRisk,
+      });
+      if (riskLimitedSpeed === null) {
+        const passageHours = ballastPassageNm / fastestBallastSpeed;
+        const missProbability = getLaycanMissProbability(
+          hoursAvailable - passageHours,
+          passageHours,
+          laycanRisk,
+        );
+        // Discharge-port options share the ballast leg; report the pair once.
+        if (
+          !report.laycanRiskRejections.some(
+            (item) => item.vesselName === vessel.name && item.cargoName === cargo.name,
+          )
+        ) {
+          report.laycanRiskRejections.push({
+            vesselName: vessel.name,
+            cargoName: cargo.name,
+            missProbability,
+          });
+        }
+        return {
+          reason: "laycan_risk",
+          detail:
+            `${formatNumber(missProbability * 100)}% miss at full speed; cap is ` +
+            `${formatNumber(laycanRisk.maxMissProbability * 100)}%.`,
+        };
+      }
+      minBallastKnots = riskLimitedSpeed;
+    }
+    const searchOptions = {
+      toleranceKn: speedToleranceKn,
+      minKnots: { ballast: minBallastKnots },
+    };
+    // Penalize mode charges the expected loss of a missed cancelling date.
+    const riskCostAt = (outputs: FreightOutputs) =>
+      getLaycanRiskCost(
+        missProbabilityAt(outputs),
+        outputs.profit - waitingCostAt(outputs),
+        laycanRisk,
+      );
+
+    const baseQty = cargo.data.cargoQty;
+    const qtyRange = cargo.quantityRange;
+    const qtyMin = qtyRange ? Math.min(qtyRange.min, qtyRange.max) : baseQty;
+    const qtyMax = qtyRange ? Math.max(qtyRange.min, qtyRange.max) : baseQty;
+    const qtyStep = Math.max(baseQty * 0.01, 1);
+    const qtyValues: number[] = [];
+    if (qtyRange) {
+      for (let qty = qtyMin; qty <= qtyMax + 1e-6; qty += qtyStep) {
+        qtyValues.push(qty);
+      }
+    } else {
+      qtyValues.push(baseQty);
+    }
+    const capacityQty = getCargoFeasibility(cargo.data.cargoQty, capacityLimits).maxQty;
+    qtyValues.push(...getQuantityBreakpoints(cargo.data.freightTerms, qtyRange, capacityQty));
+    // Below the minimum only as a full lift with deadfreight on the shortfall.
+    const deadfreightQty = getDeadfreightLift(cargo.data.freightTerms, capacityQty);
+    if (deadfreightQty !== null) qtyValues.push(deadfreightQty);
+
+    let best: PairResult | null = null;
+    let breakEvenRate = Number.POSITIVE_INFINITY;
+    // Last capacity failure among in-range quantities, reported when none is feasible.
+    let capacityFailure: string | null = null;
+    for (const cargoQty of qtyValues) {
+      const rangeCheck = getQuantityRangeFeasibility(cargoQty, cargo.quantityRange);
+      if (rangeCheck.status === "infeasible" && cargoQty !== deadfreightQty) {
+        continue;
+      }
+      const cargoCheck = getCargoFeasibility(cargoQty, capacityLimits);
+      if (cargoCheck.status === "infeasible") {
+        capacityFailure = cargoCheck.reason ?? `${cargoCheck.limitedBy} limit exceeded.`;
+        continue;
+      }
+      const inputs = makeInputs(cargoQty, exampleInputs.options.speedBlend, routeLegs, bunkerStops);
+      const optimum = optimizeSpeed(
+        inputs,
+        (outputs) => outputs.profit - waitingCostAt(outputs) - riskCostAt(outputs),
+        searchOptions,
+      );
+      // Break-even is minimised separately: the cheapest speed per tonne is not
+      // necessarily the most profitable one.
+      const cheapest = optimizeSpeed(
+        inputs,
+        (outputs, evaluated) =>
+          -solveBreakEvenFreightRate(evaluated, outputs, waitingCostAt(outputs)),
+        searchOptions,
+      );
+      report.freightCalcs += optimum.evaluations + cheapest.evaluations;
+      breakEvenRate = Math.min(breakEvenRate, -cheapest.value);
+
+      const adjustedProfit = optimum.value;
+      if (!best || adjustedProfit > best.adjustedProfit) {
+        const laycanEvaluation = laycanAt(optimum.outputs);
+        best = {
+          ...optimum.outputs,
+          adjustedProfit,
+          waitingCost: waitingCostAt(optimum.outputs),
+          breakEvenRate,
+          laycanEvaluation,
+          requiredBallastSpeed,
+          laycanMissProbability: missProbabilityAt(optimum.outputs),
+          laycanRiskCost: riskCostAt(optimum.outputs),
+          laycanStrategy: getLaycanStrategy({
+            ballastSpeed: optimum.speedKnots.ballast,
+            economicalSpeed: vessel.data.speed.ballast,
+            requiredSpeed: requiredBallastSpeed,
+            warrantedWaitingDays,
+          }),
+          vessel,
+          cargo: { ...cargo, data: { ...cargo.data, freightRate } },
+          departureDate,
+          ballastNm,
+          ladenNm,
+          cargoQty,
+          intake,
+          cargoFeasibility: cargoCheck,
+          speedBlend: optimum.speedBlend,
+          speedKnots: optimum.speedKnots,
+          distanceSource: { ballast: ballastLeg.source, laden: ladenLeg.source },
+          // Ports of a routed chain only describe the variant that sails it.
+          ballastVia: routeLegs.ballast.measured ? ballastLeg.via : [],
+          ladenVia: routeLegs.laden.measured ? ladenLeg.via : [],
+          ballastRouteVariant: routeLegs.ballast,
+          ladenRouteVariant: routeLegs.laden,
+          openPort: cargo.dischargePort,
+          openDate: new Date(
+            departureDate.getTime() +
+              (optimum.outputs.totalDuration +
+                (laycanEvaluation.status === "early" ? laycanEvaluation.waitingDays : 0)) *
+                86_400_000,
+          ),
+          inputs: optimum.inputs,
+        };
+      }
+    }
+
+    if (best) return { ...best, breakEvenRate };
+    return capacityFailure !== null
+      ? { reason: "capacity", detail: capacityFailure }
+      : {
+          reason: "quantity_range",
+          detail: `No searched quantity within ${formatNumber(qtyMin)}-${formatNumber(qtyMax)} MT.`,
+        };
+  };
+
+  // Every load/discharge combination the cargo allows, base pair first, ranked on TCE:
+  // voyage profit would favour the longest voyage. The base pair keeps ties. On same TCE
+  // basis an alternative earns the owner the base pair's TCE by definition, so the base
+  // pair stands and the alternatives are the charterer's choice.
+  const computeBestPair = (
+    vessel: VesselOption,
+    cargo: CargoOption,
+    report: PairReport,
+  ): PortPairResult | null => {
+    const { rule } = cargo.portOptions;
+    const combinations = getPortCombinations(cargo.portOptions);
+    const baseResult = computePairForPorts(vessel, cargo, report);
+    const base = "reason" in baseResult ? null : baseResult;
+    let best = base;
+    let combinationsEvaluated = 1;
+    const alternatives = rule.kind === "same_tce" ? [] : combinations.slice(1);
+    for (const combination of alternatives) {
+      const optionRate =
+        rule.kind === "differential"
+          ? cargo.data.freightRate + rule.usdPerMt
+          : cargo.data.freightRate;
+      const pair = computePairForPorts(
+        vessel,
+        withPortOption(cargo, combination.loadPort, combination.dischargePort, optionRate),
+        report,
+      );
+      combinationsEvaluated += 1;
+      if ("reason" in pair) continue;
+      if (!best || pair.tce > best.tce + 1e-6) best = pair;
+    }
+    if (!best) {
+      if ("reason" in baseResult) {
+        report.pairRejections.push({
+          vesselName: vessel.name,
+          cargoName: cargo.name,
+          ...baseResult,
+        });
+      }
+      return null;
+    }
+    const portOption: PortOptionChoice = {
+      loadPort: best.cargo.loadPort,
+      dischargePort: best.cargo.dischargePort,
+      isBase: best === base,
+      rule,
+      freightRate: best.cargo.data.freightRate,
+      combinationsEvaluated,
+    };
+    return { ...best, portOption };
+  };
+
+  return { computePairForPorts, computeBestPair };
+};
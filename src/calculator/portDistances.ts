@@ -1,3 +1,5 @@
+import { findRoute } from "./routing";
+
 export const defaultDistanceNm = 3000;
 
 export const normalizePortKey = (value: string) =>
@@ -115,11 +117,122 @@ export const parseDistanceCsv = (csvText: string) => {
   };
 };
 
-export const getDistance = (
+// Where a leg distance came from: a table row, a chain of table rows, a great-circle
+// estimate, or `defaultDistanceNm`.
+export type DistanceSource = "table" | "graph" | "estimate" | "default";
+
+export type PortCoordinates = Record<string, { lat: number; lon: number }>;
+
+export type DistanceEstimator = {
+  coordinates: PortCoordinates;
+  // Sea distance over great-circle distance.
+  detourFactor: number;
+  calibration: {
+    // Table pairs with both ports located.
+    pairCount: number;
+    meanAbsErrorPct: number;
+    maxAbsErrorPct: number;
+  };
+};
+
+export type LegDistance = {
+  distanceNm: number;
+  source: DistanceSource;
+  // Intermediate ports of a graph route.
+  via: string[];
+};
+
+// Used when no table pair has coordinates at both ends.
+export const defaultDetourFactor = 1.2;
+
+const earthRadiusNm = 3440.065;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const greatCircleNm = (
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * earthRadiusNm * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// The detour factor is the median table/great-circle ratio over located table pairs
+// (the median keeps canal-versus-cape outliers from dragging it); the error is what
+// that factor would have got wrong on the same pairs.
+export const calibrateDistanceEstimator = (
+  distanceMap: Record<string, Record<string, number>>,
+  coordinates: PortCoordinates,
+): DistanceEstimator => {
+  const pairs: Array<{ tableNm: number; greatCircle: number }> = [];
+  const located = Object.keys(coordinates);
+  located.forEach((from, index) => {
+    for (const to of located.slice(index + 1)) {
+      const tableNm = distanceMap[from]?.[to];
+      if (!Number.isFinite(tableNm) || tableNm <= 0) continue;
+      const greatCircle = greatCircleNm(coordinates[from], coordinates[to]);
+      if (greatCircle > 0) pairs.push({ tableNm, greatCircle });
+    }
+  });
+  if (pairs.length === 0) {
+    return {
+      coordinates,
+      detourFactor: defaultDetourFactor,
+      calibration: { pairCount: 0, meanAbsErrorPct: 0, maxAbsErrorPct: 0 },
+    };
+  }
+  const ratios = pairs.map((pair) => pair.tableNm / pair.greatCircle).sort((a, b) => a - b);
+  const middle = Math.floor(ratios.length / 2);
+  const detourFactor =
+    ratios.length % 2 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+  const errorsPct = pairs.map(
+    (pair) => (Math.abs(pair.greatCircle * detourFactor - pair.tableNm) / pair.tableNm) * 100,
+  );
+  return {
+    coordinates,
+    detourFactor,
+    calibration: {
+      pairCount: pairs.length,
+      meanAbsErrorPct: errorsPct.reduce((sum, value) => sum + value, 0) / errorsPct.length,
+      maxAbsErrorPct: Math.max(...errorsPct),
+    },
+  };
+};
+
+// Table row, else a chain of table rows, else a great-circle estimate when both ports
+// are located, else `defaultDistanceNm`.
+export const getLegDistance = (
   distanceMap: Record<string, Record<string, number>>,
   from: string,
   to: string,
-) => {
-  if (from === to) return 0;
-  return distanceMap[from]?.[to] ?? defaultDistanceNm;
+  estimator?: DistanceEstimator,
+): LegDistance => {
+  const route = findRoute(distanceMap, from, to);
+  if (route.source === "direct" || route.source === "same_port") {
+    return { distanceNm: route.distanceNm, source: "table", via: [] };
+  }
+  if (route.source === "routed") {
+    return { distanceNm: route.distanceNm, source: "graph", via: route.via };
+  }
+  const fromPoint = estimator?.coordinates[from];
+  const toPoint = estimator?.coordinates[to];
+  if (estimator && fromPoint && toPoint) {
+    return {
+      distanceNm: greatCircleNm(fromPoint, toPoint) * estimator.detourFactor,
+      source: "estimate",
+      via: [],
+    };
+  }
+  return { distanceNm: defaultDistanceNm, source: "default", via: [] };
 };
+
+export const getDistance = (
+  distanceMap: Record<string, Record<string, number>>,
+  from: string,
+  to: string,
+  estimator?: DistanceEstimator,
+) => getLegDistance(distanceMap, from, to, estimator).distanceNm;
@@ -0,0 +1,156 @@
+import { normalizePortKey, resolvePortName, simplifyPortLabel } from "./portDistances";
+import type { ZoneSeason } from "./portRestrictions";
+import type { LoadLineZone } from "./weight";
+
+export type PortMasterEntry = {
+  // Spelling used in port_distances.csv.
+  name: string;
+  country: string;
+  unlocode: string;
+  lat: number | null;
+  lon: number | null;
+  aliases: string[];
+  timeZone: string;
+  // Maximum sailing draft, metres; null where not recorded.
+  maxDraftM: number | null;
+  // Load-line zone, summer where not recorded, and the seasons that override it.
+  loadLineZone: LoadLineZone;
+  zoneSeasons: ZoneSeason[];
+  // Sea region for route variants; empty where not recorded.
+  region: string;
+};
+
+// How a free-text port was matched: UN/LOCODE, master name, master alias, the distance
+// table's token heuristics, or not at all.
+export type PortMatchConfidence = "locode" | "exact" | "alias" | "heuristic" | "none";
+
+export type PortMatch = {
+  input: string;
+  // Distance-table name; empty when nothing matched.
+  port: string;
+  entry: PortMasterEntry | null;
+  confidence: PortMatchConfidence;
+  // The code, name or alias that matched.
+  matchedOn: string | null;
+};
+
+const locodePattern = /^[A-Z]{2}[A-Z2-9]{3}$/;
+
+// "CNTAO" and "CN TAO" both read as a code; only upper-case tokens the master lists count,
+// so words such as "China" or "CHINA" are not taken for one.
+const findLocodes = (value: string, master: PortMasterEntry[]) => {
+  const known = new Set(master.map((entry) => entry.unlocode));
+  const tokens = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const isCode = (token: string) => locodePattern.test(token) && known.has(token);
+  const codes = tokens.filter(isCode);
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    if (token.length === 2 && next?.length === 3 && isCode(token + next)) {
+      codes.push(token + next);
+    }
+  });
+  return codes;
+};
+
+// Labels tried against names and aliases, most literal first: "Qingdao or other ports in
+// the Far East" is read as Qingdao rather than left to the token heuristics.
+const getCandidateLabels = (value: string) => {
+  const simplified = simplifyPortLabel(value);
+  const firstOption = simplified.split(/\s+(?:or|and)\s+|\//i)[0] ?? simplified;
+  return Array.from(new Set([value, simplified, firstOption].map(normalizePortKey))).filter(
+    Boolean,
+  );
+};
+
+// Master codes, names and aliases first; anything else goes through `resolvePortName`,
+// whose answer is only as good as its token overlap.
+export const resolvePort = (
+  value: string,
+  master: PortMasterEntry[],
+  ports: string[],
+): PortMatch => {
+  const input = value.trim();
+  const none: PortMatch = { input, port: "", entry: null, confidence: "none", matchedOn: null };
+  if (!input) return none;
+
+  for (const code of findLocodes(input, master)) {
+    const entry = master.find((item) => item.unlocode === code);
+    if (entry) return { input, port: entry.name, entry, confidence: "locode", matchedOn: code };
+  }
+
+  for (const label of getCandidateLabels(input)) {
+    const byName = master.find((item) => normalizePortKey(item.name) === label);
+    if (byName) {
+      return { input, port: byName.name, entry: byName, confidence: "exact", matchedOn: byName.name };
+    }
+    for (const entry of master) {
+      const alias = entry.aliases.find((item) => normalizePortKey(item) === label);
+      if (alias) return { input, port: entry.name, entry, confidence: "alias", matchedOn: alias };
+    }
+  }
+
+  const portSet = new Set(ports);
+  const resolved = resolvePortName(input, ports);
+  if (!portSet.has(resolved)) return none;
+  const entry = master.find((item) => item.name === resolved) ?? null;
+  return {
+    input,
+    port: resolved,
+    entry,
+    // A verbatim table name is as good as a master name.
+    confidence: normalizePortKey(resolved) === normalizePortKey(input) ? "exact" : "heuristic",
+    matchedOn: resolved,
+  };
+};
+
+export type PortSearchResult = {
+  port: string;
+  entry: PortMasterEntry | null;
+  confidence: Exclude<PortMatchConfidence, "none">;
+  matchedOn: string;
+};
+
+const confidenceRank: Record<PortSearchResult["confidence"], number> = {
+  locode: 0,
+  exact: 1,
+  alias: 2,
+  heuristic: 3,
+};
+
+// Master entries whose code, name or alias starts with the query, then distance-table
+// names containing it.
+export const searchPorts = (
+  query: string,
+  master: PortMasterEntry[],
+  ports: string[],
+  limit = 20,
+): PortSearchResult[] => {
+  const key = normalizePortKey(query);
+  if (!key) return [];
+  const results: PortSearchResult[] = [];
+  const seen = new Set<string>();
+  for (const entry of master) {
+    const aliasHit = entry.aliases.find((alias) => normalizePortKey(alias).startsWith(key));
+    const hit: Pick<PortSearchResult, "confidence" | "matchedOn"> | null =
+      entry.unlocode && entry.unlocode.startsWith(key)
+        ? { confidence: "locode", matchedOn: entry.unlocode }
+        : normalizePortKey(entry.name).startsWith(key)
+          ? { confidence: "exact", matchedOn: entry.name }
+          : aliasHit
+            ? { confidence: "alias", matchedOn: aliasHit }
+            : null;
+    if (!hit) continue;
+    results.push({ port: entry.name, entry, ...hit });
+    seen.add(entry.name);
+  }
+  for (const port of ports) {
+    if (seen.has(port) || !normalizePortKey(port).includes(key)) continue;
+    results.push({ port, entry: null, confidence: "heuristic", matchedOn: port });
+  }
+  return results
+    .sort(
+      (a, b) =>
+        confidenceRank[a.confidence] - confidenceRank[b.confidence] || a.port.localeCompare(b.port),
+    )
+    .slice(0, limit);
+};
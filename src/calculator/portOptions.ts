@@ -0,0 +1,113 @@
+import type { CargoOption } from "./businessData";
+import type { PortMasterEntry } from "./portMaster";
+
+// Freight for a port other than the base: the base rate, the base rate adjusted so the
+// owner earns the base port's TCE ("same TCE basis"), or the base rate plus a fixed
+// differential.
+export type PortOptionRule =
+  | { kind: "same_rate" }
+  | { kind: "same_tce" }
+  | { kind: "differential"; usdPerMt: number };
+
+export type PortOptions = {
+  // Base port first, then the alternatives in master-file order.
+  load: string[];
+  discharge: string[];
+  rule: PortOptionRule;
+};
+
+const adjectiveCountries: Record<string, string[]> = {
+  AUSTRALIAN: ["Australia"],
+  BRAZILIAN: ["Brazil"],
+  CHINESE: ["China"],
+  INDIAN: ["India"],
+  JAPANESE: ["Japan"],
+  KOREAN: ["South Korea"],
+  MALAYSIAN: ["Malaysia"],
+};
+
+const regionCountries: Array<[string, string[]]> = [
+  ["far\\s+east", ["China", "South Korea", "Japan", "Taiwan"]],
+  ["(?:south\\s*east|se)\\s+asia", ["Malaysia", "Thailand", "Indonesia", "Vietnam"]],
+];
+
+// The region only widens the option when it is what the option names: "other ports in the
+// Far East" or "other Far East ports", not a Far East port named elsewhere in the text.
+const regionOptionPattern = (region: string) =>
+  new RegExp(
+    `\\bother\\s+(?:ports?\\s+(?:in|within|of)\\s+(?:the\\s+)?${region}|${region}\\s+ports?)\\b`,
+    "i",
+  );
+
+// Countries a port text opens up: "other Chinese ports allowed" or "other ports in the
+// Far East". Empty when the text names no alternatives.
+const getOptionCountries = (text: string) => {
+  if (!/\bother\b[^.]*\bports?\b/i.test(text)) return [];
+  const countries = new Set<string>();
+  for (const match of text.matchAll(/\bother\s+([A-Za-z]+)\s+ports?\b/gi)) {
+    adjectiveCountries[match[1].toUpperCase()]?.forEach((country) => countries.add(country));
+  }
+  for (const [region, names] of regionCountries) {
+    if (regionOptionPattern(region).test(text)) names.forEach((country) => countries.add(country));
+  }
+  return Array.from(countries);
+};
+
+// Alternatives named in the free-text port field, limited to ports in the master file.
+export const parseAlternativePorts = (
+  text: string,
+  basePort: string,
+  master: PortMasterEntry[],
+) => {
+  const countries = getOptionCountries(text);
+  return master
+    .filter((entry) => entry.name !== basePort && countries.includes(entry.country))
+    .map((entry) => entry.name);
+};
+
+// "same_tce", "same_rate" (or "flat"), or a signed USD/MT differential such as "+1.25".
+export const parsePortOptionRule = (text: string): PortOptionRule | null => {
+  const value = text.trim();
+  if (!value) return null;
+  if (/same[\s_-]*tce|tce\s+basis/i.test(value)) return { kind: "same_tce" };
+  if (/same[\s_-]*rate|\bflat\b/i.test(value)) return { kind: "same_rate" };
+  const differential = Number.parseFloat(value.replace(/[^0-9.+-]/g, ""));
+  return Number.isFinite(differential) ? { kind: "differential", usdPerMt: differential } : null;
+};
+
+// Rule implied by a free-text port field: an option quoted "on same TCE basis" or with a
+// "freight base" port is rebased to the base port's TCE; otherwise the rate stands.
+export const inferPortOptionRule = (text: string): PortOptionRule =>
+  /same\s+tce|freight\s+base/i.test(text) ? { kind: "same_tce" } : { kind: "same_rate" };
+
+export const hasPortAlternatives = (options: PortOptions) =>
+  options.load.length > 1 || options.discharge.length > 1;
+
+// Every (load, discharge) combination, base pair first.
+export const getPortCombinations = (options: PortOptions) =>
+  options.load.flatMap((loadPort, loadIndex) =>
+    options.discharge.map((dischargePort, dischargeIndex) => ({
+      loadPort,
+      dischargePort,
+      isBase: loadIndex === 0 && dischargeIndex === 0,
+    })),
+  );
+
+// The cargo as if fixed for one port combination; load-port draft and zone follow the
+// load port.
+export const withPortOption = (
+  cargo: CargoOption,
+  loadPort: string,
+  dischargePort: string,
+  freightRate: number,
+): CargoOption => {
+  const limits = cargo.loadPortLimits[loadPort];
+  return {
+    ...cargo,
+    loadPort,
+    dischargePort,
+    loadPortMaxDraftM: limits ? limits.maxDraftM : cargo.loadPortMaxDraftM,
+    loadLineZone: limits ? limits.zone : cargo.loadLineZone,
+    data: { ...cargo.data, freightRate },
+  };
+};
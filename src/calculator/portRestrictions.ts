@@ -0,0 +1,54 @@
+import type { PortMasterEntry } from "./portMaster";
+import type { LoadLineZone } from "./weight";
+
+// A seasonal period in which the port falls in another load-line zone; month and day are
+// 1-based and inclusive, and a period may wrap the year end.
+export type ZoneSeason = { zone: LoadLineZone; from: [number, number]; to: [number, number] };
+
+export type LoadPortRestriction = {
+  // Maximum sailing draft, metres; null where the port (or anchorage) does not limit a Capesize.
+  maxDraftM: number | null;
+  zone: LoadLineZone;
+  seasons?: ZoneSeason[];
+};
+
+export const isLoadLineZone = (value: string): value is LoadLineZone =>
+  value === "tropical" || value === "summer" || value === "winter";
+
+// Seasons as written in port_master.csv, e.g. "tropical 04-01/11-30; winter 10-16/04-15"
+// (zone, then first and last day as MM-DD); null when any entry is unreadable.
+export const parseZoneSeasons = (text: string): ZoneSeason[] | null => {
+  const seasons: ZoneSeason[] = [];
+  for (const item of text.split(";").map((part) => part.trim()).filter(Boolean)) {
+    const match = item.match(/^([a-z]+)\s+(\d{1,2})-(\d{1,2})\s*\/\s*(\d{1,2})-(\d{1,2})$/i);
+    const zone = match?.[1].toLowerCase() ?? "";
+    if (!match || !isLoadLineZone(zone)) return null;
+    const [fromMonth, fromDay, toMonth, toDay] = match.slice(2).map(Number);
+    const validDay = (month: number, day: number) =>
+      month >= 1 && month <= 12 && day >= 1 && day <= 31;
+    if (!validDay(fromMonth, fromDay) || !validDay(toMonth, toDay)) return null;
+    seasons.push({ zone, from: [fromMonth, fromDay], to: [toMonth, toDay] });
+  }
+  return seasons;
+};
+
+// Ports without a master row are treated as summer zone with no draft limit.
+export const getLoadPortRestriction = (
+  entry: PortMasterEntry | null | undefined,
+): LoadPortRestriction => ({
+  maxDraftM: entry?.maxDraftM ?? null,
+  zone: entry?.loadLineZone ?? "summer",
+  seasons: entry?.zoneSeasons ?? [],
+});
+
+// Zone in force on `date` (UTC calendar day).
+export const getLoadLineZone = (restriction: LoadPortRestriction, date: Date | null) => {
+  if (!date) return restriction.zone;
+  const day = (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+  const season = restriction.seasons?.find(({ from, to }) => {
+    const start = from[0] * 100 + from[1];
+    const end = to[0] * 100 + to[1];
+    return start <= end ? day >= start && day <= end : day >= start || day <= end;
+  });
+  return season?.zone ?? restriction.zone;
+};
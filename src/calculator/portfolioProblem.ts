@@ -0,0 +1,65 @@
+import type { CargoOption, VesselOption } from "./businessData";
+import type { PortPairResult } from "./pairEvaluator";
+import type { PortfolioConstraint, PortfolioProblem } from "./portfolioSolver";
+
+// Side constraints on the single-voyage portfolio. Committed cargos are the first
+// `committedCount` cargos; exposure caps are USD of gross freight per customer.
+export type PortfolioLimits = {
+  committedCount: number;
+  vesselPick: number;
+  maxMarketCharters: number | null;
+  customerExposureCaps: Record<string, number>;
+};
+
+// Vessels a recommendation may use when the request does not say.
+export const defaultPortfolioVesselCount = 4;
+
+const formatMoney = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+// The assignment problem over priced pairs: adjusted profit per pair, committed cargos
+// covered and the limits as capacities.
+export const buildPortfolioProblem = (
+  vessels: VesselOption[],
+  cargos: CargoOption[],
+  pairResults: Array<Array<PortPairResult | null>>,
+  limits: PortfolioLimits,
+): PortfolioProblem => {
+  const constraints: PortfolioConstraint[] = [
+    {
+      kind: "cover",
+      name: "committed cargos covered",
+      cargoIdxs: Array.from({ length: limits.committedCount }, (_, cargoIdx) => cargoIdx),
+    },
+    {
+      kind: "capacity",
+      name: `at most ${limits.vesselPick} vessels`,
+      limit: limits.vesselPick,
+      weight: () => 1,
+    },
+  ];
+  if (limits.maxMarketCharters !== null) {
+    constraints.push({
+      kind: "capacity",
+      name: `at most ${limits.maxMarketCharters} market charters`,
+      limit: limits.maxMarketCharters,
+      weight: (vesselIdx) => (vessels[vesselIdx].source === "market" ? 1 : 0),
+    });
+  }
+  for (const [customer, limit] of Object.entries(limits.customerExposureCaps)) {
+    const key = customer.trim().toLowerCase();
+    constraints.push({
+      kind: "capacity",
+      name: `${customer} gross freight <= ${formatMoney(limit)}`,
+      limit,
+      weight: (vesselIdx, cargoIdx) =>
+        cargos[cargoIdx].customer.trim().toLowerCase() === key
+          ? pairResults[vesselIdx][cargoIdx]?.freightGross ?? 0
+          : 0,
+    });
+  }
+  return {
+    objective: pairResults.map((row) => row.map((pair) => pair?.adjustedProfit ?? null)),
+    constraints,
+  };
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  rankPortfolios,
+  solvePortfolio,
+  type PortfolioConstraint,
+  type PortfolioProblem,
+} from "./portfolioSolver";
+
+// Deterministic pseudo-random numbers in [0, 1).
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return state / 2_147_483_648;
+  };
+};
+
+const createProblem = (seed: number, vesselCount: number, cargoCount: number): PortfolioProblem => {
+  const random = createRandom(seed);
+  const objective = Array.from({ length: vesselCount }, () =>
+    Array.from({ length: cargoCount }, () =>
+      random() < 0.2 ? null : Math.round((random() - 0.3) * 1000),
+    ),
+  );
+  const weights = objective.map((row) => row.map(() => Math.round(random() * 10)));
+  const constraints: PortfolioConstraint[] = [
+    { kind: "cover", name: "committed", cargoIdxs: [0, 1] },
+    {
+      kind: "capacity",
+      name: "weight",
+      limit: 14,
+      weight: (vesselIdx, cargoIdx) => weights[vesselIdx][cargoIdx],
+    },
+  ];
+  return { objective, constraints };
+};
+
+// Objectives of every assignment meeting the constraints, best first. Optional cargos are
+// only carried at a profit, as the solver carries them.
+const enumeratePortfolios = ({ objective, constraints }: PortfolioProblem) => {
+  const cargoCount = objective[0].length;
+  const required = new Set(
+    constraints.flatMap((constraint) => (constraint.kind === "cover" ? constraint.cargoIdxs : [])),
+  );
+  const usedVessels = new Set<number>();
+  const chosen: Array<{ vesselIdx: number; cargoIdx: number }> = [];
+  const values: number[] = [];
+  const visit = (cargoIdx: number) => {
+    if (cargoIdx === cargoCount) {
+      const feasible = constraints.every((constraint) => {
+        if (constraint.kind === "cover") {
+          return constraint.cargoIdxs.every((idx) => chosen.some((pair) => pair.cargoIdx === idx));
+        }
+        const load = chosen.reduce(
+          (sum, pair) => sum + constraint.weight(pair.vesselIdx, pair.cargoIdx),
+          0,
+        );
+        return load <= constraint.limit;
+      });
+      const value = chosen.reduce(
+        (sum, pair) => sum + (objective[pair.vesselIdx][pair.cargoIdx] as number),
+        0,
+      );
+      if (feasible) values.push(value);
+      return;
+    }
+    visit(cargoIdx + 1);
+    objective.forEach((row, vesselIdx) => {
+      const value = row[cargoIdx];
+      if (value === null || usedVessels.has(vesselIdx)) return;
+      if (!required.has(cargoIdx) && value <= 0) return;
+      usedVessels.add(vesselIdx);
+      chosen.push({ vesselIdx, cargoIdx });
+      visit(cargoIdx + 1);
+      chosen.pop();
+      usedVessels.delete(vesselIdx);
+    });
+  };
+  visit(0);
+  return values.sort((a, b) => b - a);
+};
+
+describe("solvePortfolio", () => {
+  it("matches brute force under cover and capacity constraints", () => {
+    for (let seed = 1; seed <= 40; seed += 1) {
+      const problem = createProblem(seed, 4, 5);
+      const [expected] = enumeratePortfolios(problem);
+      const solution = solvePortfolio(problem);
+      if (expected === undefined) {
+        expect(solution.status).toBe("infeasible");
+        continue;
+      }
+      expect(solution.status).toBe("optimal");
+      expect(solution.objective).toBe(expected);
+      const value = solution.pairs.reduce(
+        (sum, pair) => sum + (problem.objective[pair.vesselIdx][pair.cargoIdx] as number),
+        0,
+      );
+      expect(value).toBe(expected);
+    }
+  });
+
+  it("carries a covered cargo at a loss", () => {
+    const solution = solvePortfolio({
+      objective: [[-50, 100]],
+      constraints: [{ kind: "cover", name: "committed", cargoIdxs: [0] }],
+    });
+    expect(solution.pairs).toEqual([{ vesselIdx: 0, cargoIdx: 0 }]);
+    expect(solution.objective).toBe(-50);
+  });
+
+  it("reports a node-limited search as feasible with a gap", () => {
+    const solution = solvePortfolio(createProblem(7, 4, 5), 3);
+    expect(["feasible", "unknown"]).toContain(solution.status);
+    expect(solution.bound).toBeGreaterThanOrEqual(solution.objective);
+  });
+});
+
+describe("rankPortfolios", () => {
+  it("ranks the same portfolios as brute force, best first", () => {
+    for (let seed = 1; seed <= 40; seed += 1) {
+      const problem = createProblem(seed, 4, 5);
+      const expected = enumeratePortfolios(problem).slice(0, 6);
+      const { best, ranked } = rankPortfolios(problem, 6);
+      expect(ranked.map((portfolio) => portfolio.objective)).toEqual(expected);
+      const keys = ranked.map((portfolio) =>
+        portfolio.pairs.map((pair) => `${pair.vesselIdx}:${pair.cargoIdx}`).join(","),
+      );
+      expect(new Set(keys).size).toBe(keys.length);
+      if (ranked.length) expect(ranked[0].pairs).toEqual(best.pairs);
+    }
+  });
+
+  it("keeps covered cargos in every ranked portfolio", () => {
+    const problem = createProblem(3, 4, 5);
+    const { ranked } = rankPortfolios(problem, 8);
+    for (const portfolio of ranked) {
+      const carried = portfolio.pairs.map((pair) => pair.cargoIdx);
+      expect(carried).toEqual(expect.arrayContaining([0, 1]));
+    }
+  });
+});
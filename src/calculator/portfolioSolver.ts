@@ -0,0 +1,270 @@
+// At most one cargo per vessel and one vessel per cargo, under side constraints.
+export type PortfolioConstraint =
+  // Every listed cargo is carried.
+  | { kind: "cover"; name: string; cargoIdxs: number[] }
+  // Summed weight of the chosen pairs stays within `limit`. Weights must be non-negative.
+  | {
+      kind: "capacity";
+      name: string;
+      limit: number;
+      weight: (vesselIdx: number, cargoIdx: number) => number;
+    };
+
+export type PortfolioProblem = {
+  // Objective per (vessel, cargo) pair; null where the pair is infeasible.
+  objective: Array<Array<number | null>>;
+  constraints: PortfolioConstraint[];
+};
+
+// "feasible" and "unknown" hit the node limit with and without an incumbent.
+export type PortfolioSolveStatus = "optimal" | "feasible" | "infeasible" | "unknown";
+
+export type PortfolioSolution = {
+  status: PortfolioSolveStatus;
+  pairs: Array<{ vesselIdx: number; cargoIdx: number }>;
+  objective: number;
+  // Proven upper bound on the objective; equal to it when optimal.
+  bound: number;
+  // (bound - objective) relative to the bound.
+  gap: number;
+  nodes: number;
+};
+
+export const defaultMaxSolverNodes = 500_000;
+
+// Depth-first branch and bound over cargos, covered cargos first.
+export const solvePortfolio = (
+  problem: PortfolioProblem,
+  maxNodes = defaultMaxSolverNodes,
+): PortfolioSolution => {
+  const { objective, constraints } = problem;
+  const vesselCount = objective.length;
+  const cargoCount = objective[0]?.length ?? 0;
+  const required = new Set(
+    constraints.flatMap((constraint) => (constraint.kind === "cover" ? constraint.cargoIdxs : [])),
+  );
+  const capacities = constraints.filter(
+    (constraint): constraint is Extract<PortfolioConstraint, { kind: "capacity" }> =>
+      constraint.kind === "capacity",
+  );
+
+  // Optional cargos only enter with a positive objective; weights are non-negative.
+  const candidates = Array.from({ length: cargoCount }, (_, cargoIdx) =>
+    Array.from({ length: vesselCount }, (_, vesselIdx) => vesselIdx)
+      .filter((vesselIdx) => {
+        const value = objective[vesselIdx][cargoIdx];
+        return (
+          value !== null && Number.isFinite(value) && (required.has(cargoIdx) || value > 0)
+        );
+      })
+      .sort((a, b) => (objective[b][cargoIdx] as number) - (objective[a][cargoIdx] as number)),
+  );
+  const order = Array.from({ length: cargoCount }, (_, cargoIdx) => cargoIdx).sort(
+    (a, b) =>
+      Number(required.has(b)) - Number(required.has(a)) ||
+      (objective[candidates[b][0]]?.[b] ?? 0) - (objective[candidates[a][0]]?.[a] ?? 0),
+  );
+
+  // Smallest candidate weight per capacity, capping how many more cargos fit.
+  const minWeights = capacities.map((constraint) =>
+    Math.min(
+      ...candidates.flatMap((vesselIdxs, cargoIdx) =>
+        vesselIdxs.map((vesselIdx) => constraint.weight(vesselIdx, cargoIdx)),
+      ),
+    ),
+  );
+
+  const usedVessels = new Array<boolean>(vesselCount).fill(false);
+  const load = capacities.map(() => 0);
+  const chosen = new Array<number>(cargoCount).fill(-1);
+  let incumbent: { value: number; chosen: number[] } | null = null;
+  let nodes = 0;
+  let aborted = false;
+
+  // Best free vessel per remaining cargo, ignoring conflicts, within the tightest capacity;
+  // -Infinity when a covered cargo cannot be carried.
+  const optimistic = (depth: number) => {
+    let picks = Number.POSITIVE_INFINITY;
+    minWeights.forEach((weight, index) => {
+      if (weight <= 0) return;
+      const room = capacities[index].limit - load[index];
+      picks = Math.min(picks, Math.floor(room / weight + 1e-9));
+    });
+    let total = 0;
+    const optional: number[] = [];
+    for (let index = depth; index < order.length; index += 1) {
+      const cargoIdx = order[index];
+      const vesselIdx = candidates[cargoIdx].find((candidate) => !usedVessels[candidate]);
+      if (vesselIdx === undefined) {
+        if (required.has(cargoIdx)) return Number.NEGATIVE_INFINITY;
+        continue;
+      }
+      const value = objective[vesselIdx][cargoIdx] as number;
+      if (required.has(cargoIdx)) {
+        total += value;
+        picks -= 1;
+      } else {
+        optional.push(value);
+      }
+    }
+    if (picks < 0) return Number.NEGATIVE_INFINITY;
+    optional.sort((a, b) => b - a);
+    return optional.slice(0, picks).reduce((sum, value) => sum + value, total);
+  };
+
+  const search = (depth: number, value: number) => {
+    if (aborted) return;
+    nodes += 1;
+    if (nodes > maxNodes) {
+      aborted = true;
+      return;
+    }
+    if (depth === order.length) {
+      if (!incumbent || value > incumbent.value) incumbent = { value, chosen: [...chosen] };
+      return;
+    }
+    const bound = value + optimistic(depth);
+    if (bound === Number.NEGATIVE_INFINITY || (incumbent && bound <= incumbent.value)) return;
+
+    const cargoIdx = order[depth];
+    for (const vesselIdx of candidates[cargoIdx]) {
+      if (usedVessels[vesselIdx]) continue;
+      const weights = capacities.map((constraint) => constraint.weight(vesselIdx, cargoIdx));
+      if (weights.some((weight, index) => load[index] + weight > capacities[index].limit + 1e-9)) {
+        continue;
+      }
+      usedVessels[vesselIdx] = true;
+      weights.forEach((weight, index) => (load[index] += weight));
+      chosen[cargoIdx] = vesselIdx;
+      search(depth + 1, value + (objective[vesselIdx][cargoIdx] as number));
+      chosen[cargoIdx] = -1;
+      weights.forEach((weight, index) => (load[index] -= weight));
+      usedVessels[vesselIdx] = false;
+    }
+    if (!required.has(cargoIdx)) search(depth + 1, value);
+  };
+
+  const rootBound = optimistic(0);
+  search(0, 0);
+
+  const result = incumbent as { value: number; chosen: number[] } | null;
+  if (!result) {
+    return {
+      status: aborted ? "unknown" : "infeasible",
+      pairs: [],
+      objective: 0,
+      bound: rootBound,
+      gap: Number.POSITIVE_INFINITY,
+      nodes,
+    };
+  }
+  // An interrupted search only keeps the root relaxation as its bound.
+  const bound = aborted ? Math.max(rootBound, result.value) : result.value;
+  return {
+    status: aborted ? "feasible" : "optimal",
+    pairs: result.chosen.flatMap((vesselIdx, cargoIdx) =>
+      vesselIdx < 0 ? [] : [{ vesselIdx, cargoIdx }],
+    ),
+    objective: result.value,
+    bound,
+    gap: (bound - result.value) / Math.max(Math.abs(bound), 1),
+    nodes,
+  };
+};
+
+export type RankedPortfolio = {
+  pairs: Array<{ vesselIdx: number; cargoIdx: number }>;
+  objective: number;
+  // "feasible" when the node limit cut the search that found this portfolio short.
+  status: "optimal" | "feasible";
+};
+
+// A cargo's choice in a ranked portfolio: a vessel index, or -1 when left uncarried.
+type CargoChoice = number;
+
+type RankingNode = {
+  fixed: Map<number, CargoChoice>;
+  excluded: Array<[number, CargoChoice]>;
+  solution: PortfolioSolution;
+};
+
+// The `k` best distinct portfolios under the problem's constraints, best first, by
+// Lawler-Murty partitioning over cargos. Optional pairs that solvePortfolio would never
+// choose are dropped up front so every subproblem searches the same space; `best` is the
+// unpartitioned solve, whose pairs rank first.
+export const rankPortfolios = (
+  problem: PortfolioProblem,
+  k: number,
+  maxNodes = defaultMaxSolverNodes,
+): { best: PortfolioSolution; ranked: RankedPortfolio[] } => {
+  const required = new Set(
+    problem.constraints.flatMap((constraint) =>
+      constraint.kind === "cover" ? constraint.cargoIdxs : [],
+    ),
+  );
+  const objective = problem.objective.map((row) =>
+    row.map((value, cargoIdx) =>
+      value !== null && Number.isFinite(value) && (required.has(cargoIdx) || value > 0)
+        ? value
+        : null,
+    ),
+  );
+  const cargoCount = objective[0]?.length ?? 0;
+
+  const solve = (fixed: Map<number, CargoChoice>, excluded: Array<[number, CargoChoice]>) => {
+    const restricted = objective.map((row) => [...row]);
+    const covered: number[] = [];
+    for (const [cargoIdx, choice] of excluded) {
+      if (choice < 0) covered.push(cargoIdx);
+      else restricted[choice][cargoIdx] = null;
+    }
+    fixed.forEach((choice, cargoIdx) => {
+      restricted.forEach((row, vesselIdx) => {
+        if (vesselIdx !== choice) row[cargoIdx] = null;
+      });
+      if (choice >= 0) covered.push(cargoIdx);
+    });
+    return solvePortfolio(
+      {
+        objective: restricted,
+        constraints: covered.length
+          ? [...problem.constraints, { kind: "cover", name: "ranking", cargoIdxs: covered }]
+          : problem.constraints,
+      },
+      maxNodes,
+    );
+  };
+  const isSolved = (solution: PortfolioSolution) =>
+    solution.status === "optimal" || solution.status === "feasible";
+
+  const best = solve(new Map(), []);
+  const ranked: RankedPortfolio[] = [];
+  const queue: RankingNode[] = isSolved(best)
+    ? [{ fixed: new Map(), excluded: [], solution: best }]
+    : [];
+  while (queue.length && ranked.length < k) {
+    queue.sort((a, b) => b.solution.objective - a.solution.objective);
+    const node = queue.shift() as RankingNode;
+    const { solution } = node;
+    ranked.push({
+      pairs: solution.pairs,
+      objective: solution.objective,
+      status: solution.status === "optimal" ? "optimal" : "feasible",
+    });
+    const choices = Array.from({ length: cargoCount }, () => -1);
+    for (const { vesselIdx, cargoIdx } of solution.pairs) choices[cargoIdx] = vesselIdx;
+    // Child c keeps the cargos before it as chosen and rules out cargo c's choice.
+    const fixed = new Map(node.fixed);
+    for (let cargoIdx = 0; cargoIdx < cargoCount; cargoIdx += 1) {
+      if (node.fixed.has(cargoIdx)) continue;
+      const excluded: Array<[number, CargoChoice]> = [
+        ...node.excluded,
+        [cargoIdx, choices[cargoIdx]],
+      ];
+      const child = solve(fixed, excluded);
+      if (isSolved(child)) queue.push({ fixed: new Map(fixed), excluded, solution: child });
+      fixed.set(cargoIdx, choices[cargoIdx]);
+    }
+  }
+  return { best, ranked };
+};
@@ -0,0 +1,196 @@
+import type { CargoOption, VesselOption } from "./businessData";
+import { calculateFreight } from "./freightCalculator";
+import { getWaitingCost } from "./laycan";
+import { getLaycanRiskCost, type LaycanRiskOptions } from "./laycanRisk";
+import type { PortPairResult } from "./pairEvaluator";
+import {
+  solvePortfolio,
+  type PortfolioProblem,
+  type PortfolioSolution,
+} from "./portfolioSolver";
+import { findFlipThreshold } from "./sensitivity";
+
+// Shifts from the recommendation's inputs: the same USD/MT on every IFO and MDO price
+// (stems included), extra port idle days on top of its port delay, and USD/day on market
+// vessels' hire.
+type PricingScenario = {
+  bunkerDelta: number;
+  portDelayDays: number;
+  marketHireDelta: number;
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+// Adjusted profit of a pair under `scenario` with its quantity, speeds and port option
+// held; a full re-optimisation could only do better, so flips come no later than reported.
+const repricePair = (
+  pair: PortPairResult,
+  scenario: PricingScenario,
+  laycanRisk: LaycanRiskOptions,
+) => {
+  const { inputs } = pair;
+  const shift = scenario.bunkerDelta;
+  const dailyHire =
+    inputs.vessel.dailyHire + (pair.vessel.source === "market" ? scenario.marketHireDelta : 0);
+  const outputs = calculateFreight({
+    ...inputs,
+    vessel: { ...inputs.vessel, dailyHire },
+    cargo: { ...inputs.cargo, portIdleDays: inputs.cargo.portIdleDays + scenario.portDelayDays },
+    costs: {
+      ...inputs.costs,
+      ifoPrice: inputs.costs.ifoPrice + shift,
+      mdoPrice: inputs.costs.mdoPrice + shift,
+    },
+    options: {
+      ...inputs.options,
+      bunkerStops: inputs.options.bunkerStops?.map((stop) => ({
+        ...stop,
+        ifoPrice: stop.ifoPrice + shift,
+        mdoPrice: stop.mdoPrice + shift,
+      })),
+    },
+  });
+  const waitingCost = pair.laycanEvaluation
+    ? getWaitingCost(pair.laycanEvaluation, dailyHire, inputs.vessel.portConsumption.idle, {
+        ifo: inputs.costs.ifoPrice + shift,
+        mdo: inputs.costs.mdoPrice + shift,
+      })
+    : 0;
+  const voyageProfit = outputs.profit - waitingCost;
+  return (
+    voyageProfit - getLaycanRiskCost(pair.laycanMissProbability, voyageProfit, laycanRisk)
+  );
+};
+
+// How far bunker prices, port delay and market hire can move before the recommended
+// portfolio changes, for knowledge/thresholds.json. Every scenario re-solves `problem`, the
+// recommendation's own constraints, over the repriced pairs.
+export const buildThresholdsJson = (params: {
+  recommended: PortfolioSolution;
+  vessels: VesselOption[];
+  cargos: CargoOption[];
+  pairResults: Array<Array<PortPairResult | null>>;
+  problem: PortfolioProblem;
+  bunkerPrices: { ifo: number; mdo: number };
+  portDelayDays: number;
+  laycanRisk: LaycanRiskOptions;
+}) => {
+  const { recommended, vessels, cargos, pairResults, problem, laycanRisk } = params;
+  const toCargoByVessel = (solution: PortfolioSolution) => {
+    const cargoByVessel = vessels.map(() => -1);
+    for (const { vesselIdx, cargoIdx } of solution.pairs) cargoByVessel[vesselIdx] = cargoIdx;
+    return cargoByVessel;
+  };
+  const baseAssignment = toCargoByVessel(recommended);
+  const noShift: PricingScenario = { bunkerDelta: 0, portDelayDays: 0, marketHireDelta: 0 };
+  const evaluate = (scenario: PricingScenario) => {
+    const solution = solvePortfolio({
+      ...problem,
+      objective: pairResults.map((row) =>
+        row.map((pair) => (pair ? repricePair(pair, scenario, laycanRisk) : null)),
+      ),
+    });
+    const cargoByVessel = toCargoByVessel(solution);
+    return { key: cargoByVessel.join(","), cargoByVessel, profit: solution.objective };
+  };
+  const cargoName = (cargoIdx: number) => (cargoIdx < 0 ? "nothing" : cargos[cargoIdx].name);
+  const describeAssignments = (cargoByVessel: number[]) =>
+    cargoByVessel.flatMap((cargoIdx, vesselIdx) =>
+      cargoIdx < 0 ? [] : [{ vessel: vessels[vesselIdx].name, cargo: cargos[cargoIdx].name }],
+    );
+  const describeChanges = (cargoByVessel: number[]) =>
+    cargoByVessel.flatMap((cargoIdx, vesselIdx) =>
+      cargoIdx === baseAssignment[vesselIdx]
+        ? []
+        : [
+            `${vessels[vesselIdx].name}: ${cargoName(baseAssignment[vesselIdx])} -> ${cargoName(cargoIdx)}`,
+          ],
+    );
+
+  const marketHires = vessels
+    .filter((vessel) => vessel.source === "market")
+    .map((vessel) => vessel.data.dailyHire);
+  const dimensions = [
+    {
+      key: "bunker_price_delta",
+      label: "bunker prices",
+      unit: "USD/MT",
+      scenario: (delta: number): PricingScenario => ({ ...noShift, bunkerDelta: delta }),
+      step: 10,
+      limit: { down: Math.min(params.bunkerPrices.ifo, params.bunkerPrices.mdo), up: 500 },
+      tolerance: 0.5,
+    },
+    {
+      key: "port_delay_delta_days",
+      label: "port delay",
+      unit: "days",
+      scenario: (delta: number): PricingScenario => ({ ...noShift, portDelayDays: delta }),
+      step: 0.5,
+      limit: { down: params.portDelayDays, up: 15 },
+      tolerance: 0.05,
+    },
+    {
+      key: "market_hire_delta",
+      label: "market hire",
+      unit: "USD/day",
+      scenario: (delta: number): PricingScenario => ({ ...noShift, marketHireDelta: delta }),
+      step: 1000,
+      limit: { down: marketHires.length ? Math.min(...marketHires) : 0, up: 30000 },
+      tolerance: 50,
+    },
+  ];
+
+  const results = dimensions.map((dimension) => {
+    const flip = findFlipThreshold({
+      evaluate: (delta) => evaluate(dimension.scenario(delta)),
+      step: dimension.step,
+      limit: dimension.limit,
+      tolerance: dimension.tolerance,
+    });
+    const range = `-${formatNumber(dimension.limit.down)} to +${formatNumber(dimension.limit.up)} ${dimension.unit}`;
+    if (!flip) {
+      return {
+        key: dimension.key,
+        value: { delta: null, searched: range },
+        sentence: `The recommendation holds for ${dimension.label} from ${range}.`,
+      };
+    }
+    const changes = describeChanges(flip.evaluation.cargoByVessel);
+    return {
+      key: dimension.key,
+      value: {
+        delta: flip.delta,
+        unit: dimension.unit,
+        searched: range,
+        alternative: {
+          total_profit: flip.evaluation.profit,
+          assignments: describeAssignments(flip.evaluation.cargoByVessel),
+          changes,
+        },
+      },
+      sentence:
+        `The recommendation flips at ${flip.delta >= 0 ? "+" : ""}${formatNumber(flip.delta)} ` +
+        `${dimension.unit} on ${dimension.label}: ${changes.join("; ")}.`,
+    };
+  });
+  const byKey = Object.fromEntries(results.map((item) => [item.key, item]));
+  return {
+    generated_at: new Date().toISOString(),
+    method:
+      "Each feasible pair keeps its optimised quantity, speeds and port option; inputs are " +
+      "shifted, pairs repriced and the portfolio re-solved under the recommendation's " +
+      "constraints. Scanned in fixed steps, refined by bisection.",
+    base: {
+      ifo_price: params.bunkerPrices.ifo,
+      mdo_price: params.bunkerPrices.mdo,
+      port_delay_days: params.portDelayDays,
+      total_profit: recommended.objective,
+      assignments: describeAssignments(baseAssignment),
+    },
+    ...Object.fromEntries(results.map((item) => [item.key, item.value])),
+    bunker: byKey.bunker_price_delta.sentence,
+    delay: byKey.port_delay_delta_days.sentence,
+    hire: byKey.market_hire_delta.sentence,
+  };
+};
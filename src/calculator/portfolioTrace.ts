@@ -0,0 +1,185 @@
+import type { CargoOption, VesselOption } from "./businessData";
+import type { PortPairResult } from "./pairEvaluator";
+import type { RankedPortfolio } from "./portfolioSolver";
+
+// Why a (vessel, cargo) pair never became a portfolio candidate, in the order the filters
+// run: a pair is counted against the first filter it fails.
+export const pairRejectionReasons = [
+  "freight_rate",
+  "laycan_window",
+  "route_blocked",
+  "laycan",
+  "laycan_risk",
+  "quantity_range",
+  "capacity",
+] as const;
+
+export type PairRejectionReason = (typeof pairRejectionReasons)[number];
+
+export type PairRejection = { reason: PairRejectionReason; detail: string };
+
+export const pairRejectionLabels: Record<PairRejectionReason, string> = {
+  freight_rate: "freight rate not positive",
+  laycan_window: "no laycan window or ETD",
+  route_blocked: "every route blocked",
+  laycan: "cancelling date out of reach",
+  laycan_risk: "laycan miss risk over cap",
+  quantity_range: "no quantity within the contract range",
+  capacity: "no quantity within DWT, intake or cube",
+};
+
+export type FunnelStage = { filter: PairRejectionReason; dropped: number; remaining: number };
+
+// Pairs still standing after each filter, starting from `pairCount` evaluated pairs.
+export const buildFilterFunnel = (
+  pairCount: number,
+  rejections: PairRejectionReason[],
+): FunnelStage[] => {
+  let remaining = pairCount;
+  return pairRejectionReasons.map((filter) => {
+    const dropped = rejections.filter((reason) => reason === filter).length;
+    remaining -= dropped;
+    return { filter, dropped, remaining };
+  });
+};
+
+// Filters that dropped pairs, e.g. "every route blocked: 4, ..."; "none" when none did.
+export const describeRejections = (funnel: FunnelStage[]) =>
+  funnel
+    .filter((stage) => stage.dropped > 0)
+    .map((stage) => `${pairRejectionLabels[stage.filter]}: ${stage.dropped}`)
+    .join(", ") || "none";
+
+export type TopkPortfolio = {
+  rank: number;
+  total_profit: number;
+  profit_gap_to_top1: number;
+  assignments: Array<{ vessel: string; cargo: string; profit: number; tce: number; route: string }>;
+  idle_vessels: string[];
+  unassigned_cargos: string[];
+};
+
+// One vessel whose cargo differs between top 1 and top 2; profit_delta is top 1 minus top 2.
+export type TopkAssignmentDelta = {
+  vessel: string;
+  top1_cargo: string | null;
+  top2_cargo: string | null;
+  top1_profit: number;
+  top2_profit: number;
+  profit_delta: number;
+};
+
+// knowledge/topk_portfolios.json; `summary` and `top1_top2_diff` are read from older files.
+export type TopkJson = {
+  generated_at?: string;
+  // Why no ranking was written, e.g. a sequencing run.
+  note?: string;
+  portfolios?: TopkPortfolio[];
+  top1?: TopkPortfolio;
+  top2?: TopkPortfolio;
+  diff?: {
+    one_sentence?: string;
+    summary?: string;
+    key_deltas?: Record<string, unknown>;
+    assignment_deltas?: TopkAssignmentDelta[];
+  };
+  top1_top2_diff?: { summary?: string; one_sentence?: string };
+};
+
+const formatMoney = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+// Ranked portfolios with a top-1 vs top-2 comparison, for "why not the second best".
+export const buildTopkJson = (
+  ranked: RankedPortfolio[],
+  vessels: VesselOption[],
+  cargos: CargoOption[],
+  pairResults: Array<Array<PortPairResult | null>>,
+): TopkJson => {
+  const portfolios: TopkPortfolio[] = ranked.map((item, index) => ({
+    rank: index + 1,
+    total_profit: item.objective,
+    profit_gap_to_top1: ranked[0].objective - item.objective,
+    assignments: item.pairs.flatMap(({ vesselIdx, cargoIdx }) => {
+      const pair = pairResults[vesselIdx][cargoIdx];
+      if (!pair) return [];
+      return [
+        {
+          vessel: vessels[vesselIdx].name,
+          cargo: cargos[cargoIdx].name,
+          profit: pair.adjustedProfit,
+          tce: pair.tce,
+          route: `${vessels[vesselIdx].currentPort} -> ${pair.cargo.loadPort} -> ${pair.cargo.dischargePort}`,
+        },
+      ];
+    }),
+    idle_vessels: vessels
+      .filter((_, vesselIdx) => !item.pairs.some((pair) => pair.vesselIdx === vesselIdx))
+      .map((vessel) => vessel.name),
+    unassigned_cargos: cargos
+      .filter((_, cargoIdx) => !item.pairs.some((pair) => pair.cargoIdx === cargoIdx))
+      .map((cargo) => cargo.name),
+  }));
+  const [top1, top2] = portfolios;
+  if (!top1) return { generated_at: new Date().toISOString(), portfolios };
+  if (!top2) {
+    return {
+      generated_at: new Date().toISOString(),
+      portfolios,
+      top1,
+      diff: {
+        one_sentence: "Only one feasible portfolio exists, so there is no second-best to compare.",
+        key_deltas: {},
+        assignment_deltas: [],
+      },
+    };
+  }
+
+  const cargoOf = (portfolio: TopkPortfolio, vessel: string) =>
+    portfolio.assignments.find((item) => item.vessel === vessel) ?? null;
+  const assignmentDeltas: TopkAssignmentDelta[] = vessels.flatMap((vessel) => {
+    const first = cargoOf(top1, vessel.name);
+    const second = cargoOf(top2, vessel.name);
+    if (first?.cargo === second?.cargo) return [];
+    const top1Profit = first?.profit ?? 0;
+    const top2Profit = second?.profit ?? 0;
+    return [
+      {
+        vessel: vessel.name,
+        top1_cargo: first?.cargo ?? null,
+        top2_cargo: second?.cargo ?? null,
+        top1_profit: top1Profit,
+        top2_profit: top2Profit,
+        profit_delta: top1Profit - top2Profit,
+      },
+    ];
+  });
+  const totalDelta = top1.total_profit - top2.total_profit;
+  const changes = assignmentDeltas
+    .slice(0, 3)
+    .map(
+      (item) =>
+        `${item.vessel} carries ${item.top2_cargo ?? "nothing"} instead of ${item.top1_cargo ?? "nothing"} ` +
+        `(${item.profit_delta >= 0 ? "-" : "+"}${formatMoney(Math.abs(item.profit_delta))})`,
+    );
+  const cargoNames = (portfolio: TopkPortfolio) => portfolio.assignments.map((item) => item.cargo);
+  return {
+    generated_at: new Date().toISOString(),
+    portfolios,
+    top1,
+    top2,
+    diff: {
+      one_sentence:
+        `Top 1 earns ${formatMoney(totalDelta)} more than top 2, which differs on ` +
+        `${assignmentDeltas.length} vessel(s): ${changes.join("; ")}` +
+        `${assignmentDeltas.length > changes.length ? "; ..." : ""}.`,
+      key_deltas: {
+        total_profit: totalDelta,
+        vessels_changed: assignmentDeltas.map((item) => item.vessel),
+        cargos_only_in_top1: cargoNames(top1).filter((name) => !cargoNames(top2).includes(name)),
+        cargos_only_in_top2: cargoNames(top2).filter((name) => !cargoNames(top1).includes(name)),
+      },
+      assignment_deltas: assignmentDeltas,
+    },
+  };
+};
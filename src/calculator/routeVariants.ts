@@ -0,0 +1,138 @@
+import type { LegDistance } from "./portDistances";
+
+export type Chokepoint = "suez" | "panama" | "cape_of_good_hope" | "malacca";
+
+export const chokepointLabels: Record<Chokepoint, string> = {
+  suez: "Suez",
+  panama: "Panama",
+  cape_of_good_hope: "Cape of Good Hope",
+  malacca: "Malacca",
+};
+
+export const isChokepoint = (value: unknown): value is Chokepoint =>
+  typeof value === "string" && value in chokepointLabels;
+
+// One row of chokepoints.csv.
+export type ChokepointCosts = {
+  // Transit including typical anchorage waiting, days.
+  transitDays: number;
+  // Capesize tolls, USD.
+  dues: { ballast: number; laden: number };
+};
+
+// Sailing options between two sea regions, from sea_routes.csv. `tableRoute` marks the
+// option a port_distances.csv row between the regions measures; `factor` is each option's
+// distance relative to it. An empty `via` is open water (e.g. Sunda or Lombok instead of
+// Malacca).
+export type SeaRouteRule = {
+  regions: [string, string];
+  variants: Array<{ via: Chokepoint[]; factor: number; tableRoute: boolean }>;
+};
+
+export type SeaRoutes = {
+  chokepoints: Record<Chokepoint, ChokepointCosts>;
+  rules: SeaRouteRule[];
+  // Sea region by distance-table port name, from port_master.csv.
+  portRegions: Record<string, string>;
+};
+
+export type RouteVariant = {
+  name: string;
+  via: Chokepoint[];
+  distanceNm: number;
+  transitDays: number;
+  dues: number;
+  // Sails the measured leg itself rather than an option scaled from it.
+  measured: boolean;
+};
+
+export const findSeaRouteRule = (rules: SeaRouteRule[], from: string, to: string) =>
+  rules.find(
+    ({ regions }) =>
+      (regions[0] === from && regions[1] === to) || (regions[0] === to && regions[1] === from),
+  );
+
+const sameChokepoints = (a: Chokepoint[], b: Chokepoint[]) =>
+  a.length === b.length && a.every((point) => b.includes(point));
+
+// Chokepoints passed by a chain of table rows: each row between two regions is taken to
+// sail its rule's table route. Null when a port on the chain has no region.
+const getPathChokepoints = (seaRoutes: SeaRoutes, path: string[]) => {
+  const regions = path.map((port) => seaRoutes.portRegions[port]);
+  if (regions.some((region) => !region)) return null;
+  const via: Chokepoint[] = [];
+  for (let index = 1; index < regions.length; index += 1) {
+    if (regions[index - 1] === regions[index]) continue;
+    const rule = findSeaRouteRule(seaRoutes.rules, regions[index - 1], regions[index]);
+    const tableRoute = rule?.variants.find((variant) => variant.tableRoute);
+    for (const point of tableRoute?.via ?? []) {
+      if (!via.includes(point)) via.push(point);
+    }
+  }
+  return via;
+};
+
+const describeVia = (via: Chokepoint[]) =>
+  via.length ? `via ${via.map((point) => chokepointLabels[point]).join(" and ")}` : "open water";
+
+// Route variants for one leg. The measured leg (table row, routed chain or estimate) is
+// labelled with the chokepoints its own path passes; the rule's other options are scaled
+// from it. A path the rule does not list, or one through a port without a region, is the
+// only variant; a path with no chokepoint and no rule is the plain "table route".
+export const getRouteVariants = (
+  seaRoutes: SeaRoutes,
+  from: string,
+  to: string,
+  measured: LegDistance,
+  leg: "ballast" | "laden",
+): RouteVariant[] => {
+  const toVariant = (name: string, via: Chokepoint[], factor = 1, isMeasured = true) => ({
+    name,
+    via,
+    distanceNm: measured.distanceNm * factor,
+    transitDays: via.reduce((sum, point) => sum + seaRoutes.chokepoints[point].transitDays, 0),
+    dues: via.reduce((sum, point) => sum + seaRoutes.chokepoints[point].dues[leg], 0),
+    measured: isMeasured,
+  });
+  const pathVia = getPathChokepoints(seaRoutes, [from, ...measured.via, to]);
+  if (!pathVia) return [toVariant("table route", [])];
+  const rule = findSeaRouteRule(
+    seaRoutes.rules,
+    seaRoutes.portRegions[from],
+    seaRoutes.portRegions[to],
+  );
+  const sailed = rule?.variants.find((variant) => sameChokepoints(variant.via, pathVia));
+  if (!rule || !sailed) {
+    const name = pathVia.length ? describeVia(pathVia) : "table route";
+    return [toVariant(name, pathVia)];
+  }
+  return rule.variants.map((variant) =>
+    toVariant(
+      describeVia(variant.via),
+      variant.via,
+      variant.factor / sailed.factor,
+      variant === sailed,
+    ),
+  );
+};
+
+export const filterRouteVariants = (variants: RouteVariant[], avoid: Chokepoint[]) =>
+  variants.filter((variant) => !variant.via.some((point) => avoid.includes(point)));
+
+// Best allowed (ballast, laden) combination under `score` (higher is better), or null when
+// a leg has no variant left.
+export const selectRouteVariants = (
+  ballast: RouteVariant[],
+  laden: RouteVariant[],
+  score: (legs: { ballast: RouteVariant; laden: RouteVariant }) => number,
+) => {
+  let best: { ballast: RouteVariant; laden: RouteVariant; score: number } | null = null;
+  for (const ballastVariant of ballast) {
+    for (const ladenVariant of laden) {
+      const legs = { ballast: ballastVariant, laden: ladenVariant };
+      const value = score(legs);
+      if (!best || value > best.score) best = { ...legs, score: value };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,114 @@
+export type DistanceMap = Record<string, Record<string, number>>;
+
+export type RouteSource = "same_port" | "direct" | "routed" | "unreachable";
+
+export type PortRoute = {
+  from: string;
+  to: string;
+  distanceNm: number;
+  // Intermediate ports in sailing order; empty for direct legs.
+  via: string[];
+  source: RouteSource;
+};
+
+type ShortestPathTree = {
+  distance: Map<string, number>;
+  previous: Map<string, string>;
+};
+
+// Binary min-heap of [distance, port]; stale entries are skipped on pop.
+const pushHeap = (heap: Array<[number, string]>, item: [number, string]) => {
+  heap.push(item);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent][0] <= heap[index][0]) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+};
+
+const popHeap = (heap: Array<[number, string]>) => {
+  const top = heap[0];
+  const last = heap.pop() as [number, string];
+  if (heap.length > 0) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+      if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+  return top;
+};
+
+// Dijkstra from one port over every edge in the distance table.
+const buildTree = (distanceMap: DistanceMap, source: string): ShortestPathTree => {
+  const distance = new Map<string, number>([[source, 0]]);
+  const previous = new Map<string, string>();
+  const settled = new Set<string>();
+  const heap: Array<[number, string]> = [[0, source]];
+  while (heap.length > 0) {
+    const [dist, port] = popHeap(heap);
+    if (settled.has(port)) continue;
+    settled.add(port);
+    for (const [next, legNm] of Object.entries(distanceMap[port] ?? {})) {
+      if (!Number.isFinite(legNm) || legNm < 0 || settled.has(next)) continue;
+      const candidate = dist + legNm;
+      if (candidate < (distance.get(next) ?? Number.POSITIVE_INFINITY)) {
+        distance.set(next, candidate);
+        previous.set(next, port);
+        pushHeap(heap, [candidate, next]);
+      }
+    }
+  }
+  return { distance, previous };
+};
+
+// Cached per distance table and origin.
+const treeCache = new WeakMap<DistanceMap, Map<string, ShortestPathTree>>();
+
+const getTree = (distanceMap: DistanceMap, source: string) => {
+  let trees = treeCache.get(distanceMap);
+  if (!trees) {
+    trees = new Map();
+    treeCache.set(distanceMap, trees);
+  }
+  let tree = trees.get(source);
+  if (!tree) {
+    tree = buildTree(distanceMap, source);
+    trees.set(source, tree);
+  }
+  return tree;
+};
+
+// Direct table distance, else the shortest chain of table legs through other ports.
+export const findRoute = (distanceMap: DistanceMap, from: string, to: string): PortRoute => {
+  if (from === to) return { from, to, distanceNm: 0, via: [], source: "same_port" };
+  const direct = distanceMap[from]?.[to];
+  if (Number.isFinite(direct)) {
+    return { from, to, distanceNm: direct, via: [], source: "direct" };
+  }
+  const unreachable: PortRoute = {
+    from,
+    to,
+    distanceNm: Number.POSITIVE_INFINITY,
+    via: [],
+    source: "unreachable",
+  };
+  if (!distanceMap[from] || !distanceMap[to]) return unreachable;
+  const tree = getTree(distanceMap, from);
+  const distanceNm = tree.distance.get(to);
+  if (distanceNm === undefined) return unreachable;
+  const via: string[] = [];
+  for (let port = tree.previous.get(to); port && port !== from; port = tree.previous.get(port)) {
+    via.unshift(port);
+  }
+  return { from, to, distanceNm, via, source: "routed" };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { findFlipThreshold } from "./sensitivity";
+
+// The optimum changes to "up" at or above `up` and to "down" at or below `down`.
+const createStep = (up: number, down: number) => (delta: number) => ({
+  key: delta >= up ? "up" : delta <= down ? "down" : "base",
+});
+
+describe("findFlipThreshold", () => {
+  it("refines a flip to within the tolerance", () => {
+    const flip = findFlipThreshold({
+      evaluate: createStep(37.3, -1000),
+      step: 10,
+      limit: { down: 100, up: 100 },
+      tolerance: 0.01,
+    });
+    expect(flip?.evaluation.key).toBe("up");
+    expect(flip?.delta).toBeGreaterThanOrEqual(37.3);
+    expect(flip?.delta).toBeLessThanOrEqual(37.31);
+  });
+
+  it("reports the nearer flip when both directions flip", () => {
+    const flip = findFlipThreshold({
+      evaluate: createStep(37.3, -12.6),
+      step: 10,
+      limit: { down: 100, up: 100 },
+      tolerance: 0.01,
+    });
+    expect(flip?.evaluation.key).toBe("down");
+    expect(flip?.delta).toBeLessThanOrEqual(-12.6);
+    expect(flip?.delta).toBeGreaterThanOrEqual(-12.61);
+  });
+
+  it("searches each side only up to its limit", () => {
+    const flip = findFlipThreshold({
+      evaluate: createStep(37.3, -12.6),
+      step: 10,
+      limit: { down: 5, up: 100 },
+      tolerance: 0.01,
+    });
+    expect(flip?.evaluation.key).toBe("up");
+  });
+
+  it("returns null when the optimum holds across the range", () => {
+    const flip = findFlipThreshold({
+      evaluate: createStep(200, -200),
+      step: 10,
+      limit: { down: 100, up: 100 },
+      tolerance: 0.01,
+    });
+    expect(flip).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+// One scenario input moved away from its base value; `key` identifies the optimum so two
+// evaluations with the same key recommend the same thing.
+export type ScenarioEvaluation = { key: string };
+
+export type FlipThreshold<T extends ScenarioEvaluation> = {
+  // Signed change from the base at which the optimum first differs.
+  delta: number;
+  // The optimum that takes over at `delta`.
+  evaluation: T;
+};
+
+// Smallest change within [-limit.down, +limit.up] at which `evaluate` returns a different
+// key than at 0. The range is scanned outward in `step` increments, both directions at
+// once, and the first flip is refined by bisection to `tolerance`; a flip and flip-back
+// inside one step is not seen. Null when the optimum holds across the range.
+export const findFlipThreshold = <T extends ScenarioEvaluation>(params: {
+  evaluate: (delta: number) => T;
+  step: number;
+  limit: { down: number; up: number };
+  tolerance: number;
+}): FlipThreshold<T> | null => {
+  const { evaluate, step, limit, tolerance } = params;
+  const baseKey = evaluate(0).key;
+
+  // `held` keeps the base optimum, `flipped` does not; both on the same side of 0.
+  const refine = (held: number, flipped: number, evaluation: T): FlipThreshold<T> => {
+    let low = held;
+    let high = flipped;
+    let flippedEvaluation = evaluation;
+    while (Math.abs(high - low) > tolerance) {
+      const mid = (low + high) / 2;
+      const midEvaluation = evaluate(mid);
+      if (midEvaluation.key === baseKey) {
+        low = mid;
+      } else {
+        high = mid;
+        flippedEvaluation = midEvaluation;
+      }
+    }
+    return { delta: high, evaluation: flippedEvaluation };
+  };
+
+  const reach = Math.max(limit.up, limit.down);
+  for (let distance = step; distance < reach + step; distance += step) {
+    const found: Array<FlipThreshold<T>> = [];
+    for (const sign of [1, -1]) {
+      const bound = sign > 0 ? limit.up : limit.down;
+      const previous = distance - step;
+      if (previous >= bound) continue;
+      const current = Math.min(distance, bound);
+      const evaluation = evaluate(sign * current);
+      if (evaluation.key !== baseKey) {
+        found.push(refine(sign * previous, sign * current, evaluation));
+      }
+    }
+    if (found.length) {
+      return found.reduce((best, item) =>
+        Math.abs(item.delta) < Math.abs(best.delta) ? item : best,
+      );
+    }
+  }
+  return null;
+};
@@ -0,0 +1,124 @@
+// A vessel's programme: cargos carried back to back, each voyage ballasting from the
+// previous discharge port and departing when the previous voyage completes.
+export type VoyageChain<T> = {
+  vesselIdx: number;
+  cargoIdxs: number[];
+  voyages: T[];
+  profit: number;
+};
+
+type SequencedVoyage = { adjustedProfit: number; openDate: Date };
+
+// The portfolio search keeps one state per (vessels used, cargos covered) set, so it is
+// exponential in the cargo count.
+export const maxSequencingCargos = 14;
+
+// Every chain of up to `maxVoyages` distinct cargos per vessel. `first` prices a cargo
+// from the vessel's current position, `next` from where `previous` leaves it; either
+// returns null when the voyage is infeasible. Follow-on voyages must complete by
+// `horizonEnd`.
+export const enumerateVoyageChains = <T extends SequencedVoyage>(params: {
+  vesselCount: number;
+  cargoCount: number;
+  maxVoyages: number;
+  horizonEnd: Date;
+  first: (vesselIdx: number, cargoIdx: number) => T | null;
+  next: (vesselIdx: number, previous: T, cargoIdx: number) => T | null;
+}) => {
+  const { vesselCount, cargoCount, maxVoyages, horizonEnd, first, next } = params;
+  return Array.from({ length: vesselCount }, (_, vesselIdx) => {
+    const chains: Array<VoyageChain<T>> = [];
+    const extend = (chain: VoyageChain<T>) => {
+      chains.push(chain);
+      if (chain.voyages.length >= maxVoyages) return;
+      const previous = chain.voyages[chain.voyages.length - 1];
+      for (let cargoIdx = 0; cargoIdx < cargoCount; cargoIdx += 1) {
+        if (chain.cargoIdxs.includes(cargoIdx)) continue;
+        const voyage = next(vesselIdx, previous, cargoIdx);
+        if (!voyage || voyage.openDate.getTime() > horizonEnd.getTime()) continue;
+        extend({
+          vesselIdx,
+          cargoIdxs: [...chain.cargoIdxs, cargoIdx],
+          voyages: [...chain.voyages, voyage],
+          profit: chain.profit + voyage.adjustedProfit,
+        });
+      }
+    };
+    for (let cargoIdx = 0; cargoIdx < cargoCount; cargoIdx += 1) {
+      const voyage = first(vesselIdx, cargoIdx);
+      if (!voyage) continue;
+      extend({
+        vesselIdx,
+        cargoIdxs: [cargoIdx],
+        voyages: [voyage],
+        profit: voyage.adjustedProfit,
+      });
+    }
+    return chains;
+  });
+};
+
+// Most profitable set of chains with at most `maxVessels` vessels employed, no cargo
+// carried twice and every `requiredCargos` entry covered; null when no such set exists.
+// Dynamic programme over vessels, keyed by (vessels employed, cargo bitmask).
+export const solveVoyageSequencing = <T>(
+  chainsByVessel: Array<Array<VoyageChain<T>>>,
+  params: { cargoCount: number; maxVessels: number; requiredCargos: number[] },
+) => {
+  const { cargoCount, requiredCargos } = params;
+  if (cargoCount > maxSequencingCargos) {
+    throw new Error(`Sequencing supports at most ${maxSequencingCargos} cargos.`);
+  }
+  const maxVessels = Math.min(params.maxVessels, chainsByVessel.length);
+  const size = 1 << cargoCount;
+  const chainMask = (chain: VoyageChain<T>) =>
+    chain.cargoIdxs.reduce((mask, cargoIdx) => mask | (1 << cargoIdx), 0);
+  const requiredMask = requiredCargos.reduce((mask, cargoIdx) => mask | (1 << cargoIdx), 0);
+
+  let best = new Float64Array((maxVessels + 1) * size).fill(Number.NEGATIVE_INFINITY);
+  best[0] = 0;
+  // choices[v][state]: chain index vessel v takes into `state`, or -1 when it stays idle.
+  const choices: Int32Array[] = [];
+  let transitions = 0;
+  chainsByVessel.forEach((chains) => {
+    const masks = chains.map(chainMask);
+    const nextBest = best.slice();
+    const choice = new Int32Array((maxVessels + 1) * size).fill(-1);
+    for (let used = 0; used < maxVessels; used += 1) {
+      for (let mask = 0; mask < size; mask += 1) {
+        const value = best[used * size + mask];
+        if (value === Number.NEGATIVE_INFINITY) continue;
+        chains.forEach((chain, chainIdx) => {
+          if (mask & masks[chainIdx]) return;
+          transitions += 1;
+          const state = (used + 1) * size + (mask | masks[chainIdx]);
+          if (value + chain.profit > nextBest[state]) {
+            nextBest[state] = value + chain.profit;
+            choice[state] = chainIdx;
+          }
+        });
+      }
+    }
+    best = nextBest;
+    choices.push(choice);
+  });
+
+  let finalState = -1;
+  for (let state = 0; state < best.length; state += 1) {
+    if (((state % size) & requiredMask) !== requiredMask) continue;
+    if (best[state] === Number.NEGATIVE_INFINITY) continue;
+    if (finalState < 0 || best[state] > best[finalState]) finalState = state;
+  }
+  if (finalState < 0) return null;
+
+  const selected: Array<VoyageChain<T>> = [];
+  let state = finalState;
+  for (let vesselIdx = chainsByVessel.length - 1; vesselIdx >= 0; vesselIdx -= 1) {
+    const chainIdx = choices[vesselIdx][state];
+    if (chainIdx < 0) continue;
+    const chain = chainsByVessel[vesselIdx][chainIdx];
+    selected.unshift(chain);
+    state = state - size - chainMask(chain);
+  }
+  return { chains: selected, profit: best[finalState], transitions };
+};
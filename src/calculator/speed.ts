@@ -11,32 +11,94 @@ type SpeedConsumption = {
   };
 };
 
-const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+// "linear": consumption interpolated on the blend, as the blend moves speed.
+// "cubic": consumption = a + b * speed^3 through the warranted and economical points.
+// "table": piecewise-linear over a per-vessel speed/consumption table.
+export type ConsumptionModel = "linear" | "cubic" | "table";
+
+export type ConsumptionPoint = { speed: number; ifo: number; mdo: number };
+
+export type ConsumptionTable = {
+  ballast: ConsumptionPoint[];
+  laden: ConsumptionPoint[];
+};
+
+export type ProfileOptions = {
+  model?: ConsumptionModel;
+  table?: ConsumptionTable;
+};
 
 const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
 
+const cubicThrough = (
+  speed: number,
+  low: { speed: number; value: number },
+  high: { speed: number; value: number },
+) => {
+  const span = high.speed ** 3 - low.speed ** 3;
+  if (Math.abs(span) < 1e-9) return low.value;
+  const b = (high.value - low.value) / span;
+  return Math.max(low.value + b * (speed ** 3 - low.speed ** 3), 0);
+};
+
+const interpolateTable = (points: ConsumptionPoint[], speed: number, fuel: "ifo" | "mdo") => {
+  const sorted = [...points].sort((a, b) => a.speed - b.speed);
+  if (sorted.length === 1) return sorted[0][fuel];
+  // Outside the table the end segments are extended.
+  let index = sorted.findIndex((point) => point.speed >= speed);
+  if (index < 0) index = sorted.length - 1;
+  if (index === 0) index = 1;
+  const low = sorted[index - 1];
+  const high = sorted[index] ?? sorted[sorted.length - 1];
+  if (high.speed === low.speed) return high[fuel];
+  const t = (speed - low.speed) / (high.speed - low.speed);
+  return Math.max(lerp(low[fuel], high[fuel], t), 0);
+};
+
+const legConsumption = (
+  leg: "ballast" | "laden",
+  speed: number,
+  blend: number,
+  economical: SpeedConsumption,
+  warranted: SpeedConsumption,
+  options: ProfileOptions,
+) => {
+  const table = options.table?.[leg];
+  const model = options.model === "table" && !table?.length ? "linear" : options.model ?? "linear";
+  const fuel = (key: "ifo" | "mdo") => {
+    if (model === "table" && table?.length) return interpolateTable(table, speed, key);
+    const eco = { speed: economical.speed[leg], value: economical.consumption[leg][key] };
+    const warr = { speed: warranted.speed[leg], value: warranted.consumption[leg][key] };
+    if (model === "cubic") return cubicThrough(speed, eco, warr);
+    return Math.max(lerp(warr.value, eco.value, blend), 0);
+  };
+  return { ifo: fuel("ifo"), mdo: fuel("mdo") };
+};
+
+// Speed always moves linearly through the warranted (blend 0) and economical (blend 1)
+// points; blends outside [0, 1] sail faster than warranted or slower than economical.
+// The blend is not clamped here because the speed search extrapolates over the vessel's
+// speed range; user-supplied blends are bounded with clampSpeedBlend.
+// The consumption model decides the fuel burned at that speed. A "table" request without
+// a table for the leg falls back to linear.
 export const getEffectiveProfile = (
   economical: SpeedConsumption,
   warranted: SpeedConsumption,
   blend: SpeedBlend,
+  options: ProfileOptions = {},
 ) => {
-  const ballastBlend = clamp01(blend.ballast);
-  const ladenBlend = clamp01(blend.laden);
+  const ballastBlend = blend.ballast;
+  const ladenBlend = blend.laden;
+  const speed = {
+    ballast: lerp(warranted.speed.ballast, economical.speed.ballast, ballastBlend),
+    laden: lerp(warranted.speed.laden, economical.speed.laden, ladenBlend),
+  };
 
   return {
-    speed: {
-      ballast: lerp(warranted.speed.ballast, economical.speed.ballast, ballastBlend),
-      laden: lerp(warranted.speed.laden, economical.speed.laden, ladenBlend),
-    },
+    speed,
     consumption: {
-      ballast: {
-        ifo: lerp(warranted.consumption.ballast.ifo, economical.consumption.ballast.ifo, ballastBlend),
-        mdo: lerp(warranted.consumption.ballast.mdo, economical.consumption.ballast.mdo, ballastBlend),
-      },
-      laden: {
-        ifo: lerp(warranted.consumption.laden.ifo, economical.consumption.laden.ifo, ladenBlend),
-        mdo: lerp(warranted.consumption.laden.mdo, economical.consumption.laden.mdo, ladenBlend),
-      },
+      ballast: legConsumption("ballast", speed.ballast, ballastBlend, economical, warranted, options),
+      laden: legConsumption("laden", speed.laden, ladenBlend, economical, warranted, options),
     },
   };
 };
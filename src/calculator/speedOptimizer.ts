@@ -0,0 +1,163 @@
+import { calculateFreight, type FreightInputs, type FreightOutputs } from "./freightCalculator";
+import type { ConsumptionModel, SpeedBlend } from "./speed";
+
+export type SpeedOptimum = {
+  speedBlend: SpeedBlend;
+  speedKnots: { ballast: number; laden: number };
+  inputs: FreightInputs;
+  outputs: FreightOutputs;
+  value: number;
+  evaluations: number;
+};
+
+export type SpeedSearchOptions = {
+  // Stop once the bracket on each leg is narrower than this many knots.
+  toleranceKn?: number;
+  // Coordinate passes over (ballast, laden); the legs only interact through bunker
+  // allocation and ROB, so two passes are normally enough.
+  passes?: number;
+  // Lower speed bound per leg, e.g. the ballast speed needed to make the cancelling date.
+  minKnots?: Partial<Record<Leg, number>>;
+};
+
+type Leg = "ballast" | "laden";
+
+const goldenRatio = (Math.sqrt(5) - 1) / 2;
+
+// Blend 0 is the warranted speed and 1 the economical speed (see getEffectiveProfile).
+const toBlend = (vessel: FreightInputs["vessel"], leg: Leg, knots: number) => {
+  const warranted = vessel.speedWarranted[leg];
+  const economical = vessel.speed[leg];
+  if (warranted === economical) return 0;
+  return (warranted - knots) / (warranted - economical);
+};
+
+// Speeds a leg can be sailed at: the vessel's stated limits, else the speeds the
+// consumption table covers when it is in use, else the economical-warranted band.
+export const getSpeedBounds = (
+  vessel: FreightInputs["vessel"],
+  leg: Leg,
+  consumptionModel: ConsumptionModel,
+) => {
+  const limits = vessel.speedRange?.[leg];
+  if (limits) return limits;
+  const tableSpeeds =
+    consumptionModel === "table"
+      ? (vessel.consumptionTable?.[leg] ?? []).map((point) => point.speed)
+      : [];
+  const speeds =
+    tableSpeeds.length > 1 ? tableSpeeds : [vessel.speed[leg], vessel.speedWarranted[leg]];
+  return { min: Math.min(...speeds), max: Math.max(...speeds) };
+};
+
+// The blends getSpeedBounds allows; the speed search may leave [0, 1] within them.
+export const getBlendBounds = (
+  vessel: FreightInputs["vessel"],
+  leg: Leg,
+  consumptionModel: ConsumptionModel,
+) => {
+  const bounds = getSpeedBounds(vessel, leg, consumptionModel);
+  const blends = [toBlend(vessel, leg, bounds.min), toBlend(vessel, leg, bounds.max)];
+  return { min: Math.min(...blends), max: Math.max(...blends) };
+};
+
+// Holds a user-supplied blend to the speeds the vessel can sail (see getBlendBounds).
+export const clampSpeedBlend = (
+  vessel: FreightInputs["vessel"],
+  blend: SpeedBlend,
+  consumptionModel: ConsumptionModel,
+): SpeedBlend => {
+  const clampLeg = (leg: Leg) => {
+    const bounds = getBlendBounds(vessel, leg, consumptionModel);
+    const value = Number.isFinite(blend[leg]) ? blend[leg] : 0;
+    return Math.min(Math.max(value, bounds.min), bounds.max);
+  };
+  return { ballast: clampLeg("ballast"), laden: clampLeg("laden") };
+};
+
+const toKnots = (inputs: FreightInputs, leg: Leg, blend: number) =>
+  inputs.vessel.speedWarranted[leg] +
+  (inputs.vessel.speed[leg] - inputs.vessel.speedWarranted[leg]) * blend;
+
+// Maximises `objective` (profit by default) over ballast and laden speed. Profit is a
+// sum of per-leg terms (hire and fuel for each leg's days), so each leg is searched on
+// its own by golden section in knots over the leg's speed bounds (see getSpeedBounds).
+export const optimizeSpeed = (
+  inputs: FreightInputs,
+  objective: (outputs: FreightOutputs, inputs: FreightInputs) => number = (outputs) =>
+    outputs.profit,
+  options: SpeedSearchOptions = {},
+): SpeedOptimum => {
+  const toleranceKn = options.toleranceKn ?? 0.01;
+  const passes = options.passes ?? 2;
+  let evaluations = 0;
+  let blend: SpeedBlend = { ...inputs.options.speedBlend };
+
+  const evaluate = (candidate: SpeedBlend) => {
+    const candidateInputs: FreightInputs = {
+      ...inputs,
+      options: { ...inputs.options, speedBlend: candidate },
+    };
+    const outputs = calculateFreight(candidateInputs);
+    evaluations += 1;
+    return { inputs: candidateInputs, outputs, value: objective(outputs, candidateInputs) };
+  };
+
+  const searchLeg = (leg: Leg) => {
+    const bounds = getSpeedBounds(inputs.vessel, leg, inputs.options.consumptionModel);
+    const high = bounds.max;
+    const low = Math.min(Math.max(bounds.min, options.minKnots?.[leg] ?? 0), high);
+    const valueAt = (knots: number) =>
+      evaluate({ ...blend, [leg]: toBlend(inputs.vessel, leg, knots) }).value;
+    if (high - low <= toleranceKn) return toBlend(inputs.vessel, leg, (low + high) / 2);
+
+    let a = low;
+    let b = high;
+    let c = b - goldenRatio * (b - a);
+    let d = a + goldenRatio * (b - a);
+    let fc = valueAt(c);
+    let fd = valueAt(d);
+    while (b - a > toleranceKn) {
+      if (fc >= fd) {
+        b = d;
+        d = c;
+        fd = fc;
+        c = b - goldenRatio * (b - a);
+        fc = valueAt(c);
+      } else {
+        a = c;
+        c = d;
+        fc = fd;
+        d = a + goldenRatio * (b - a);
+        fd = valueAt(d);
+      }
+    }
+    // The objective is not guaranteed unimodal, so the bracket ends also get a look.
+    const candidates = [(a + b) / 2, low, high];
+    let bestKnots = candidates[0];
+    let bestValue = valueAt(bestKnots);
+    for (const knots of candidates.slice(1)) {
+      const value = valueAt(knots);
+      if (value > bestValue) {
+        bestValue = value;
+        bestKnots = knots;
+      }
+    }
+    return toBlend(inputs.vessel, leg, bestKnots);
+  };
+
+  for (let pass = 0; pass < passes; pass += 1) {
+    blend = { ...blend, ballast: searchLeg("ballast") };
+    blend = { ...blend, laden: searchLeg("laden") };
+  }
+
+  const best = evaluate(blend);
+  return {
+    speedBlend: blend,
+    speedKnots: { ballast: toKnots(inputs, "ballast", blend.ballast), laden: toKnots(inputs, "laden", blend.laden) },
+    inputs: best.inputs,
+    outputs: best.outputs,
+    value: best.value,
+    evaluations,
+  };
+};
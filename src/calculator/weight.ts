@@ -52,6 +52,118 @@ export const getWeightFeasibility = (
   return { status: "feasible", maxQty, overage: 0 };
 };
 
+export type VolumeFeasibility = {
+  status: "feasible" | "infeasible";
+  maxQty: number;
+  overage: number;
+  volumeM3: number;
+  reason?: string;
+};
+
+export type CargoLimit = "weight" | "volume";
+
+export type CargoFeasibility = {
+  status: "feasible" | "infeasible";
+  // The tighter of the weight and cube limits.
+  maxQty: number;
+  limitedBy: CargoLimit;
+  weightMaxQty: number;
+  volumeMaxQty: number;
+  volumeM3: number;
+  // The cube limit rests on a grain capacity estimated from DWT.
+  capacityEstimated: boolean;
+  overage: number;
+  reason?: string;
+};
+
+// Typical bulk stowage factors, m3/MT, matched on the commodity name in this order.
+const commodityStowFactors: Array<[RegExp, number]> = [
+  [/iron\s*ore|pellet/i, 0.4],
+  [/bauxite/i, 0.75],
+  [/coking|met(allurgical)?\s*coal/i, 1.2],
+  [/coal/i, 1.25],
+  [/wheat/i, 1.3],
+  [/maize|corn/i, 1.4],
+  [/soy/i, 1.4],
+  [/barley/i, 1.5],
+  [/grain/i, 1.33],
+];
+
+export const getCommodityStowFactor = (commodity: string | undefined | null) => {
+  if (!commodity) return null;
+  return commodityStowFactors.find(([pattern]) => pattern.test(commodity))?.[1] ?? null;
+};
+
+// Cube check for cargo stowed in bulk: quantity x stowage factor against grain capacity.
+export const getVolumeFeasibility = (
+  cargoQty: number,
+  stowFactor: number,
+  capacityM3: number,
+): VolumeFeasibility => {
+  if (!Number.isFinite(stowFactor) || stowFactor <= 0 || !Number.isFinite(capacityM3)) {
+    return {
+      status: "feasible",
+      maxQty: Number.POSITIVE_INFINITY,
+      overage: 0,
+      volumeM3: 0,
+    };
+  }
+  const maxQty = Math.max(0, capacityM3) / stowFactor;
+  const volumeM3 = cargoQty * stowFactor;
+  if (!Number.isFinite(cargoQty)) {
+    return {
+      status: "infeasible",
+      maxQty,
+      overage: 0,
+      volumeM3: 0,
+      reason: "Invalid cargo quantity.",
+    };
+  }
+  if (cargoQty > maxQty) {
+    return {
+      status: "infeasible",
+      maxQty,
+      overage: cargoQty - maxQty,
+      volumeM3,
+      reason: `Cargo volume (${Math.round(volumeM3)} m3 at ${stowFactor} m3/MT) exceeds grain capacity (${Math.round(capacityM3)} m3).`,
+    };
+  }
+  return { status: "feasible", maxQty, overage: 0, volumeM3 };
+};
+
+// Weight and cube together; `weightLimit` is DWT or a tighter draft-limited intake.
+export const getCargoFeasibility = (
+  cargoQty: number,
+  params: {
+    weightLimit: number;
+    stowFactor: number;
+    capacityM3: number;
+    capacityEstimated?: boolean;
+  },
+): CargoFeasibility => {
+  const weight = getWeightFeasibility(cargoQty, params.weightLimit);
+  const volume = getVolumeFeasibility(cargoQty, params.stowFactor, params.capacityM3);
+  const limitedBy: CargoLimit = volume.maxQty < weight.maxQty ? "volume" : "weight";
+  const binding = limitedBy === "volume" ? volume : weight;
+  const failed = weight.status === "infeasible" ? weight : volume.status === "infeasible" ? volume : null;
+  const capacityEstimated = params.capacityEstimated ?? false;
+  const reason =
+    failed === volume && capacityEstimated
+      ? `${volume.reason} Grain capacity is estimated from DWT.`
+      : failed?.reason;
+  return {
+    status: failed ? "infeasible" : "feasible",
+    maxQty: binding.maxQty,
+    limitedBy,
+    weightMaxQty: weight.maxQty,
+    volumeMaxQty: volume.maxQty,
+    volumeM3: volume.volumeM3,
+    capacityEstimated,
+    overage: Math.max(weight.overage, volume.overage),
+    reason,
+  };
+};
+
 export const getQuantityRangeFeasibility = (
   cargoQty: number,
   range?: QuantityRange | null,
@@ -93,3 +205,86 @@ export const getQuantityRangeFeasibility = (
   }
   return { status: "feasible", min, max, underage: 0, overage: 0 };
 };
+
+export type LoadLineZone = "tropical" | "summer" | "winter";
+
+// Hydrostatics needed to turn a draft limit into deadweight.
+export type IntakeParticulars = {
+  summerDraftM: number;
+  // Tonnes per centimetre immersion around the summer load line.
+  tpc: number;
+  constantMt: number;
+  freshWaterMt: number;
+};
+
+export type IntakeConstraint = "dwt" | "load_line" | "port_draft";
+
+export type IntakeResult = {
+  maxCargoQty: number;
+  binding: IntakeConstraint;
+  zone: LoadLineZone;
+  allowedDraftM: number;
+  deadweightLimit: number;
+  deductions: { bunkers: number; constant: number; freshWater: number };
+  reason: string;
+};
+
+// Scales a Capesize (180,000 MT, 18.2 m, 122 t/cm) by the cube root of DWT when the
+// vessel file has no hydrostatics.
+export const estimateIntakeParticulars = (dwt: number): IntakeParticulars => {
+  const scale = Math.cbrt(Math.max(dwt, 1) / 180000);
+  return {
+    summerDraftM: Math.round(18.2 * scale * 100) / 100,
+    tpc: Math.round(122 * scale * scale * 10) / 10,
+    constantMt: 300,
+    freshWaterMt: 200,
+  };
+};
+
+// Tropical and winter marks sit 1/48 of the summer draft above and below the summer mark.
+export const getLoadLineDraft = (summerDraftM: number, zone: LoadLineZone) =>
+  zone === "tropical"
+    ? summerDraftM * (1 + 1 / 48)
+    : zone === "winter"
+      ? summerDraftM * (1 - 1 / 48)
+      : summerDraftM;
+
+// Largest cargo the vessel can lift at the load port: the deadweight allowed by the
+// load-line zone or the port's draft limit, whichever is lower, less bunkers on board at
+// sailing, constants and fresh water.
+export const calculateMaxIntake = (params: {
+  dwt: number;
+  particulars: IntakeParticulars;
+  bunkersOnBoard: { ifo: number; mdo: number };
+  zone: LoadLineZone;
+  portMaxDraftM?: number | null;
+}): IntakeResult => {
+  const { dwt, particulars, bunkersOnBoard, zone, portMaxDraftM } = params;
+  const tonnesPerMetre = particulars.tpc * 100;
+  const zoneDraftM = getLoadLineDraft(particulars.summerDraftM, zone);
+  const zoneDeadweight = dwt + (zoneDraftM - particulars.summerDraftM) * tonnesPerMetre;
+  const portLimited =
+    Number.isFinite(portMaxDraftM) && (portMaxDraftM as number) < zoneDraftM;
+  const allowedDraftM = portLimited ? (portMaxDraftM as number) : zoneDraftM;
+  const deadweightLimit = portLimited
+    ? dwt - (particulars.summerDraftM - allowedDraftM) * tonnesPerMetre
+    : zoneDeadweight;
+  const deductions = {
+    bunkers: Math.max(bunkersOnBoard.ifo, 0) + Math.max(bunkersOnBoard.mdo, 0),
+    constant: particulars.constantMt,
+    freshWater: particulars.freshWaterMt,
+  };
+  const maxCargoQty = Math.max(
+    0,
+    deadweightLimit - deductions.bunkers - deductions.constant - deductions.freshWater,
+  );
+  const binding: IntakeConstraint = portLimited ? "port_draft" : zone === "summer" ? "dwt" : "load_line";
+  const draft = `${allowedDraftM.toFixed(2)} m`;
+  const reason =
+    binding === "port_draft"
+      ? `Port draft ${draft} limits deadweight to ${Math.round(deadweightLimit)} MT.`
+      : binding === "load_line"
+        ? `${zone === "tropical" ? "Tropical" : "Winter"} load line ${draft} allows ${Math.round(deadweightLimit)} MT deadweight.`
+        : `Summer load line ${draft} (DWT ${Math.round(dwt)} MT).`;
+  return { maxCargoQty, binding, zone, allowedDraftM, deadweightLimit, deductions, reason };
+};